@@ -16,6 +16,130 @@ import {
   AutoLayoutDirection,
   convertFrameNodeToAutoLayout,
 } from "./utils/autoLayout";
+import { CoverageIssue, isViolation } from "./utils/issues";
+import {
+  describeRules,
+  FIGMA_RULE_DOCUMENT,
+  getRuleOptions,
+  getStrokeWeights,
+  isRuleEnabled,
+  RuleContext,
+  runRules,
+} from "./utils/rules";
+import {
+  collectLibraryComponents,
+  forgetMainComponent,
+  getMainComponent,
+} from "./utils/components";
+import { watchPage } from "./utils/pageScans";
+import {
+  createGridStackKey,
+  describeLayoutGrid,
+  ensureGridStyleForGrids,
+  nodeSupportsGridStyles,
+} from "./utils/grids";
+import {
+  collectPaintStyles,
+  createPaintStackKey,
+  getNodePaints,
+  getPaintStyleId,
+  isGradientPaint,
+  PaintProperty,
+} from "./utils/paints";
+import {
+  applyTextStyleToSegment,
+  collectTextStyles,
+  createTypographyKey,
+  ensureTextStyleForSegment,
+  findTextStyleMatches,
+  formatTypography,
+  getDisplayLineHeight,
+  getTextSegments,
+  TextStyleMatch,
+} from "./utils/typography";
+import {
+  describeScoreFormula,
+  isHiddenLayer,
+  ScoreFormula,
+} from "./utils/scoring";
+import {
+  clearVariableCache,
+  describeVariableConflicts,
+  findVariableConflicts,
+  getAllowedScopes,
+  getCollectionVariables,
+  getTargetCollection,
+  listTargetCollections,
+  listVariableCollections,
+  setValueForModes,
+  VariableConflict,
+  VariableTarget,
+} from "./utils/variables";
+import {
+  clearTokenCandidates,
+  findColorTokenMatches,
+  findNumberTokenMatches,
+  getTokenVariable,
+  TokenMatch,
+} from "./utils/tokenMatching";
+import {
+  createProfileFile,
+  DEFAULT_PROFILE_NAME,
+  diffSettings,
+  layerSettings,
+  listOverriddenSettings,
+  omitSettings,
+  parseProfileFile,
+  readPersonalSettings,
+  readSettingsProfiles,
+  SettingsLayer,
+  SettingsProfiles,
+  SettingsTarget,
+  writePersonalSettings,
+  writeSettingsProfiles,
+} from "./utils/settingsStorage";
+import {
+  appendCoverageSnapshot,
+  clearCoverageHistory,
+  CoverageSnapshot,
+  hashSettings,
+  readCoverageHistory,
+} from "./utils/history";
+import {
+  describeGateFailure,
+  evaluateQualityGate,
+  QualityGateVerdict,
+} from "./utils/qualityGate";
+import {
+  clearBaseline,
+  CoverageBaseline,
+  createBaseline,
+  markBaselineIssues,
+  readBaseline,
+  writeBaseline,
+} from "./utils/baseline";
+import {
+  clearExemption,
+  Exemption,
+  getExemption,
+  getSelectionComponentKeys,
+  setExemption,
+} from "./utils/exemptions";
+import {
+  AnalysisStats,
+  analyzeLayerCoverage,
+  calculateCoverageScores,
+  CoverageDetails,
+  CoverageScores,
+  CoverageSettings,
+  createAnalysisStats,
+  createCoverageDetails,
+  DEFAULT_COVERAGE_SETTINGS,
+  ExemptLayer,
+  InstanceInternalsPolicy,
+  mergeAnalysisStats,
+  NonCompliantLayer,
+} from "./core/coverage";
 import {
   chunkLayersByType,
   serializeLayerForAI,
@@ -24,59 +148,76 @@ import {
 
 /// <reference types="@figma/plugin-typings" />
 
+type AnalysisScope = "selection" | "page" | "document";
+
 interface CoverageAnalysis {
   summary: CoverageSummary;
   details: CoverageDetails;
   settings: AnalysisSettings;
+  scoring: ScoreFormula;
+  // Present when several frames were analyzed together; the top-level
+  // summary/details then hold the aggregate across all of them.
+  scope?: AnalysisScope;
+  frames?: CoverageAnalysis[];
 }
 
-interface CoverageSummary {
-  overallScore: number;
-  componentCoverage: number;
-  tokenCoverage: number;
-  styleCoverage: number;
-  totalLayers: number;
-  compliantLayers: number;
+interface CoverageSummary extends CoverageScores {
+  // Violations not in the baseline, and those accepted in it
+  newIssues: number;
+  baselineIssues: number;
+  // When the frame's baseline was recorded; the latest one for aggregates
+  baselineRecordedAt?: number;
+  // Pass/fail against the thresholds in settings, when any are set
+  verdict?: QualityGateVerdict;
   analyzedFrameName: string;
+  analyzedFrameId?: string;
 }
 
-interface CoverageDetails {
-  byType: TypeBreakdown;
-  nonCompliantLayers: NonCompliantLayer[];
-  suggestions?: {
-    autoLayout?: AutoLayoutSuggestion[];
-  };
+// Results of one analyzed layer, keyed by layer id in traversal order. Kept
+// after an analysis so document changes only re-run rules on the layers they
+// touch.
+interface LayerResult {
+  stats: AnalysisStats;
+  parentId: string | null;
 }
 
-interface AutoLayoutSuggestion {
-  id: string;
+type LayerResults = Map<string, LayerResult>;
+
+interface LiveFrame {
+  rootId: string;
   name: string;
-  type: string;
-  path: string;
+  layers: LayerResults;
+  baseline: CoverageBaseline | null;
 }
 
-interface TypeBreakdown {
-  [key: string]: {
-    total: number;
-    compliant: number;
-    percentage: number;
-  };
+interface LiveAnalysis {
+  scope?: AnalysisScope;
+  frames: LiveFrame[];
 }
 
-interface NonCompliantLayer {
-  id: string;
-  name: string;
-  type: string;
-  issues: string[];
-  path: string;
+// Changes pushed to the UI after a live update. Layers are patched by id;
+// the summary and breakdowns replace the previous ones.
+interface CoverageDelta {
+  summary: CoverageSummary;
+  scoring: ScoreFormula;
+  details: Omit<CoverageDetails, "nonCompliantLayers">;
+  changedLayers: NonCompliantLayer[];
+  // Layers that became compliant or were removed
+  removedLayerIds: string[];
+}
+
+interface AnalysisDelta extends CoverageDelta {
+  // Multi-frame analyses also patch each changed frame, keyed by frame id
+  frames?: Record<string, CoverageDelta>;
+  removedFrameIds?: string[];
 }
 
-interface AnalysisSettings {
-  checkComponents: boolean;
-  checkTokens: boolean;
-  checkStyles: boolean;
+interface AnalysisSettings extends CoverageSettings {
   allowLocalStyles: boolean;
-  ignoredTypes: string[];
+  // Re-analyze changed layers while the report is open
+  liveUpdates: boolean;
+  // Store the scores of every analysis run in the analyzed frames
+  recordHistory: boolean;
 }
 
 interface AIRenameConfig {
@@ -147,14 +288,28 @@ interface RenameHistoryEntry {
 
 // Default settings
 const defaultSettings: AnalysisSettings = {
-  checkComponents: true,
-  checkTokens: true,
-  checkStyles: true,
+  ...DEFAULT_COVERAGE_SETTINGS,
   allowLocalStyles: false,
-  ignoredTypes: [],
+  liveUpdates: true,
+  recordHistory: true,
 };
 
 let currentSettings: AnalysisSettings = { ...defaultSettings };
+// The team's settings profiles stored in the document and this user's
+// overrides on top of the active one, each as the difference from the layer
+// below
+let settingsProfiles: SettingsProfiles = {
+  active: DEFAULT_PROFILE_NAME,
+  profiles: { [DEFAULT_PROFILE_NAME]: {} },
+};
+let personalSettings: SettingsLayer = {};
+let ruleContext: RuleContext = {
+  document: FIGMA_RULE_DOCUMENT,
+  libraryComponents: [],
+  approvedCollectionKeys: [],
+  textStyles: [],
+  paintStyles: [],
+};
 const AI_RENAME_CONFIG_KEY = "ai-rename-config";
 
 let aiRenameConfig: AIRenameConfig | null = null;
@@ -174,11 +329,181 @@ let aiRenameHistory: RenameHistoryEntry[] = [];
 let aiRenameRedoStack: RenameHistoryEntry[] = [];
 const DEFAULT_AI_RENAME_BATCH_SIZE = 50;
 const AI_RENAME_ELIGIBLE_TYPES = new Set(["FRAME", "COMPONENT", "INSTANCE"]);
+const ANALYZABLE_ROOT_TYPES = new Set(["FRAME", "COMPONENT", "INSTANCE"]);
 
 figma.showUI(__html__, { width: 480, height: 720 });
+const settingsReady = loadSettings();
 void loadAIRenameConfig();
 postAIRenameHistoryStatus();
 
+function getTeamSettings(): AnalysisSettings {
+  return layerSettings(
+    defaultSettings,
+    settingsProfiles.profiles[settingsProfiles.active] ?? {}
+  );
+}
+
+async function loadSettings() {
+  settingsProfiles = readSettingsProfiles();
+  try {
+    personalSettings = await readPersonalSettings();
+  } catch (error) {
+    console.warn("Could not load personal analysis settings:", error);
+    personalSettings = {};
+  }
+  currentSettings = layerSettings(getTeamSettings(), personalSettings);
+}
+
+// Saves changed settings for everyone in the document or only for this user.
+// Saving for the document also drops this user's overrides of those settings,
+// so the change is visible right away.
+async function updateSettings(
+  changes: Partial<AnalysisSettings>,
+  target: SettingsTarget
+) {
+  const edited = diffSettings(
+    currentSettings,
+    layerSettings(currentSettings, changes)
+  );
+  if (target === "document") {
+    settingsProfiles.profiles[settingsProfiles.active] = diffSettings(
+      defaultSettings,
+      layerSettings(getTeamSettings(), edited)
+    );
+    writeSettingsProfiles(settingsProfiles);
+    personalSettings = omitSettings(personalSettings, edited);
+  } else {
+    const teamSettings = getTeamSettings();
+    personalSettings = diffSettings(
+      teamSettings,
+      layerSettings(layerSettings(teamSettings, personalSettings), edited)
+    );
+  }
+  currentSettings = layerSettings(getTeamSettings(), personalSettings);
+
+  try {
+    await writePersonalSettings(personalSettings);
+  } catch (error) {
+    console.warn("Could not save personal analysis settings:", error);
+  }
+}
+
+async function resetPersonalSettings() {
+  personalSettings = {};
+  currentSettings = getTeamSettings();
+  try {
+    await writePersonalSettings(personalSettings);
+  } catch (error) {
+    console.warn("Could not save personal analysis settings:", error);
+  }
+}
+
+// Profile changes apply to everyone in the document; personal overrides stay
+// on top of whichever profile is active.
+function activateSettingsProfile(name: string) {
+  settingsProfiles.active = name;
+  writeSettingsProfiles(settingsProfiles);
+  currentSettings = layerSettings(getTeamSettings(), personalSettings);
+}
+
+function selectSettingsProfile(name: string) {
+  if (!settingsProfiles.profiles[name]) {
+    postMessageToUI({
+      type: "error",
+      message: `Profile "${name}" does not exist`,
+    });
+    return;
+  }
+  activateSettingsProfile(name);
+}
+
+// New profiles start as a copy of the active one
+function createSettingsProfile(name: string) {
+  const profileName = name.trim();
+  if (!profileName || settingsProfiles.profiles[profileName]) {
+    postMessageToUI({
+      type: "error",
+      message: profileName
+        ? `A profile named "${profileName}" already exists`
+        : "Enter a name for the profile",
+    });
+    return;
+  }
+  settingsProfiles.profiles[profileName] = {
+    ...settingsProfiles.profiles[settingsProfiles.active],
+  };
+  activateSettingsProfile(profileName);
+}
+
+function deleteSettingsProfile(name: string) {
+  const names = Object.keys(settingsProfiles.profiles);
+  if (!settingsProfiles.profiles[name] || names.length === 1) {
+    postMessageToUI({
+      type: "error",
+      message: "The last profile can't be deleted",
+    });
+    return;
+  }
+  delete settingsProfiles.profiles[name];
+  activateSettingsProfile(
+    settingsProfiles.active === name
+      ? Object.keys(settingsProfiles.profiles)[0]
+      : settingsProfiles.active
+  );
+}
+
+// Importing a profile with an existing name replaces it, so a profile kept in
+// version control can be re-imported after it changes.
+function importSettingsProfile(contents: string) {
+  try {
+    const { name, settings } = parseProfileFile(contents, defaultSettings);
+    settingsProfiles.profiles[name] = diffSettings(
+      defaultSettings,
+      layerSettings(defaultSettings, settings)
+    );
+    activateSettingsProfile(name);
+    figma.notify(`✅ Imported profile "${name}"`);
+  } catch (error) {
+    postMessageToUI({
+      type: "error",
+      message: `Failed to import profile: ${
+        error instanceof Error ? error.message : error
+      }`,
+    });
+  }
+}
+
+function exportSettingsProfile() {
+  const name = settingsProfiles.active;
+  postMessageToUI({
+    type: "settings-profile-exported",
+    fileName: `${name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}.profile.json`,
+    contents: createProfileFile(name, settingsProfiles.profiles[name] ?? {}),
+  });
+}
+
+function handleSettingsChanged() {
+  if (!currentSettings.liveUpdates) {
+    stopLiveUpdates();
+  }
+  postSettings();
+}
+
+function postSettings() {
+  const activeProfile = settingsProfiles.profiles[settingsProfiles.active];
+  postMessageToUI({
+    type: "settings-updated",
+    settings: currentSettings,
+    rules: describeRules(),
+    settingsScope: {
+      hasSharedSettings: Object.keys(activeProfile ?? {}).length > 0,
+      personalOverrides: listOverriddenSettings(personalSettings),
+      activeProfile: settingsProfiles.active,
+      profiles: Object.keys(settingsProfiles.profiles),
+    },
+  });
+}
+
 function postAIRenameDebug(event: AIRenameDebugEvent) {
   postMessageToUI({
     type: "ai-rename-debug",
@@ -331,21 +656,107 @@ let selectionSubscriptionCount = 0;
 let lastAnalyzedNodeId: string | null = null;
 let rootScreenNodeId: string | null = null; // Track the root screen being analyzed
 let isSelectingChildLayer = false; // Flag to prevent re-analysis when selecting child layers
+// Scope chosen in the UI; page and document reports aren't replaced by a
+// single-frame analysis when a frame gets selected
+let activeAnalysisScope: AnalysisScope = "selection";
+let liveAnalysis: LiveAnalysis | null = null;
+// The last completed analysis, kept after live updates stop so the reported
+// violations can still be recorded as a baseline
+let lastAnalysis: LiveAnalysis | null = null;
+let isDocumentChangeSubscribed = false;
+let isApplyingLiveChanges = false;
+let liveUpdateTimer: ReturnType<typeof setTimeout> | null = null;
+const pendingLayerChanges = new Set<string>();
+let hasPendingStyleChange = false;
+// documentchange events arrive in bursts while a layer is dragged or edited
+const LIVE_UPDATE_DELAY_MS = 300;
+let isAnalysisRunning = false;
+let analysisCancelRequested = false;
+// Only set while a full analysis runs. The analyzed roots and their direct
+// children are the units of work, counted as they are reached so nothing
+// walks the tree up front; layers counts the layers visited.
+let analysisProgress: {
+  done: number;
+  total: number;
+  layers: number;
+} | null = null;
+const TRAVERSAL_SLICE_MS = 50;
 
 figma.ui.onmessage = async (msg) => {
+  // Analyses and settings changes need the stored settings
+  await settingsReady;
+
   if (msg.type === "analyze-selection") {
-    await analyzeSelection();
+    await analyzeSelection(msg.scope ?? "selection");
+  } else if (msg.type === "set-analysis-scope") {
+    activeAnalysisScope = msg.scope ?? "selection";
+  } else if (msg.type === "cancel-analysis") {
+    if (isAnalysisRunning) {
+      analysisCancelRequested = true;
+    }
   } else if (msg.type === "update-settings") {
-    currentSettings = { ...currentSettings, ...msg.settings };
+    await updateSettings(msg.settings, msg.target ?? "document");
+    handleSettingsChanged();
+  } else if (msg.type === "reset-personal-settings") {
+    await resetPersonalSettings();
+    handleSettingsChanged();
+  } else if (msg.type === "select-settings-profile") {
+    selectSettingsProfile(msg.name);
+    handleSettingsChanged();
+  } else if (msg.type === "create-settings-profile") {
+    createSettingsProfile(msg.name ?? "");
+    handleSettingsChanged();
+  } else if (msg.type === "delete-settings-profile") {
+    deleteSettingsProfile(msg.name);
+    handleSettingsChanged();
+  } else if (msg.type === "import-settings-profile") {
+    importSettingsProfile(msg.contents ?? "");
+    handleSettingsChanged();
+  } else if (msg.type === "export-settings-profile") {
+    exportSettingsProfile();
+  } else if (msg.type === "get-coverage-history") {
     postMessageToUI({
-      type: "settings-updated",
-      settings: currentSettings,
+      type: "coverage-history",
+      histories: await getCoverageHistories(msg.frameIds ?? []),
     });
-  } else if (msg.type === "get-settings") {
+  } else if (msg.type === "clear-coverage-history") {
+    const node = await figma.getNodeByIdAsync(msg.frameId);
+    if (node) clearCoverageHistory(node);
     postMessageToUI({
-      type: "settings-updated",
-      settings: currentSettings,
+      type: "coverage-history",
+      histories: { [msg.frameId]: [] },
     });
+  } else if (msg.type === "get-removed-layers") {
+    postMessageToUI({
+      type: "removed-layers",
+      layerIds: await findRemovedLayerIds(msg.layerIds ?? []),
+    });
+  } else if (msg.type === "get-variable-collections") {
+    try {
+      postMessageToUI({
+        type: "variable-collections",
+        collections: await listVariableCollections(),
+      });
+    } catch (error) {
+      postMessageToUI({
+        type: "error",
+        message: `Failed to load variable collections: ${error}`,
+      });
+    }
+  } else if (msg.type === "get-variable-targets") {
+    try {
+      postMessageToUI({
+        type: "variable-targets",
+        collections: await listTargetCollections(),
+      });
+    } catch (error) {
+      postMessageToUI({
+        type: "error",
+        message: `Failed to load variable collections: ${error}`,
+      });
+    }
+  } else if (msg.type === "get-settings") {
+    postSettings();
   } else if (msg.type === "store-ai-rename-config") {
     postAIRenameDebug({
       phase: "config",
@@ -402,6 +813,12 @@ figma.ui.onmessage = async (msg) => {
       // Set flag to prevent re-analysis when selecting child layers
       isSelectingChildLayer = true;
 
+      // Document-wide analyses can reference layers on other pages
+      const page = findPageForNode(node);
+      if (page && page !== figma.currentPage) {
+        await figma.setCurrentPageAsync(page);
+      }
+
       figma.currentPage.selection = [node as SceneNode];
 
       // Only zoom if it's the root screen or if explicitly requested
@@ -419,7 +836,10 @@ figma.ui.onmessage = async (msg) => {
   } else if (msg.type === "get-layer-colors") {
     const node = await figma.getNodeByIdAsync(msg.layerId);
     if (node && "fills" in node) {
-      const colors = extractColorsFromLayer(node as SceneNode);
+      const colors = await addColorTokenMatches(
+        node as SceneNode,
+        extractColorsFromLayer(node as SceneNode)
+      );
       postMessageToUI({
         type: "layer-colors",
         colors,
@@ -429,7 +849,10 @@ figma.ui.onmessage = async (msg) => {
   } else if (msg.type === "get-layer-spacing") {
     const node = await figma.getNodeByIdAsync(msg.layerId);
     if (node) {
-      const spacing = extractSpacingFromLayer(node as SceneNode);
+      const spacing = await addSpacingTokenMatches(
+        node as SceneNode,
+        extractSpacingFromLayer(node as SceneNode)
+      );
       postMessageToUI({
         type: "layer-spacing",
         spacing,
@@ -446,18 +869,83 @@ figma.ui.onmessage = async (msg) => {
         layerId: msg.layerId,
       });
     }
+  } else if (msg.type === "get-layer-grids") {
+    const node = await figma.getNodeByIdAsync(msg.layerId);
+    if (node) {
+      postMessageToUI({
+        type: "layer-grids",
+        grids: extractGridsFromLayer(node as SceneNode),
+        layerId: msg.layerId,
+      });
+    }
+  } else if (msg.type === "get-layer-paint-styles") {
+    const node = await figma.getNodeByIdAsync(msg.layerId);
+    if (node) {
+      postMessageToUI({
+        type: "layer-paint-styles",
+        paints: await extractGradientsFromLayer(node as SceneNode),
+        layerId: msg.layerId,
+      });
+    }
+  } else if (msg.type === "get-selection-image-hashes") {
+    postMessageToUI({
+      type: "selection-image-hashes",
+      imageHashes: getSelectionImageHashes(),
+    });
+  } else if (msg.type === "get-selection-component-keys") {
+    postMessageToUI({
+      type: "selection-component-keys",
+      componentKeys: await getSelectionComponentKeys(
+        figma.currentPage.selection
+      ),
+    });
+  } else if (msg.type === "set-layer-exemption") {
+    await updateLayerExemption(msg.layerId, msg.reason ?? "");
+  } else if (msg.type === "clear-layer-exemption") {
+    await updateLayerExemption(msg.layerId, null);
+  } else if (msg.type === "record-baseline") {
+    await updateBaselines(msg.frameIds ?? [], true);
+  } else if (msg.type === "clear-baseline") {
+    await updateBaselines(msg.frameIds ?? [], false);
+  } else if (msg.type === "get-layer-typography") {
+    const node = await figma.getNodeByIdAsync(msg.layerId);
+    if (node && node.type === "TEXT") {
+      postMessageToUI({
+        type: "layer-typography",
+        typography: await extractTypographyFromLayer(node),
+        layerId: msg.layerId,
+      });
+    }
   } else if (msg.type === "apply-color-variables") {
-    await applyColorVariables(msg.layerId, msg.variableBindings);
+    await applyColorVariables(msg.layerId, msg.variableBindings, msg.target);
   } else if (msg.type === "apply-bulk-color-variables") {
-    await applyBulkColorVariables(msg.layerIds, msg.colorToVariableMap);
+    await applyBulkColorVariables(msg.layerIds, msg.colorToVariableMap, {
+      variableIds: msg.colorVariableIds,
+      modeValues: msg.colorModeValues,
+      target: msg.target,
+    });
   } else if (msg.type === "apply-spacing-variables") {
-    await applySpacingVariables(msg.layerId, msg.variableBindings);
+    await applySpacingVariables(
+      msg.layerId,
+      msg.variableBindings,
+      msg.target
+    );
   } else if (msg.type === "apply-bulk-spacing-variables") {
-    await applyBulkSpacingVariables(msg.layerIds, msg.spacingToVariableMap);
+    await applyBulkSpacingVariables(msg.layerIds, msg.spacingToVariableMap, {
+      variableIds: msg.spacingVariableIds,
+      modeValues: msg.spacingModeValues,
+      target: msg.target,
+    });
   } else if (msg.type === "apply-effect-styles") {
     await applyEffectStyles(msg.layerId, msg.styleBindings);
   } else if (msg.type === "apply-bulk-effect-styles") {
     await applyBulkEffectStyles(msg.layerIds, msg.effectAssignments);
+  } else if (msg.type === "apply-bulk-grid-styles") {
+    await applyBulkGridStyles(msg.layerIds, msg.gridAssignments);
+  } else if (msg.type === "apply-bulk-paint-styles") {
+    await applyBulkPaintStyles(msg.layerIds, msg.paintAssignments);
+  } else if (msg.type === "apply-bulk-text-styles") {
+    await applyBulkTextStyles(msg.layerIds, msg.textAssignments);
   } else if (msg.type === "convert-to-auto-layout") {
     await convertFrameToAutoLayoutById(msg.layerId, msg.direction);
   } else if (msg.type === "convert-bulk-auto-layout") {
@@ -1183,6 +1671,22 @@ function notifySelectionChange(nodeId: string | null) {
   postMessageToUI({ type: "selection-changed", nodeId });
 }
 
+function findPageForNode(node: BaseNode): PageNode | null {
+  let current: BaseNode | null = node;
+  while (current && current.type !== "PAGE") {
+    current = current.parent;
+  }
+  return current as PageNode | null;
+}
+
+// Layers of a compared report that were deleted from the file since
+async function findRemovedLayerIds(layerIds: string[]): Promise<string[]> {
+  const nodes = await Promise.all(
+    layerIds.map((id) => figma.getNodeByIdAsync(id))
+  );
+  return layerIds.filter((_, index) => !nodes[index] || nodes[index]!.removed);
+}
+
 async function createCanvasReport(
   analysis: any,
   linearIssue: any,
@@ -1379,17 +1883,13 @@ function handleSelectionChange() {
   }
 
   const node = selection[0];
-  if (
-    node.type !== "FRAME" &&
-    node.type !== "COMPONENT" &&
-    node.type !== "INSTANCE"
-  ) {
+  if (!isAnalyzableRoot(node)) {
     lastAnalyzedNodeId = null;
     notifySelectionChange(null);
     return;
   }
 
-  if (lastAnalyzedNodeId === node.id) {
+  if (lastAnalyzedNodeId === node.id || activeAnalysisScope !== "selection") {
     notifySelectionChange(node.id);
     return;
   }
@@ -1399,10 +1899,58 @@ function handleSelectionChange() {
   runAnalysisOnNode(node);
 }
 
-async function analyzeSelection() {
+function isAnalyzableRoot(node: SceneNode): boolean {
+  return ANALYZABLE_ROOT_TYPES.has(node.type);
+}
+
+// Sections are containers rather than screens, so they expand into the
+// frames they hold (including frames inside nested sections).
+function collectAnalysisRoots(nodes: ReadonlyArray<SceneNode>): SceneNode[] {
+  const roots: SceneNode[] = [];
+  for (const node of nodes) {
+    if (node.type === "SECTION") {
+      roots.push(...collectAnalysisRoots(node.children));
+    } else if (isAnalyzableRoot(node)) {
+      roots.push(node);
+    }
+  }
+  return roots;
+}
+
+async function resolveAnalysisRoots(
+  scope: AnalysisScope
+): Promise<SceneNode[]> {
+  if (scope === "page") {
+    return collectAnalysisRoots(figma.currentPage.children);
+  }
+
+  if (scope === "document") {
+    await figma.loadAllPagesAsync();
+    const roots: SceneNode[] = [];
+    for (const page of figma.root.children) {
+      roots.push(...collectAnalysisRoots(page.children));
+    }
+    return roots;
+  }
+
+  return collectAnalysisRoots(figma.currentPage.selection);
+}
+
+function describeAnalysisScope(scope: AnalysisScope, frameCount: number) {
+  const frames = `${frameCount} frame${frameCount === 1 ? "" : "s"}`;
+  if (scope === "page") {
+    return `${figma.currentPage.name} (${frames})`;
+  }
+  if (scope === "document") {
+    return `${figma.root.name} (${frames})`;
+  }
+  return `Selection (${frames})`;
+}
+
+async function analyzeSelection(scope: AnalysisScope = "selection") {
   const selection = figma.currentPage.selection;
 
-  if (selection.length === 0) {
+  if (scope === "selection" && selection.length === 0) {
     postMessageToUI({
       type: "error",
       message: "Please select a frame to analyze",
@@ -1410,38 +1958,98 @@ async function analyzeSelection() {
     return;
   }
 
-  if (selection.length > 1) {
+  const roots = await resolveAnalysisRoots(scope);
+
+  if (roots.length === 0) {
     postMessageToUI({
       type: "error",
-      message: "Please select only one frame",
+      message:
+        scope === "page"
+          ? "No frames, components, or instances found on this page"
+          : scope === "document"
+          ? "No frames, components, or instances found in this document"
+          : "Please select a frame, component, instance, or section",
     });
     return;
   }
 
-  const selectedNode = selection[0];
-
+  // A single selected frame keeps the classic single-frame report
   if (
-    selectedNode.type !== "FRAME" &&
-    selectedNode.type !== "COMPONENT" &&
-    selectedNode.type !== "INSTANCE"
+    scope === "selection" &&
+    selection.length === 1 &&
+    roots.length === 1 &&
+    roots[0].id === selection[0].id
   ) {
-    postMessageToUI({
-      type: "error",
-      message: "Please select a frame, component, or instance",
-    });
+    await runAnalysisOnNode(roots[0]);
     return;
   }
 
-  await runAnalysisOnNode(selectedNode);
+  await runAnalysisOnNodes(roots, scope);
 }
 
 async function runAnalysisOnNode(node: SceneNode) {
   lastAnalyzedNodeId = node.id;
   rootScreenNodeId = node.id; // Track the root screen being analyzed
+  await runAnalysis([node]);
+}
+
+async function runAnalysisOnNodes(nodes: SceneNode[], scope: AnalysisScope) {
+  lastAnalyzedNodeId = null;
+  rootScreenNodeId = null;
+  await runAnalysis(nodes, scope);
+}
+
+// Analyzes the roots into one report. Without a scope the single root keeps
+// the classic single-frame report.
+async function runAnalysis(nodes: SceneNode[], scope?: AnalysisScope) {
+  if (isAnalysisRunning) {
+    // Stop the running analysis before starting over with the new roots
+    analysisCancelRequested = true;
+    while (isAnalysisRunning) {
+      await yieldToEventLoop();
+    }
+  }
+
+  isAnalysisRunning = true;
+  analysisCancelRequested = false;
+  liveAnalysis = null;
   postMessageToUI({ type: "analysis-started" });
 
   try {
-    const analysis = await analyzeNode(node);
+    analysisProgress = {
+      done: 0,
+      total: nodes.reduce(
+        (total, node) => total + countProgressUnits(node),
+        0
+      ),
+      layers: 0,
+    };
+    await prepareRuleContext(nodes);
+    const live: LiveAnalysis = { scope, frames: [] };
+
+    for (const node of nodes) {
+      const layers = await collectLayerResults(node);
+      if (analysisCancelRequested) break;
+      live.frames.push({
+        rootId: node.id,
+        name: node.name,
+        layers,
+        baseline: readBaseline(node),
+      });
+    }
+
+    if (analysisCancelRequested) {
+      postMessageToUI({ type: "analysis-cancelled" });
+      return;
+    }
+
+    postAnalysisProgress();
+    lastAnalysis = live;
+    await startLiveUpdates(live);
+    const analysis = buildLiveCoverageAnalysis(live);
+    if (currentSettings.recordHistory) {
+      recordCoverageHistory(nodes, analysis);
+    }
     postMessageToUI({
       type: "analysis-complete",
       data: analysis,
@@ -1451,651 +2059,898 @@ async function runAnalysisOnNode(node: SceneNode) {
       type: "error",
       message: `Analysis failed: ${error}`,
     });
+  } finally {
+    isAnalysisRunning = false;
+    analysisCancelRequested = false;
+    analysisProgress = null;
   }
 }
 
-async function analyzeNode(node: SceneNode): Promise<CoverageAnalysis> {
-  const stats = {
-    totalLayers: 0,
-    compliantLayers: 0,
-    byType: {} as TypeBreakdown,
-    nonCompliantLayers: [] as NonCompliantLayer[],
-    autoLayoutSuggestions: new Map<string, AutoLayoutSuggestion>(),
-  };
+// Stores a snapshot of each analyzed frame's scores on the frame itself
+function recordCoverageHistory(
+  nodes: SceneNode[],
+  analysis: CoverageAnalysis
+) {
+  // Live updates and thresholds don't change the scores, so changing them
+  // keeps runs comparable
+  const {
+    liveUpdates: _liveUpdates,
+    thresholds: _thresholds,
+    ...scoredSettings
+  } = currentSettings;
+  const settingsHash = hashSettings(scoredSettings);
+  const reports = analysis.frames ?? [analysis];
+  reports.forEach((report, index) => {
+    const node = nodes[index];
+    if (!node) return;
+    try {
+      appendCoverageSnapshot(node, {
+        timestamp: Date.now(),
+        frameId: node.id,
+        frameName: node.name,
+        settingsHash,
+        overallScore: report.summary.overallScore,
+        componentCoverage: report.summary.componentCoverage,
+        tokenCoverage: report.summary.tokenCoverage,
+        styleCoverage: report.summary.styleCoverage,
+        totalLayers: report.summary.totalLayers,
+        compliantLayers: report.summary.compliantLayers,
+      });
+    } catch (error) {
+      console.warn(`Could not record coverage history of ${node.name}:`, error);
+    }
+  });
+}
 
-  const frameName = node.name;
+async function getCoverageHistories(
+  frameIds: string[]
+): Promise<Record<string, CoverageSnapshot[]>> {
+  const histories: Record<string, CoverageSnapshot[]> = {};
+  for (const frameId of frameIds) {
+    const node = await figma.getNodeByIdAsync(frameId);
+    histories[frameId] = node ? readCoverageHistory(node) : [];
+  }
+  return histories;
+}
 
-  // Recursively analyze all nodes
-  await traverseNode(node, stats, [frameName]);
+function getLiveFrameStats(frame: LiveFrame): AnalysisStats {
+  const stats = mergeLayerResults(frame.layers);
+  stats.nonCompliantLayers = stats.nonCompliantLayers.map((layer) =>
+    markBaselineIssues(layer, frame.baseline)
+  );
+  return stats;
+}
 
-  // Calculate coverage percentages
-  const summary: CoverageSummary = {
-    overallScore:
-      stats.totalLayers > 0
-        ? Math.round((stats.compliantLayers / stats.totalLayers) * 100)
-        : 0,
-    componentCoverage: calculateComponentCoverage(stats),
-    tokenCoverage: calculateTokenCoverage(stats),
-    styleCoverage: calculateStyleCoverage(stats),
-    totalLayers: stats.totalLayers,
-    compliantLayers: stats.compliantLayers,
-    analyzedFrameName: frameName,
-  };
+// The reported state of a cached layer, with baseline issues marked
+function getLiveLayer(
+  frame: LiveFrame,
+  id: string
+): NonCompliantLayer | undefined {
+  const layer = frame.layers.get(id)?.stats.nonCompliantLayers[0];
+  return layer && markBaselineIssues(layer, frame.baseline);
+}
 
-  const details: CoverageDetails = {
-    byType: stats.byType,
-    nonCompliantLayers: stats.nonCompliantLayers,
-    suggestions: {
-      autoLayout: Array.from(stats.autoLayoutSuggestions.values()),
-    },
-  };
+function buildLiveCoverageAnalysis(live: LiveAnalysis): CoverageAnalysis {
+  if (!live.scope) {
+    const frame = live.frames[0];
+    return buildCoverageAnalysis(
+      getLiveFrameStats(frame),
+      frame.name,
+      frame.rootId,
+      frame.baseline?.recordedAt
+    );
+  }
 
+  const frameStats = live.frames.map(getLiveFrameStats);
+  const baselineTimes = live.frames
+    .map((frame) => frame.baseline?.recordedAt ?? 0)
+    .filter((recordedAt) => recordedAt > 0);
+  const aggregate = buildCoverageAnalysis(
+    mergeAnalysisStats(frameStats),
+    describeAnalysisScope(live.scope, live.frames.length),
+    undefined,
+    baselineTimes.length > 0 ? Math.max(...baselineTimes) : undefined
+  );
   return {
-    summary,
-    details,
-    settings: currentSettings,
+    ...aggregate,
+    scope: live.scope,
+    frames: live.frames.map((frame, index) =>
+      buildCoverageAnalysis(
+        frameStats[index],
+        frame.name,
+        frame.rootId,
+        frame.baseline?.recordedAt
+      )
+    ),
   };
 }
 
-async function traverseNode(
-  node: SceneNode | PageNode,
-  stats: any,
-  path: string[]
-): Promise<void> {
-  // Skip certain node types if configured
-  if ("type" in node && currentSettings.ignoredTypes.includes(node.type)) {
-    return;
-  }
+async function startLiveUpdates(live: LiveAnalysis) {
+  liveAnalysis = live;
+  pendingLayerChanges.clear();
+  hasPendingStyleChange = false;
+
+  if (!currentSettings.liveUpdates || isDocumentChangeSubscribed) return;
+  // Dynamic page access requires every page to be loaded before
+  // documentchange can be observed
+  await figma.loadAllPagesAsync();
+  figma.on("documentchange", handleDocumentChange);
+  isDocumentChangeSubscribed = true;
+}
 
-  // Analyze current node if it's a scene node
-  if ("type" in node && node.type !== "PAGE") {
-    await analyzeLayer(node as SceneNode, stats, path);
+function stopLiveUpdates() {
+  liveAnalysis = null;
+  pendingLayerChanges.clear();
+  if (liveUpdateTimer) {
+    clearTimeout(liveUpdateTimer);
+    liveUpdateTimer = null;
   }
+  if (isDocumentChangeSubscribed) {
+    figma.off("documentchange", handleDocumentChange);
+    isDocumentChangeSubscribed = false;
+  }
+}
 
-  // Traverse children
-  if ("children" in node) {
-    const children = node.children;
-    for (let i = 0; i < children.length; i++) {
-      const child = children[i];
-      const childPath = [...path, child.name];
-
-      // Send progress update every 10 nodes
-      if (stats.totalLayers % 10 === 0) {
-        postMessageToUI({
-          type: "analysis-progress",
-          progress: stats.totalLayers,
-        });
-      }
+function handleDocumentChange(event: DocumentChangeEvent) {
+  if (!liveAnalysis) return;
 
-      await traverseNode(child, stats, childPath);
+  for (const change of event.documentChanges) {
+    // This plugin's own history and exemption writes are plugin data changes;
+    // exemption changes queue their layer themselves
+    if (
+      change.type === "PROPERTY_CHANGE" &&
+      change.origin === "LOCAL" &&
+      change.properties.every((property) => property === "pluginData")
+    ) {
+      continue;
+    }
+    if (
+      change.type === "CREATE" ||
+      change.type === "DELETE" ||
+      change.type === "PROPERTY_CHANGE"
+    ) {
+      pendingLayerChanges.add(change.id);
+    } else {
+      hasPendingStyleChange = true;
     }
   }
+
+  scheduleLiveUpdate();
 }
 
-function extractRawProperties(node: SceneNode): any {
-  const props: any = {
-    id: node.id,
-    name: node.name,
-    type: node.type,
-    visible: node.visible,
-    locked: node.locked,
-  };
+function scheduleLiveUpdate() {
+  if (liveUpdateTimer) clearTimeout(liveUpdateTimer);
+  liveUpdateTimer = setTimeout(() => {
+    liveUpdateTimer = null;
+    applyLiveChanges();
+  }, LIVE_UPDATE_DELAY_MS);
+}
 
-  // Extract fills
-  if ("fills" in node && node.fills !== figma.mixed) {
-    props.fills = Array.isArray(node.fills)
-      ? node.fills.map((fill: Paint) => ({
-          type: fill.type,
-          visible: fill.visible,
-          opacity: fill.opacity,
-          color: fill.type === "SOLID" ? fill.color : undefined,
-          boundVariables: (fill as any).boundVariables,
-        }))
-      : [];
+// Layers from the analyzed root down to the node, or null when the node is
+// outside every analyzed frame.
+function getLiveChain(
+  live: LiveAnalysis,
+  node: BaseNode
+): { frame: LiveFrame; chain: SceneNode[] } | null {
+  const chain: SceneNode[] = [];
+  let current: BaseNode | null = node;
+  while (current && current.type !== "PAGE" && current.type !== "DOCUMENT") {
+    chain.unshift(current as SceneNode);
+    const currentId: string = current.id;
+    const frame = live.frames.find((candidate) => candidate.rootId === currentId);
+    if (frame) return { frame, chain };
+    current = current.parent;
   }
+  return null;
+}
 
-  // Extract strokes
-  if ("strokes" in node && Array.isArray(node.strokes)) {
-    props.strokes = node.strokes.map((stroke: Paint) => ({
-      type: stroke.type,
-      visible: stroke.visible,
-      opacity: stroke.opacity,
-      color: stroke.type === "SOLID" ? stroke.color : undefined,
-      boundVariables: (stroke as any).boundVariables,
-    }));
-  }
+// Cached ids of a layer and everything analyzed beneath it.
+function getCachedSubtreeIds(layers: LayerResults, rootId: string): string[] {
+  if (!layers.has(rootId)) return [];
+  const children = new Map<string, string[]>();
+  layers.forEach((result, id) => {
+    if (!result.parentId) return;
+    const siblings = children.get(result.parentId) ?? [];
+    siblings.push(id);
+    children.set(result.parentId, siblings);
+  });
 
-  // Extract text properties
-  if (node.type === "TEXT") {
-    const textNode = node as TextNode;
-    props.fontSize = textNode.fontSize;
-    props.fontName = textNode.fontName;
-    props.textStyleId = textNode.textStyleId;
-    props.characters = textNode.characters.substring(0, 100); // First 100 chars
-  }
-
-  // Extract layout properties
-  if ("layoutMode" in node) {
-    props.layoutMode = (node as FrameNode).layoutMode;
-    props.paddingLeft = (node as FrameNode).paddingLeft;
-    props.paddingRight = (node as FrameNode).paddingRight;
-    props.paddingTop = (node as FrameNode).paddingTop;
-    props.paddingBottom = (node as FrameNode).paddingBottom;
+  const ids = [rootId];
+  for (let i = 0; i < ids.length; i++) {
+    ids.push(...(children.get(ids[i]) ?? []));
   }
+  return ids;
+}
 
-  // Extract corner radius
-  if ("cornerRadius" in node) {
-    props.cornerRadius = (node as any).cornerRadius;
+// Changes inside an opaque or overrides-only library instance re-check the
+// outermost such instance, so its policy decides which sublayers are analyzed.
+async function getPolicyChain(chain: SceneNode[]): Promise<SceneNode[]> {
+  for (let depth = 0; depth < chain.length - 1; depth++) {
+    if (await getInstancePolicy(chain[depth])) {
+      return chain.slice(0, depth + 1);
+    }
   }
+  return chain;
+}
 
-  // Extract effects
-  if ("effects" in node && node.effects) {
-    props.effects = node.effects.map((effect: Effect) => ({
-      type: effect.type,
-      visible: effect.visible,
-      radius: "radius" in effect ? effect.radius : undefined,
-      boundVariables:
-        "boundVariables" in effect ? effect.boundVariables : undefined,
-    }));
+// Re-runs rules on the changed subtrees of a frame and on their ancestors,
+// since rules such as detached-instance read a layer's children. Returns the
+// ids whose results may have changed.
+async function patchLiveFrame(
+  frame: LiveFrame,
+  chains: SceneNode[][],
+  removedIds: string[]
+): Promise<Set<string>> {
+  const touched = new Set<string>();
+
+  for (const id of removedIds) {
+    for (const subtreeId of getCachedSubtreeIds(frame.layers, id)) {
+      frame.layers.delete(subtreeId);
+      touched.add(subtreeId);
+    }
   }
 
-  // Extract style IDs
-  if ("fillStyleId" in node) props.fillStyleId = (node as any).fillStyleId;
-  if ("strokeStyleId" in node)
-    props.strokeStyleId = (node as any).strokeStyleId;
-  if ("effectStyleId" in node)
-    props.effectStyleId = (node as any).effectStyleId;
-  if ("textStyleId" in node) props.textStyleId = (node as any).textStyleId;
+  // Parents first, so a new parent is in the cache before its children and
+  // children already covered by a parent's subtree are skipped
+  const sortedChains = [...chains].sort((a, b) => a.length - b.length);
+  for (const changedChain of sortedChains) {
+    const chain = await getPolicyChain(changedChain);
+    const node = chain[chain.length - 1];
+    const parent = chain[chain.length - 2];
+    if (touched.has(node.id)) continue;
+    // Layers under ignored or hidden parents stay out of the analysis
+    if (parent && !frame.layers.has(parent.id)) continue;
+
+    const previousIds = getCachedSubtreeIds(frame.layers, node.id);
+    const fresh = await collectLayerResults(
+      node,
+      chain.map((layer) => layer.name),
+      parent?.id ?? null
+    );
+    // Existing ids keep their position so the layer list doesn't reorder
+    fresh.forEach((result, id) => {
+      frame.layers.set(id, result);
+      touched.add(id);
+    });
+    for (const id of previousIds) {
+      if (!fresh.has(id)) {
+        frame.layers.delete(id);
+        touched.add(id);
+      }
+    }
 
-  // Extract bound variables
-  if ("boundVariables" in node && node.boundVariables) {
-    props.boundVariables = node.boundVariables;
+    for (let depth = 0; depth < chain.length - 1; depth++) {
+      const ancestor = chain[depth];
+      const cached = frame.layers.get(ancestor.id);
+      if (!cached || touched.has(ancestor.id)) continue;
+      const stats = createAnalysisStats();
+      await analyzeLayer(
+        ancestor,
+        stats,
+        chain
+          .slice(0, depth + 1)
+          .map((layer) => layer.name)
+          .join(" > "),
+        depth
+      );
+      frame.layers.set(ancestor.id, { stats, parentId: cached.parentId });
+      touched.add(ancestor.id);
+    }
   }
 
-  return props;
+  return touched;
 }
 
-async function analyzeLayer(
-  node: SceneNode,
-  stats: any,
-  path: string[]
-): Promise<void> {
-  stats.totalLayers++;
-
-  const nodeType = node.type;
-  if (!stats.byType[nodeType]) {
-    stats.byType[nodeType] = { total: 0, compliant: 0, percentage: 0 };
+function createCoverageDelta(
+  analysis: CoverageAnalysis,
+  touchedIds: Iterable<string>,
+  layers: (id: string) => NonCompliantLayer | undefined
+): CoverageDelta {
+  const changedLayers: NonCompliantLayer[] = [];
+  const removedLayerIds: string[] = [];
+  for (const id of touchedIds) {
+    const layer = layers(id);
+    if (layer) {
+      changedLayers.push(layer);
+    } else {
+      removedLayerIds.push(id);
+    }
   }
-  stats.byType[nodeType].total++;
 
-  const issues: string[] = [];
-  let isCompliant = true;
-  const analysisDetails: any = {
-    componentCheck: null,
-    tokenChecks: [],
-    styleChecks: [],
+  const { byType, byCategory, byProperty, exemptLayers, suggestions } =
+    analysis.details;
+  return {
+    summary: analysis.summary,
+    scoring: analysis.scoring,
+    details: { byType, byCategory, byProperty, exemptLayers, suggestions },
+    changedLayers,
+    removedLayerIds,
   };
+}
 
-  // Check 1: Component Coverage (Story 2)
-  if (currentSettings.checkComponents) {
-    const componentIssue = await checkComponentUsage(node);
-    analysisDetails.componentCheck = {
-      enabled: true,
-      issue: componentIssue,
-      passed: !componentIssue,
-    };
-    if (componentIssue) {
-      issues.push(componentIssue);
-      isCompliant = false;
-    }
-  }
+async function applyLiveChanges() {
+  const live = liveAnalysis;
+  if (!live || isApplyingLiveChanges) return;
+  isApplyingLiveChanges = true;
 
-  // Check 2: Token Coverage (Story 3)
-  if (currentSettings.checkTokens) {
-    const tokenIssues = checkTokenUsage(node);
-    analysisDetails.tokenChecks = tokenIssues.map((issue) => ({
-      issue,
-      category: "token",
-    }));
-    if (tokenIssues.length > 0) {
-      issues.push(...tokenIssues);
-      isCompliant = false;
+  try {
+    const changedIds = Array.from(pendingLayerChanges);
+    pendingLayerChanges.clear();
+    // Swapped instances would otherwise keep their old main component
+    changedIds.forEach(forgetMainComponent);
+
+    if (hasPendingStyleChange) {
+      // Styles feed the rule context and can affect any layer
+      hasPendingStyleChange = false;
+      const roots: SceneNode[] = [];
+      for (const frame of live.frames) {
+        const root = await figma.getNodeByIdAsync(frame.rootId);
+        if (root && !root.removed) roots.push(root as SceneNode);
+      }
+      await prepareRuleContext(roots);
+      changedIds.push(...live.frames.map((frame) => frame.rootId));
     }
-  }
 
-  // Check 3: Style Coverage (Story 4)
-  if (currentSettings.checkStyles) {
-    const styleIssues = checkStyleUsage(node);
-    analysisDetails.styleChecks = styleIssues.map((issue) => ({
-      issue,
-      type: issue.includes("🔴")
-        ? "critical"
-        : issue.includes("⚠️")
-        ? "warning"
-        : "success",
-    }));
-    if (styleIssues.length > 0) {
-      // Only mark as non-compliant if there are actual issues (🔴 or ⚠️)
-      const hasActualIssues = styleIssues.some(
-        (issue) => issue.includes("🔴") || issue.includes("⚠️")
-      );
-
-      issues.push(...styleIssues);
-
-      if (hasActualIssues) {
-        isCompliant = false;
+    const chainsByFrame = new Map<LiveFrame, SceneNode[][]>();
+    const removedByFrame = new Map<LiveFrame, string[]>();
+    for (const id of changedIds) {
+      const node = await figma.getNodeByIdAsync(id);
+      const located = node && !node.removed ? getLiveChain(live, node) : null;
+      if (located) {
+        const chains = chainsByFrame.get(located.frame) ?? [];
+        chains.push(located.chain);
+        chainsByFrame.set(located.frame, chains);
+        continue;
+      }
+      // Deleted, or moved out of the analyzed frames
+      const frame = live.frames.find((candidate) => candidate.layers.has(id));
+      if (frame) {
+        removedByFrame.set(frame, [...(removedByFrame.get(frame) ?? []), id]);
       }
     }
-  }
 
-  const isFrameAutoLayout =
-    node.type === "FRAME" &&
-    "layoutMode" in node &&
-    (node as FrameNode).layoutMode !== "NONE";
+    const touchedByFrame = new Map<LiveFrame, Set<string>>();
+    const removedFrameIds: string[] = [];
+    for (const frame of live.frames) {
+      const chains = chainsByFrame.get(frame) ?? [];
+      const removedIds = removedByFrame.get(frame) ?? [];
+      if (chains.length === 0 && removedIds.length === 0) continue;
 
-  if (isCompliant) {
-    stats.compliantLayers++;
-    stats.byType[nodeType].compliant++;
-  } else {
-    // Extract raw properties for detailed inspection
-    const rawProperties = extractRawProperties(node);
+      if (removedIds.indexOf(frame.rootId) !== -1) {
+        removedFrameIds.push(frame.rootId);
+        touchedByFrame.set(frame, new Set(frame.layers.keys()));
+        continue;
+      }
+      const root = chains.find((chain) => chain.length === 1);
+      if (root) frame.name = root[0].name;
+      touchedByFrame.set(
+        frame,
+        await patchLiveFrame(frame, chains, removedIds)
+      );
+    }
 
-    stats.nonCompliantLayers.push({
-      id: node.id,
-      name: node.name,
-      type: nodeType,
-      issues,
-      path: path.join(" > "),
-      rawProperties,
-      analysis: analysisDetails,
-    });
-  }
+    // A new analysis replaced this one while rules were running
+    if (liveAnalysis !== live || touchedByFrame.size === 0) return;
 
-  // Update percentage for this type
-  stats.byType[nodeType].percentage = Math.round(
-    (stats.byType[nodeType].compliant / stats.byType[nodeType].total) * 100
-  );
+    const removedFrames = live.frames.filter(
+      (frame) => removedFrameIds.indexOf(frame.rootId) !== -1
+    );
+    live.frames = live.frames.filter(
+      (frame) => removedFrameIds.indexOf(frame.rootId) === -1
+    );
+    if (live.frames.length === 0) {
+      liveAnalysis = null;
+      return;
+    }
 
-  if (node.type === "FRAME" && !isFrameAutoLayout) {
-    stats.autoLayoutSuggestions.set(node.id, {
-      id: node.id,
-      name: node.name,
-      type: node.type,
-      path: path.join(" > "),
-    });
+    postLiveDelta(
+      live,
+      touchedByFrame,
+      removedFrames.map((frame) => frame.rootId)
+    );
+  } catch (error) {
+    console.error("Live analysis update failed:", error);
+  } finally {
+    isApplyingLiveChanges = false;
+    if (pendingLayerChanges.size > 0 || hasPendingStyleChange) {
+      scheduleLiveUpdate();
+    }
   }
 }
 
-async function checkComponentUsage(node: SceneNode): Promise<string | null> {
-  // Check if node is an instance of a library component
-  if (node.type === "INSTANCE") {
-    const mainComponent = await (node as InstanceNode).getMainComponentAsync();
-    if (mainComponent && mainComponent.remote) {
-      // It's a library component - compliant
-      return null;
-    } else if (mainComponent) {
-      // It's a local component
-      return "Uses local component instead of library component";
+function postLiveDelta(
+  live: LiveAnalysis,
+  touchedByFrame: Map<LiveFrame, Set<string>>,
+  removedFrameIds: string[] = []
+) {
+  const analysis = buildLiveCoverageAnalysis(live);
+  const touchedIds = new Set<string>();
+  touchedByFrame.forEach((ids) => ids.forEach((id) => touchedIds.add(id)));
+  const findLayer = (id: string) => {
+    for (const frame of live.frames) {
+      if (frame.layers.has(id)) return getLiveLayer(frame, id);
     }
-  }
+    return undefined;
+  };
 
-  // For non-instance nodes that could be instances (frames, rectangles, etc.)
-  if (
-    node.type === "FRAME" ||
-    node.type === "RECTANGLE" ||
-    node.type === "ELLIPSE" ||
-    node.type === "POLYGON" ||
-    node.type === "STAR" ||
-    node.type === "VECTOR" ||
-    node.type === "TEXT" ||
-    node.type === "GROUP"
-  ) {
-    // These should ideally be instances if they represent reusable UI elements
-    // This is a soft warning - you might want to make this configurable
-    if (
-      node.name.toLowerCase().includes("button") ||
-      node.name.toLowerCase().includes("input") ||
-      node.name.toLowerCase().includes("card") ||
-      node.name.toLowerCase().includes("icon")
-    ) {
-      return "Potentially reusable element not using library component";
-    }
+  const delta: AnalysisDelta = createCoverageDelta(
+    analysis,
+    touchedIds,
+    findLayer
+  );
+  if (live.scope && analysis.frames) {
+    const frameDeltas: Record<string, CoverageDelta> = {};
+    live.frames.forEach((frame, index) => {
+      const ids = touchedByFrame.get(frame);
+      if (ids && analysis.frames) {
+        frameDeltas[frame.rootId] = createCoverageDelta(
+          analysis.frames[index],
+          ids,
+          (id) => getLiveLayer(frame, id)
+        );
+      }
+    });
+    delta.frames = frameDeltas;
+    delta.removedFrameIds = removedFrameIds;
   }
 
-  return null;
+  postMessageToUI({ type: "analysis-delta", delta });
 }
 
-function checkTokenUsage(node: SceneNode): string[] {
-  const issues: string[] = [];
+// Gathers the document data rules need before traversal starts, such as the
+// library components and text and paint styles used on the analyzed pages.
+async function prepareRuleContext(nodes: ReadonlyArray<SceneNode>) {
+  const { rules } = currentSettings;
+  const needsLibraryComponents =
+    currentSettings.checkComponents &&
+    ((isRuleEnabled("reusable-element", rules) &&
+      getRuleOptions("reusable-element", rules).useLibraryNames !== false) ||
+      isRuleEnabled("detached-instance", rules));
+  const needsTextStyles =
+    currentSettings.checkStyles &&
+    (isRuleEnabled("text-style", rules) ||
+      isRuleEnabled("typography-match", rules));
+  const needsPaintStyles =
+    currentSettings.checkStyles && isRuleEnabled("gradient-style", rules);
+
+  clearVariableCache();
+  clearTokenCandidates();
+  ruleContext = {
+    document: FIGMA_RULE_DOCUMENT,
+    libraryComponents: [],
+    approvedCollectionKeys: currentSettings.approvedCollectionKeys,
+    textStyles: [],
+    paintStyles: [],
+  };
 
-  // Check fills for color tokens
-  if ("fills" in node && node.fills !== figma.mixed) {
-    const fills = node.fills as ReadonlyArray<Paint>;
-    for (const fill of fills) {
-      if (fill.type === "SOLID" && !(fill as SolidPaint).boundVariables) {
-        // Check if it's using a style instead
-        if ("fillStyleId" in node && !node.fillStyleId) {
-          issues.push("Uses local fill instead of color token or style");
-        }
-      }
+  const pages: PageNode[] = [];
+  for (const node of nodes) {
+    const page = findPageForNode(node);
+    if (page && pages.indexOf(page) === -1) {
+      pages.push(page);
     }
   }
+  // Main components and page scans are cached until their page changes
+  pages.forEach(watchPage);
 
-  // Check strokes for color tokens
-  if ("strokes" in node) {
-    const strokes = node.strokes;
-    if (Array.isArray(strokes) && strokes.length > 0) {
-      if ("strokeStyleId" in node && !node.strokeStyleId) {
-        const hasTokenBinding = strokes.some(
-          (stroke: Paint) => (stroke as SolidPaint).boundVariables
-        );
-        if (!hasTokenBinding) {
-          issues.push("Uses local stroke instead of color token or style");
-        }
-      }
-    }
+  if (!needsLibraryComponents && !needsTextStyles && !needsPaintStyles) {
+    return;
   }
 
-  // Check text properties for typography tokens
-  if (node.type === "TEXT") {
-    const textNode = node as TextNode;
-    if (!textNode.textStyleId) {
-      issues.push("Uses local text style instead of typography token");
-    }
-  }
-
-  // Check spacing/layout tokens (check auto-layout properties)
-  if ("layoutMode" in node && node.layoutMode !== "NONE") {
-    // This is an auto-layout frame
-    // Check if spacing uses variables
-    if ("itemSpacing" in node && typeof node.itemSpacing === "number") {
-      // Ideally this should be bound to a spacing token
-      // Note: Variable bindings for spacing are in boundVariables
-      const hasSpacingToken =
-        node.boundVariables && "itemSpacing" in node.boundVariables;
-      if (!hasSpacingToken && node.itemSpacing > 0) {
-        issues.push("Auto-layout spacing not using spacing token");
-      }
-    }
+  if (needsLibraryComponents) {
+    ruleContext.libraryComponents = await collectLibraryComponents(
+      pages,
+      () => analysisCancelRequested
+    );
+  }
+  if (needsTextStyles) {
+    ruleContext.textStyles = await collectTextStyles(
+      pages,
+      () => analysisCancelRequested
+    );
+  }
+  if (needsPaintStyles) {
+    ruleContext.paintStyles = await collectPaintStyles(
+      pages,
+      () => analysisCancelRequested
+    );
   }
-
-  return issues;
 }
 
-function checkStyleUsage(node: SceneNode): string[] {
-  const issues: string[] = [];
+async function collectLayerResults(
+  node: SceneNode,
+  path: string[] = [node.name],
+  parentId: string | null = null
+): Promise<LayerResults> {
+  const layers: LayerResults = new Map();
 
-  // Check fill styles with detailed analysis
-  if ("fills" in node && node.fills !== figma.mixed) {
-    const fills = node.fills as ReadonlyArray<Paint>;
-    if (fills.length > 0) {
-      const localFills = fills.filter(
-        (fill) => fill.type === "SOLID" && !fill.boundVariables?.color
-      );
-      const variableBoundFills = fills.filter(
-        (fill) => fill.type === "SOLID" && fill.boundVariables?.color
-      );
-      const nonSolidFills = fills.filter((fill) => fill.type !== "SOLID");
-      const sharedStyleFills = node.fillStyleId ? 1 : 0;
-
-      if (localFills.length > 0) {
-        issues.push(
-          `🔴 Uses ${localFills.length} local fill color${
-            localFills.length > 1 ? "s" : ""
-          } instead of design token${localFills.length > 1 ? "s" : ""}`
-        );
-      }
+  // Recursively analyze all nodes
+  await traverseNode(node, layers, path, parentId);
 
-      if (variableBoundFills.length > 0) {
-        issues.push(
-          `✅ ${variableBoundFills.length} fill${
-            variableBoundFills.length > 1 ? "s" : ""
-          } properly bound to variable${
-            variableBoundFills.length > 1 ? "s" : ""
-          }`
-        );
-      }
+  return layers;
+}
 
-      if (sharedStyleFills > 0) {
-        issues.push(`✅ Uses shared fill style`);
-      }
+function mergeLayerResults(layers: LayerResults): AnalysisStats {
+  return mergeAnalysisStats(
+    Array.from(layers.values(), (result) => result.stats)
+  );
+}
 
-      if (nonSolidFills.length > 0) {
-        issues.push(
-          `⚠️ ${nonSolidFills.length} non-solid fill${
-            nonSolidFills.length > 1 ? "s" : ""
-          } (gradient/image) - needs manual review`
-        );
+function buildCoverageAnalysis(
+  stats: AnalysisStats,
+  frameName: string,
+  frameId?: string,
+  baselineRecordedAt?: number
+): CoverageAnalysis {
+  let newIssues = 0;
+  let baselineIssues = 0;
+  stats.nonCompliantLayers.forEach((layer) =>
+    layer.issues.filter(isViolation).forEach((issue) => {
+      if (issue.inBaseline) {
+        baselineIssues++;
+      } else {
+        newIssues++;
       }
-    }
-  }
+    })
+  );
 
-  // Check stroke styles with detailed analysis
-  if ("strokes" in node && Array.isArray(node.strokes)) {
-    const strokes = node.strokes;
-    if (strokes.length > 0) {
-      const localStrokes = strokes.filter(
-        (stroke) => stroke.type === "SOLID" && !stroke.boundVariables?.color
-      );
-      const variableBoundStrokes = strokes.filter(
-        (stroke) => stroke.type === "SOLID" && stroke.boundVariables?.color
-      );
-      const nonSolidStrokes = strokes.filter(
-        (stroke) => stroke.type !== "SOLID"
-      );
-      const sharedStyleStrokes = node.strokeStyleId ? 1 : 0;
+  const summary: CoverageSummary = {
+    ...calculateCoverageScores(stats),
+    newIssues,
+    baselineIssues,
+    baselineRecordedAt,
+    analyzedFrameName: frameName,
+    analyzedFrameId: frameId,
+  };
+  const verdict = evaluateQualityGate(summary, currentSettings.thresholds);
+  if (verdict) summary.verdict = verdict;
 
-      if (localStrokes.length > 0) {
-        issues.push(
-          `🔴 Uses ${localStrokes.length} local stroke color${
-            localStrokes.length > 1 ? "s" : ""
-          } instead of design token${localStrokes.length > 1 ? "s" : ""}`
-        );
-      }
+  return {
+    summary,
+    details: createCoverageDetails(stats),
+    settings: currentSettings,
+    scoring: {
+      formula: describeScoreFormula(currentSettings.scoring),
+      settings: currentSettings.scoring,
+      totalWeight: stats.scoreWeight,
+      weightedCompliance: stats.weightedCompliance,
+    },
+  };
+}
 
-      if (variableBoundStrokes.length > 0) {
-        issues.push(
-          `✅ ${variableBoundStrokes.length} stroke${
-            variableBoundStrokes.length > 1 ? "s" : ""
-          } properly bound to variable${
-            variableBoundStrokes.length > 1 ? "s" : ""
-          }`
-        );
-      }
+interface TraversalEntry {
+  node: SceneNode;
+  parentId: string | null;
+  parentPath: string;
+  depth: number;
+  // Overridden sublayers of a library instance are checked on their own
+  skipChildren?: boolean;
+  // Sublayers of an exempt layer are only counted towards its layerCount
+  exemptLayer?: ExemptLayer;
+}
 
-      if (sharedStyleStrokes > 0) {
-        issues.push(`✅ Uses shared stroke style`);
-      }
+// The policy for a layer's sublayers, or null when they are traversed as
+// usual. Local instances are always descended into.
+async function getInstancePolicy(
+  node: SceneNode
+): Promise<Exclude<InstanceInternalsPolicy, "descend"> | null> {
+  const policy = currentSettings.instanceInternals;
+  if (node.type !== "INSTANCE" || policy === "descend") return null;
+  const mainComponent = await getMainComponent(node);
+  return mainComponent?.remote ? policy : null;
+}
 
-      if (nonSolidStrokes.length > 0) {
-        issues.push(
-          `⚠️ ${nonSolidStrokes.length} non-solid stroke${
-            nonSolidStrokes.length > 1 ? "s" : ""
-          } (gradient/image) - needs manual review`
-        );
-      }
+// Entries for the sublayers overridden in an instance, with their paths
+// through the instance's own layers.
+async function getOverriddenSublayers(
+  instance: InstanceNode,
+  path: string,
+  depth: number
+): Promise<TraversalEntry[]> {
+  const entries: TraversalEntry[] = [];
+  for (const override of instance.overrides) {
+    if (override.id === instance.id) continue;
+    const sublayer = await figma.getNodeByIdAsync(override.id);
+    if (!sublayer || sublayer.removed) continue;
+
+    const names: string[] = [];
+    let current: BaseNode | null = sublayer;
+    while (current && current.id !== instance.id) {
+      names.unshift(current.name);
+      current = current.parent;
     }
+    entries.push({
+      node: sublayer as SceneNode,
+      parentId: instance.id,
+      parentPath: [path, ...names.slice(0, -1)].join(" > "),
+      depth: depth + names.length,
+      skipChildren: true,
+    });
   }
+  return entries;
+}
 
-  // Check text styles with detailed analysis
-  if (node.type === "TEXT") {
-    const textNode = node as TextNode;
-    if (!textNode.textStyleId) {
-      const fontFamily =
-        typeof textNode.fontName === "object"
-          ? textNode.fontName.family
-          : "Unknown";
-      const fontSize =
-        typeof textNode.fontSize === "number" ? textNode.fontSize : "Unknown";
-      issues.push(
-        `🔴 Uses local text style (${fontFamily}, ${fontSize}px) instead of shared text style`
-      );
-    } else {
-      issues.push(`✅ Uses shared text style`);
-    }
-  }
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
 
-  // Check effect styles with detailed analysis
-  if ("effects" in node && node.effects && node.effects.length > 0) {
-    const effects = node.effects;
-    const supportsEffectStyles = "effectStyleId" in node;
-    const usingEffectStyle =
-      supportsEffectStyles && (node as any).effectStyleId ? true : false;
+// A root and each of its direct children are one unit of progress
+function countProgressUnits(node: SceneNode): number {
+  return "children" in node ? node.children.length + 1 : 1;
+}
 
-    const hasVariableBoundEffects = effects.some(
-      (effect) =>
-        (effect as any).boundVariables &&
-        Object.keys((effect as any).boundVariables).length > 0
-    );
+function createExemptLayer(
+  node: SceneNode,
+  path: string,
+  exemption: Exemption,
+  layerCount: number
+): ExemptLayer {
+  return {
+    id: node.id,
+    name: node.name,
+    type: node.type,
+    path,
+    source: exemption.source,
+    reason: exemption.reason,
+    layerCount,
+  };
+}
 
-    const hasLocalEffects =
-      !usingEffectStyle &&
-      effects.some(
-        (effect) =>
-          !(effect as any).boundVariables ||
-          Object.keys((effect as any).boundVariables).length === 0
-      );
+function postAnalysisProgress() {
+  if (!analysisProgress) return;
+  const { done, total, layers } = analysisProgress;
+  postMessageToUI({
+    type: "analysis-progress",
+    progress: layers,
+    percent: total > 0 ? Math.min(100, Math.round((done / total) * 100)) : 0,
+  });
+}
 
-    if (hasLocalEffects) {
-      issues.push(`🔴 Uses local effects instead of design tokens or styles`);
+// Walks the tree depth-first with an explicit stack, in the same order as a
+// recursive walk. Every TRAVERSAL_SLICE_MS it reports progress and yields so
+// the UI stays responsive and a cancel request can stop the walk.
+async function traverseNode(
+  root: SceneNode,
+  layers: LayerResults,
+  path: string[],
+  parentId: string | null
+): Promise<void> {
+  const rootDepth = path.length - 1;
+  const progressStart = analysisProgress?.done ?? 0;
+  const stack: TraversalEntry[] = [
+    {
+      node: root,
+      parentId,
+      parentPath: path.slice(0, -1).join(" > "),
+      depth: rootDepth,
+    },
+  ];
+  let sliceStart = Date.now();
+
+  while (stack.length > 0) {
+    if (Date.now() - sliceStart >= TRAVERSAL_SLICE_MS) {
+      postAnalysisProgress();
+      await yieldToEventLoop();
+      if (analysisCancelRequested) return;
+      sliceStart = Date.now();
     }
 
-    if (hasVariableBoundEffects) {
-      issues.push(`✅ Effects properly bound to variables`);
+    const entry = stack.pop()!;
+    const { node } = entry;
+    if (analysisProgress) {
+      analysisProgress.layers++;
+      if (
+        entry.depth <= rootDepth + 1 &&
+        !entry.skipChildren &&
+        !entry.exemptLayer
+      ) {
+        analysisProgress.done++;
+      }
     }
 
-    if (usingEffectStyle) {
-      issues.push(`✅ Uses shared effect style`);
+    if (entry.exemptLayer) {
+      entry.exemptLayer.layerCount++;
+      if ("children" in node) {
+        node.children.forEach((child) =>
+          stack.push({ ...entry, node: child })
+        );
+      }
+      continue;
     }
-  }
 
-  // Check corner radius
-  if (
-    "cornerRadius" in node &&
-    typeof node.cornerRadius === "number" &&
-    node.cornerRadius > 0
-  ) {
-    // Check if any corner radius properties are bound to variables
-    const cornerRadiusProperties = [
-      "cornerRadius",
-      "topLeftRadius",
-      "topRightRadius",
-      "bottomLeftRadius",
-      "bottomRightRadius",
-    ];
-
-    const hasBoundCornerRadius =
-      node.boundVariables &&
-      cornerRadiusProperties.some((prop) => prop in node.boundVariables!);
+    // Skip certain node types if configured, and hidden layers when they
+    // are excluded from the score; their sublayers aren't visited either
+    if (
+      currentSettings.ignoredTypes.includes(node.type) ||
+      (currentSettings.scoring.excludeHidden && isHiddenLayer(node))
+    ) {
+      continue;
+    }
 
-    if (!hasBoundCornerRadius) {
-      issues.push(
-        `🔴 Uses local corner radius (${node.cornerRadius}px) instead of spacing token`
-      );
-    } else {
-      issues.push(`✅ Corner radius bound to variable`);
+    const nodePath = entry.parentPath
+      ? `${entry.parentPath} > ${node.name}`
+      : node.name;
+
+    // Exempt layers stay in the results so they are listed with their reason
+    // and live updates can pick up a removed exemption
+    const exemption = await getExemption(node, currentSettings);
+    if (exemption) {
+      const stats = createAnalysisStats();
+      const exemptLayer = createExemptLayer(node, nodePath, exemption, 1);
+      stats.exemptLayers.push(exemptLayer);
+      layers.set(node.id, { stats, parentId: entry.parentId });
+      if ("children" in node && !entry.skipChildren) {
+        node.children.forEach((child) =>
+          stack.push({
+            node: child,
+            parentId: node.id,
+            parentPath: nodePath,
+            depth: entry.depth + 1,
+            exemptLayer,
+          })
+        );
+      }
+      continue;
+    }
+    // Overridden sublayers are already listed by their outermost instance
+    const policy = entry.skipChildren ? null : await getInstancePolicy(node);
+    const stats = createAnalysisStats();
+    await analyzeLayer(node, stats, nodePath, entry.depth, policy);
+    layers.set(node.id, { stats, parentId: entry.parentId });
+
+    if (policy) {
+      const sublayers =
+        policy === "overrides"
+          ? await getOverriddenSublayers(
+              node as InstanceNode,
+              nodePath,
+              entry.depth
+            )
+          : [];
+      stack.push(...sublayers.reverse());
+    } else if ("children" in node && !entry.skipChildren) {
+      // Children are pushed in reverse so the first child is analyzed first
+      for (let i = node.children.length - 1; i >= 0; i--) {
+        stack.push({
+          node: node.children[i],
+          parentId: node.id,
+          parentPath: nodePath,
+          depth: entry.depth + 1,
+        });
+      }
     }
   }
 
-  // Check padding/margin (for auto-layout)
-  if (
-    node.type === "FRAME" &&
-    "layoutMode" in node &&
-    (node as FrameNode).layoutMode !== "NONE"
-  ) {
-    const paddingProps = [
-      "paddingLeft",
-      "paddingRight",
-      "paddingTop",
-      "paddingBottom",
-    ] as const;
-
-    const frameNode = node as FrameNode;
+  // Direct children that were skipped with their parent still count as done
+  if (analysisProgress) {
+    analysisProgress.done = progressStart + countProgressUnits(root);
+  }
+}
 
-    const localPaddingProps = paddingProps.filter((prop) => {
-      const value = (frameNode as any)[prop];
-      const hasBoundVariable =
-        frameNode.boundVariables && prop in frameNode.boundVariables;
-      return value !== 0 && !hasBoundVariable;
-    });
+function extractRawProperties(node: SceneNode): any {
+  const props: any = {
+    id: node.id,
+    name: node.name,
+    type: node.type,
+    visible: node.visible,
+    locked: node.locked,
+  };
 
-    if (localPaddingProps.length > 0) {
-      issues.push(`🔴 Uses local padding values instead of spacing tokens`);
-    } else if (
-      frameNode.boundVariables &&
-      paddingProps.some((prop) => prop in frameNode.boundVariables!)
-    ) {
-      issues.push(`✅ Padding bound to variables`);
-    }
+  // Extract fills
+  if ("fills" in node && node.fills !== figma.mixed) {
+    props.fills = Array.isArray(node.fills)
+      ? node.fills.map((fill: Paint) => ({
+          type: fill.type,
+          visible: fill.visible,
+          opacity: fill.opacity,
+          color: fill.type === "SOLID" ? fill.color : undefined,
+          boundVariables: (fill as any).boundVariables,
+        }))
+      : [];
   }
 
-  if (node.type === "FRAME") {
-    const frameNode = node as FrameNode;
-    if (frameNode.layoutMode === "NONE") {
-      issues.push(`💡 Frame can use Auto Layout`);
-    } else {
-      issues.push(`✅ Uses Auto Layout`);
-    }
+  // Extract strokes
+  if ("strokes" in node && Array.isArray(node.strokes)) {
+    props.strokes = node.strokes.map((stroke: Paint) => ({
+      type: stroke.type,
+      visible: stroke.visible,
+      opacity: stroke.opacity,
+      color: stroke.type === "SOLID" ? stroke.color : undefined,
+      boundVariables: (stroke as any).boundVariables,
+    }));
   }
 
-  // Skip if local styles are allowed and no issues found
-  if (currentSettings.allowLocalStyles && issues.length === 0) {
-    return issues;
+  // Extract text properties
+  if (node.type === "TEXT") {
+    const textNode = node as TextNode;
+    props.fontSize = textNode.fontSize;
+    props.fontName = textNode.fontName;
+    props.textStyleId = textNode.textStyleId;
+    props.characters = textNode.characters.substring(0, 100); // First 100 chars
   }
 
-  return issues;
-}
-
-function calculateComponentCoverage(stats: any): number {
-  let totalInstanceLayers = 0;
-  let compliantInstanceLayers = 0;
+  // Extract layout properties
+  if ("layoutMode" in node) {
+    props.layoutMode = (node as FrameNode).layoutMode;
+    props.paddingLeft = (node as FrameNode).paddingLeft;
+    props.paddingRight = (node as FrameNode).paddingRight;
+    props.paddingTop = (node as FrameNode).paddingTop;
+    props.paddingBottom = (node as FrameNode).paddingBottom;
+  }
 
-  if (stats.byType["INSTANCE"]) {
-    totalInstanceLayers = stats.byType["INSTANCE"].total;
-    compliantInstanceLayers = stats.byType["INSTANCE"].compliant;
+  // Extract corner radius
+  if ("cornerRadius" in node) {
+    props.cornerRadius = (node as any).cornerRadius;
   }
 
-  // Also count frames that could be components
-  const potentialComponentTypes = ["FRAME", "RECTANGLE", "TEXT"];
-  potentialComponentTypes.forEach((type) => {
-    if (stats.byType[type]) {
-      totalInstanceLayers += stats.byType[type].total;
-      compliantInstanceLayers += stats.byType[type].compliant;
-    }
-  });
+  // Extract effects
+  if ("effects" in node && node.effects) {
+    props.effects = node.effects.map((effect: Effect) => ({
+      type: effect.type,
+      visible: effect.visible,
+      radius: "radius" in effect ? effect.radius : undefined,
+      boundVariables:
+        "boundVariables" in effect ? effect.boundVariables : undefined,
+    }));
+  }
 
-  return totalInstanceLayers > 0
-    ? Math.round((compliantInstanceLayers / totalInstanceLayers) * 100)
-    : 100;
-}
-
-function calculateTokenCoverage(stats: any): number {
-  // Calculate based on layers that should use tokens
-  const tokenRelevantTypes = [
-    "TEXT",
-    "RECTANGLE",
-    "ELLIPSE",
-    "FRAME",
-    "POLYGON",
-    "STAR",
-    "VECTOR",
-  ];
-  let total = 0;
-  let compliant = 0;
+  // Extract style IDs
+  if ("fillStyleId" in node) props.fillStyleId = (node as any).fillStyleId;
+  if ("strokeStyleId" in node)
+    props.strokeStyleId = (node as any).strokeStyleId;
+  if ("effectStyleId" in node)
+    props.effectStyleId = (node as any).effectStyleId;
+  if ("textStyleId" in node) props.textStyleId = (node as any).textStyleId;
 
-  tokenRelevantTypes.forEach((type) => {
-    if (stats.byType[type]) {
-      total += stats.byType[type].total;
-      compliant += stats.byType[type].compliant;
-    }
-  });
+  // Extract bound variables
+  if ("boundVariables" in node && node.boundVariables) {
+    props.boundVariables = node.boundVariables;
+  }
 
-  return total > 0 ? Math.round((compliant / total) * 100) : 100;
+  return props;
 }
 
-function calculateStyleCoverage(stats: any): number {
-  // Similar to token coverage but focusing on style usage
-  return calculateTokenCoverage(stats);
+// Analyzes a layer with the current settings. Non-compliant layers carry
+// their raw properties and per-category checks for the detailed view.
+async function analyzeLayer(
+  node: SceneNode,
+  stats: AnalysisStats,
+  path: string,
+  depth: number,
+  policy: Exclude<InstanceInternalsPolicy, "descend"> | null = null
+): Promise<void> {
+  const { checks, layer } = await analyzeLayerCoverage(
+    node,
+    stats,
+    path,
+    depth,
+    policy,
+    currentSettings,
+    ruleContext
+  );
+  if (!layer) return;
+
+  layer.rawProperties = extractRawProperties(node);
+  layer.analysis = {
+    componentCheck: checks?.component
+      ? {
+          enabled: true,
+          issue:
+            checks.component.length > 0 ? checks.component[0].message : null,
+          passed: !checks.component.some(isViolation),
+        }
+      : null,
+    tokenChecks: (checks?.token ?? []).map((issue) => ({
+      issue: issue.message,
+      ruleId: issue.ruleId,
+      category: issue.category,
+    })),
+    styleChecks: (checks?.style ?? []).map((issue) => ({
+      issue: issue.message,
+      ruleId: issue.ruleId,
+      type: issue.severity,
+    })),
+  };
 }
 
 // Color Variable Fix Functions
@@ -2104,6 +2959,21 @@ interface ColorData {
   type: "fill" | "stroke";
   color: RGB;
   index: number;
+  // Nearest existing color variables, closest first
+  matches?: TokenMatch[];
+}
+
+async function addColorTokenMatches(
+  node: SceneNode,
+  colors: ColorData[]
+): Promise<ColorData[]> {
+  for (const colorData of colors) {
+    colorData.matches = await findColorTokenMatches(
+      colorData.color,
+      getAllowedScopes(node, colorData.type === "fill" ? "fills" : "strokes")
+    );
+  }
+  return colors;
 }
 
 function extractColorsFromLayer(node: SceneNode): ColorData[] {
@@ -2134,9 +3004,32 @@ function extractColorsFromLayer(node: SceneNode): ColorData[] {
   return colors;
 }
 
+// Options shared by the bulk variable fixes. variableIds and modeValues are
+// keyed like the value-to-name map.
+interface BulkVariableOptions {
+  // Matched tokens picked in the wizard
+  variableIds?: Record<string, string>;
+  // Per-mode values for new variables, e.g. a dark mode color
+  modeValues?: Record<string, Record<string, VariableValue>>;
+  target?: VariableTarget;
+}
+
+function postVariableConflicts(
+  collection: VariableCollection,
+  conflicts: VariableConflict[]
+) {
+  postMessageToUI({
+    type: "error",
+    message: `Variable name conflict in "${
+      collection.name
+    }": ${describeVariableConflicts(conflicts)}`,
+  });
+}
+
 async function applyColorVariables(
   layerId: string,
-  variableBindings: any[]
+  variableBindings: any[],
+  target: VariableTarget = {}
 ): Promise<void> {
   const node = await figma.getNodeByIdAsync(layerId);
   if (!node || !("fills" in node)) {
@@ -2149,36 +3042,52 @@ async function applyColorVariables(
 
   try {
     // Get or create variable collection
-    const collections =
-      await figma.variables.getLocalVariableCollectionsAsync();
-    const collection =
-      collections.length > 0
-        ? collections[0]
-        : figma.variables.createVariableCollection("Design System");
-
-    const modeId = collection.modes[0].modeId;
+    const collection = await getTargetCollection(target);
+    const collectionVariables = await getCollectionVariables(collection);
+
+    const conflicts = findVariableConflicts(
+      collectionVariables,
+      variableBindings
+        .filter((binding) => !binding.variableId)
+        .map((binding) => binding.variableName),
+      "COLOR"
+    );
+    if (conflicts.length > 0) {
+      postVariableConflicts(collection, conflicts);
+      return;
+    }
 
     for (const binding of variableBindings) {
-      // Check if variable already exists
-      const allVariables = await figma.variables.getLocalVariablesAsync();
-      const existingVariables = allVariables.filter(
-        (v) => v.name === binding.variableName
-      );
-
-      let variable: Variable;
+      // Reuse the matched token when one was picked in the wizard
+      let variable = binding.variableId
+        ? await getTokenVariable(binding.variableId)
+        : null;
 
-      if (existingVariables.length > 0) {
-        variable = existingVariables[0];
-      } else {
-        // Create new variable
-        variable = figma.variables.createVariable(
-          binding.variableName,
-          collection,
-          "COLOR"
+      if (!variable) {
+        // Check if variable already exists
+        const existingVariable = collectionVariables.find(
+          (v) => v.name === binding.variableName
         );
 
-        // Set color value
-        variable.setValueForMode(modeId, binding.color);
+        if (existingVariable) {
+          variable = existingVariable;
+        } else {
+          // Create new variable
+          variable = figma.variables.createVariable(
+            binding.variableName,
+            collection,
+            "COLOR"
+          );
+
+          // Set color value for every mode
+          setValueForModes(
+            variable,
+            collection,
+            binding.color,
+            binding.modeValues
+          );
+          collectionVariables.push(variable);
+        }
       }
 
       // Bind to layer using the correct approach
@@ -2221,22 +3130,30 @@ async function applyColorVariables(
 
 async function applyBulkColorVariables(
   layerIds: string[],
-  colorToVariableMap: Record<string, string>
+  colorToVariableMap: Record<string, string>,
+  options: BulkVariableOptions = {}
 ): Promise<void> {
+  const { variableIds = {}, modeValues = {} } = options;
+
   try {
     // Get or create variable collection
-    const collections =
-      await figma.variables.getLocalVariableCollectionsAsync();
-    const collection =
-      collections.length > 0
-        ? collections[0]
-        : figma.variables.createVariableCollection("Design System");
-
-    const modeId = collection.modes[0].modeId;
+    const collection = await getTargetCollection(options.target);
+    const existingVariables = await getCollectionVariables(collection);
+
+    const conflicts = findVariableConflicts(
+      existingVariables,
+      Object.keys(colorToVariableMap)
+        .filter((colorKey) => !variableIds[colorKey])
+        .map((colorKey) => colorToVariableMap[colorKey]),
+      "COLOR"
+    );
+    if (conflicts.length > 0) {
+      postVariableConflicts(collection, conflicts);
+      return;
+    }
 
     // Create all variables first
     const variableCache = new Map<string, Variable>();
-    const existingVariables = await figma.variables.getLocalVariablesAsync();
 
     for (const [colorKey, variableName] of Object.entries(colorToVariableMap)) {
       // Parse color from key
@@ -2244,7 +3161,11 @@ async function applyBulkColorVariables(
       const color: RGB = { r, g, b };
 
       // Check if variable exists
-      const existing = existingVariables.find((v) => v.name === variableName);
+      const matched = variableIds[colorKey]
+        ? await getTokenVariable(variableIds[colorKey])
+        : null;
+      const existing =
+        matched ?? existingVariables.find((v) => v.name === variableName);
 
       let variable: Variable;
       if (existing) {
@@ -2255,7 +3176,8 @@ async function applyBulkColorVariables(
           collection,
           "COLOR"
         );
-        variable.setValueForMode(modeId, color);
+        setValueForModes(variable, collection, color, modeValues[colorKey]);
+        existingVariables.push(variable);
       }
 
       variableCache.set(colorKey, variable);
@@ -2372,6 +3294,8 @@ async function exportDebugData() {
       },
     };
 
+    await prepareRuleContext(selection);
+
     // Analyze each selected frame
     const analysisPromises = selection.map(async (node) => {
       if (
@@ -2499,7 +3423,7 @@ async function analyzeLayerForDebug(node: SceneNode, path: string[]) {
     type: node.type,
     path: path.join(" > "),
     isCompliant: true,
-    issues: [] as string[],
+    issues: [] as CoverageIssue[],
     rawProperties: {
       fills: "fills" in node ? node.fills : null,
       strokes: "strokes" in node ? node.strokes : null,
@@ -2520,50 +3444,80 @@ async function analyzeLayerForDebug(node: SceneNode, path: string[]) {
       itemSpacing: "itemSpacing" in node ? node.itemSpacing : null,
     },
     analysis: {
-      componentCheck: null as string | null,
-      tokenCheck: [] as string[],
-      styleCheck: [] as string[],
+      componentCheck: [] as CoverageIssue[],
+      tokenCheck: [] as CoverageIssue[],
+      styleCheck: [] as CoverageIssue[],
     },
   };
 
   // Check 1: Component Coverage
   if (currentSettings.checkComponents) {
-    layerData.analysis.componentCheck = await checkComponentUsage(node);
-    if (layerData.analysis.componentCheck) {
-      layerData.issues.push(layerData.analysis.componentCheck);
-      layerData.isCompliant = false;
-    }
+    layerData.analysis.componentCheck = await runRules(
+      node,
+      ["component"],
+      currentSettings.rules,
+      ruleContext
+    );
+    layerData.issues.push(...layerData.analysis.componentCheck);
   }
 
   // Check 2: Token Coverage
   if (currentSettings.checkTokens) {
-    layerData.analysis.tokenCheck = checkTokenUsage(node);
-    if (layerData.analysis.tokenCheck.length > 0) {
-      layerData.issues.push(...layerData.analysis.tokenCheck);
-      layerData.isCompliant = false;
-    }
+    layerData.analysis.tokenCheck = await runRules(
+      node,
+      ["token"],
+      currentSettings.rules,
+      ruleContext
+    );
+    layerData.issues.push(...layerData.analysis.tokenCheck);
   }
 
   // Check 3: Style Coverage
   if (currentSettings.checkStyles) {
-    layerData.analysis.styleCheck = checkStyleUsage(node);
-    if (layerData.analysis.styleCheck.length > 0) {
-      // Only mark as non-compliant if there are actual issues (🔴 or ⚠️)
-      const hasActualIssues = layerData.analysis.styleCheck.some(
-        (issue) => issue.includes("🔴") || issue.includes("⚠️")
-      );
-
-      layerData.issues.push(...layerData.analysis.styleCheck);
-
-      if (hasActualIssues) {
-        layerData.isCompliant = false;
-      }
-    }
+    layerData.analysis.styleCheck = await runRules(
+      node,
+      ["style", "layout"],
+      currentSettings.rules,
+      ruleContext
+    );
+    layerData.issues.push(...layerData.analysis.styleCheck);
   }
 
+  // Only mark as non-compliant if there are actual violations
+  layerData.isCompliant = !layerData.issues.some(isViolation);
+
   return layerData;
 }
 
+// Grouped padding entries are matched against the scopes of their first side.
+const SPACING_SCOPE_FIELDS: Record<string, string> = {
+  paddingHorizontal: "paddingLeft",
+  paddingVertical: "paddingTop",
+};
+
+interface SpacingMatchTarget {
+  type: string;
+  value: unknown;
+  matches?: TokenMatch[];
+}
+
+async function addSpacingTokenMatches(
+  node: SceneNode,
+  spacing: SpacingMatchTarget[]
+): Promise<SpacingMatchTarget[]> {
+  for (const spacingData of spacing) {
+    if (typeof spacingData.value !== "number") continue;
+    spacingData.matches = await findNumberTokenMatches(
+      spacingData.value,
+      getAllowedScopes(
+        node,
+        SPACING_SCOPE_FIELDS[spacingData.type] ?? spacingData.type
+      )
+    );
+  }
+  return spacing;
+}
+
 // Spacing extraction and application functions
 function extractSpacingFromLayer(node: SceneNode): any[] {
   const spacing: any[] = [];
@@ -2658,7 +3612,48 @@ function extractSpacingFromLayer(node: SceneNode): any[] {
     }
   }
 
-  return spacing;
+  return spacing.concat(extractBorderAndOpacityFromLayer(node));
+}
+
+// Stroke weights and opacity go through the spacing step as number variables.
+// Opacity values are percentages, as Figma expects for opacity variables.
+interface NumberValueData {
+  type: string;
+  value: number;
+  property: string;
+}
+
+function extractBorderAndOpacityFromLayer(
+  node: SceneNode
+): NumberValueData[] {
+  const values: NumberValueData[] = [];
+  const bound = (node.boundVariables ?? {}) as Record<string, unknown>;
+
+  const hasVisibleStrokes =
+    "strokes" in node &&
+    Array.isArray(node.strokes) &&
+    node.strokes.some((stroke: Paint) => stroke.visible !== false);
+  if (hasVisibleStrokes) {
+    for (const { field, value } of getStrokeWeights(node)) {
+      if (value > 0 && !bound[field]) {
+        values.push({ type: field, value, property: field });
+      }
+    }
+  }
+
+  if ("opacity" in node && node.opacity < 1 && !bound.opacity) {
+    values.push({
+      type: "opacity",
+      value: Math.round(node.opacity * 100),
+      property: "opacity",
+    });
+  }
+
+  return values;
+}
+
+function isBorderOrOpacityType(type: string): boolean {
+  return type === "opacity" || /^stroke(Top|Right|Bottom|Left)?Weight$/.test(type);
 }
 
 function extractEffectsFromLayer(node: SceneNode): any[] {
@@ -2710,7 +3705,8 @@ function extractEffectsFromLayer(node: SceneNode): any[] {
 
 async function applySpacingVariables(
   layerId: string,
-  variableBindings: any[]
+  variableBindings: any[],
+  target: VariableTarget = {}
 ): Promise<void> {
   const node = await figma.getNodeByIdAsync(layerId);
   if (!node) {
@@ -2723,22 +3719,31 @@ async function applySpacingVariables(
 
   try {
     // Get or create variable collection
-    const collections =
-      await figma.variables.getLocalVariableCollectionsAsync();
-    const collection =
-      collections.length > 0
-        ? collections[0]
-        : figma.variables.createVariableCollection("Design System");
-
-    const modeId = collection.modes[0].modeId;
-    const existingVariables = await figma.variables.getLocalVariablesAsync();
+    const collection = await getTargetCollection(target);
+    const existingVariables = await getCollectionVariables(collection);
+
+    const conflicts = findVariableConflicts(
+      existingVariables,
+      variableBindings
+        .filter((binding) => !binding.variableId)
+        .map((binding) => binding.variableName),
+      "FLOAT"
+    );
+    if (conflicts.length > 0) {
+      postVariableConflicts(collection, conflicts);
+      return;
+    }
 
     // Apply each spacing variable
     for (const binding of variableBindings) {
-      // Find or create variable
-      let variable = existingVariables.find(
-        (v) => v.name === binding.variableName
-      );
+      // Matched tokens keep their own value; everything else is found or
+      // created by name
+      const matched = binding.variableId
+        ? await getTokenVariable(binding.variableId)
+        : null;
+      let variable =
+        matched ??
+        existingVariables.find((v) => v.name === binding.variableName);
 
       if (!variable) {
         variable = figma.variables.createVariable(
@@ -2746,14 +3751,24 @@ async function applySpacingVariables(
           collection,
           "FLOAT"
         );
+        existingVariables.push(variable);
       }
 
-      // Set variable value
-      variable.setValueForMode(modeId, binding.value);
+      // Set variable value for every mode
+      if (!matched) {
+        setValueForModes(
+          variable,
+          collection,
+          binding.value,
+          binding.modeValues
+        );
+      }
 
       // Bind the property
       if (binding.type === "cornerRadius") {
         (node as any).setBoundVariable("cornerRadius", variable);
+      } else if (isBorderOrOpacityType(binding.type)) {
+        (node as SceneNode).setBoundVariable(binding.type, variable);
       } else if (
         binding.type.startsWith("padding") ||
         binding.type === "itemSpacing"
@@ -2799,19 +3814,27 @@ async function applySpacingVariables(
 
 async function applyBulkSpacingVariables(
   layerIds: string[],
-  spacingToVariableMap: Record<string, string>
+  spacingToVariableMap: Record<string, string>,
+  options: BulkVariableOptions = {}
 ): Promise<void> {
+  const { variableIds = {}, modeValues = {} } = options;
+
   try {
     // Get or create variable collection
-    const collections =
-      await figma.variables.getLocalVariableCollectionsAsync();
-    const collection =
-      collections.length > 0
-        ? collections[0]
-        : figma.variables.createVariableCollection("Design System");
-
-    const modeId = collection.modes[0].modeId;
-    const existingVariables = await figma.variables.getLocalVariablesAsync();
+    const collection = await getTargetCollection(options.target);
+    const existingVariables = await getCollectionVariables(collection);
+
+    const conflicts = findVariableConflicts(
+      existingVariables,
+      Object.keys(spacingToVariableMap)
+        .filter((spacingKey) => !variableIds[spacingKey])
+        .map((spacingKey) => spacingToVariableMap[spacingKey]),
+      "FLOAT"
+    );
+    if (conflicts.length > 0) {
+      postVariableConflicts(collection, conflicts);
+      return;
+    }
 
     // Create all variables first
     const variableCache = new Map<string, Variable>();
@@ -2822,7 +3845,11 @@ async function applyBulkSpacingVariables(
       let variable = variableCache.get(variableName);
 
       if (!variable) {
-        variable = existingVariables.find((v) => v.name === variableName);
+        const matched = variableIds[spacingKey]
+          ? await getTokenVariable(variableIds[spacingKey])
+          : null;
+        variable =
+          matched ?? existingVariables.find((v) => v.name === variableName);
 
         if (!variable) {
           // Parse value from key (format: "cornerRadius-6" or "paddingLeft-16")
@@ -2834,7 +3861,8 @@ async function applyBulkSpacingVariables(
             collection,
             "FLOAT"
           );
-          variable.setValueForMode(modeId, value);
+          setValueForModes(variable, collection, value, modeValues[spacingKey]);
+          existingVariables.push(variable);
         }
 
         variableCache.set(variableName, variable);
@@ -2858,6 +3886,17 @@ async function applyBulkSpacingVariables(
         try {
           if (type === "cornerRadius") {
             (node as any).setBoundVariable("cornerRadius", variable);
+          } else if (isBorderOrOpacityType(type)) {
+            // Only bind layers that use this exact value
+            const layerValue = extractBorderAndOpacityFromLayer(
+              node as SceneNode
+            ).find((candidate) => candidate.type === type);
+            if (layerValue && layerValue.value === parseFloat(valueStr)) {
+              (node as SceneNode).setBoundVariable(
+                type as VariableBindableNodeField,
+                variable
+              );
+            }
           } else if (type.startsWith("padding") || type === "itemSpacing") {
             // Only bind padding and itemSpacing to Auto Layout frames
             if (node.type === "FRAME" && "layoutMode" in node) {
@@ -2884,121 +3923,362 @@ async function applyBulkSpacingVariables(
         }
       }
     }
-
-    postMessageToUI({
-      type: "fix-applied",
-      message: `Applied spacing variables to ${layerIds.length} layers`,
-    });
+
+    postMessageToUI({
+      type: "fix-applied",
+      message: `Applied spacing variables to ${layerIds.length} layers`,
+    });
+  } catch (error) {
+    postMessageToUI({
+      type: "error",
+      message: `Failed to apply bulk spacing variables: ${error}`,
+    });
+  }
+}
+
+interface EffectStyleBinding {
+  styleName: string;
+  key: string;
+  index: number;
+}
+
+interface BulkEffectStyleAssignment {
+  key: string;
+  styleName: string;
+}
+
+async function applyEffectStyles(
+  layerId: string,
+  styleBindings: EffectStyleBinding[]
+): Promise<void> {
+  const node = (await figma.getNodeByIdAsync(layerId)) as SceneNode | null;
+
+  if (
+    !node ||
+    !("effects" in node) ||
+    !node.effects ||
+    node.effects.length === 0
+  ) {
+    postMessageToUI({
+      type: "error",
+      message: "Cannot apply effect styles to this layer",
+    });
+    return;
+  }
+
+  try {
+    const primaryBinding = styleBindings[0];
+    const preferredName =
+      (primaryBinding && primaryBinding.styleName) || `Effect ${node.name}`;
+    const expectedKey = primaryBinding ? primaryBinding.key : undefined;
+
+    const appliedStyle = await applyEffectStyleForNode(
+      node,
+      preferredName,
+      expectedKey
+    );
+
+    if (appliedStyle) {
+      postMessageToUI({
+        type: "fix-applied",
+        message: `Applied effect style "${appliedStyle.name}"`,
+      });
+      figma.notify(`✅ Applied effect style "${appliedStyle.name}"`);
+    } else {
+      postMessageToUI({
+        type: "fix-applied",
+        message: "Layer already uses an effect style",
+      });
+    }
+  } catch (error) {
+    postMessageToUI({
+      type: "error",
+      message: `Failed to apply effect styles: ${error}`,
+    });
+  }
+}
+
+async function applyBulkEffectStyles(
+  layerIds: string[],
+  effectAssignments: BulkEffectStyleAssignment[]
+): Promise<void> {
+  try {
+    if (!effectAssignments || effectAssignments.length === 0) {
+      postMessageToUI({
+        type: "fix-applied",
+        message: "No effect styles selected for bulk apply",
+      });
+      return;
+    }
+
+    const assignmentMap = new Map<string, BulkEffectStyleAssignment>();
+    effectAssignments.forEach((assignment) =>
+      assignmentMap.set(assignment.key, assignment)
+    );
+
+    const styleCache = new Map<string, EffectStyle>();
+    let layersUpdated = 0;
+
+    for (const layerId of layerIds) {
+      const node = (await figma.getNodeByIdAsync(layerId)) as SceneNode | null;
+      if (
+        !node ||
+        !("effects" in node) ||
+        !node.effects ||
+        node.effects.length === 0 ||
+        !nodeSupportsEffectStyles(node)
+      ) {
+        continue;
+      }
+
+      const effectNode = node as EffectStyleCapableNode;
+
+      if (effectNode.effectStyleId) {
+        continue; // Already using an effect style
+      }
+
+      const stackKey = createEffectStackKey(effectNode.effects);
+      const assignment = assignmentMap.get(stackKey);
+      if (!assignment) {
+        continue;
+      }
+
+      let style = styleCache.get(stackKey);
+      if (!style) {
+        style = await ensureEffectStyleForEffects(
+          assignment.styleName,
+          effectNode.effects
+        );
+        styleCache.set(stackKey, style);
+      }
+
+      await assignEffectStyleId(effectNode, style.id);
+      layersUpdated++;
+    }
+
+    if (layersUpdated > 0) {
+      postMessageToUI({
+        type: "fix-applied",
+        message: `Applied effect styles to ${layersUpdated} layer${
+          layersUpdated === 1 ? "" : "s"
+        }`,
+      });
+      figma.notify(
+        `✅ Applied effect styles to ${layersUpdated} layer${
+          layersUpdated === 1 ? "" : "s"
+        }`
+      );
+    } else {
+      postMessageToUI({
+        type: "fix-applied",
+        message: "No effect styles were applied",
+      });
+    }
   } catch (error) {
     postMessageToUI({
       type: "error",
-      message: `Failed to apply bulk spacing variables: ${error}`,
+      message: `Failed to apply effect styles: ${error}`,
     });
   }
 }
 
-interface EffectStyleBinding {
-  styleName: string;
+// Un-styled text range with the closest existing text styles, shown in the
+// fix wizard. Ranges sharing a key are fixed with the same style.
+interface TypographyData {
   key: string;
-  index: number;
+  start: number;
+  end: number;
+  characters: string;
+  fontName: FontName;
+  fontSize: number;
+  lineHeight: number | "auto";
+  value: string;
+  matches: TextStyleMatch[];
 }
 
-interface BulkEffectStyleAssignment {
+// styleId applies an existing style; without it a style named styleName is
+// created from the grouped values.
+interface BulkTextStyleAssignment {
   key: string;
+  styleId?: string;
   styleName: string;
 }
 
-async function applyEffectStyles(
-  layerId: string,
-  styleBindings: EffectStyleBinding[]
-): Promise<void> {
-  const node = (await figma.getNodeByIdAsync(layerId)) as SceneNode | null;
+async function getTextStylesForNode(node: SceneNode) {
+  if (ruleContext.textStyles.length > 0) return ruleContext.textStyles;
+  const page = findPageForNode(node);
+  return collectTextStyles(page ? [page] : []);
+}
 
-  if (
-    !node ||
-    !("effects" in node) ||
-    !node.effects ||
-    node.effects.length === 0
-  ) {
-    postMessageToUI({
-      type: "error",
-      message: "Cannot apply effect styles to this layer",
-    });
-    return;
-  }
+async function extractTypographyFromLayer(
+  node: TextNode
+): Promise<TypographyData[]> {
+  const styles = await getTextStylesForNode(node);
+  return getTextSegments(node)
+    .filter((segment) => !segment.textStyleId)
+    .map((segment) => ({
+      key: createTypographyKey(segment),
+      start: segment.start,
+      end: segment.end,
+      characters: segment.characters,
+      fontName: segment.fontName,
+      fontSize: segment.fontSize,
+      lineHeight: getDisplayLineHeight(segment),
+      value: formatTypography(segment),
+      matches: findTextStyleMatches(segment, styles),
+    }));
+}
 
+async function applyBulkTextStyles(
+  layerIds: string[],
+  textAssignments: BulkTextStyleAssignment[]
+): Promise<void> {
   try {
-    const primaryBinding = styleBindings[0];
-    const preferredName =
-      (primaryBinding && primaryBinding.styleName) || `Effect ${node.name}`;
-    const expectedKey = primaryBinding ? primaryBinding.key : undefined;
+    if (!textAssignments || textAssignments.length === 0) {
+      postMessageToUI({
+        type: "fix-applied",
+        message: "No text styles selected for bulk apply",
+      });
+      return;
+    }
 
-    const appliedStyle = await applyEffectStyleForNode(
-      node,
-      preferredName,
-      expectedKey
+    const assignmentMap = new Map<string, BulkTextStyleAssignment>();
+    textAssignments.forEach((assignment) =>
+      assignmentMap.set(assignment.key, assignment)
     );
 
-    if (appliedStyle) {
+    const styleCache = new Map<string, TextStyle>();
+    let layersUpdated = 0;
+
+    for (const layerId of layerIds) {
+      const node = await figma.getNodeByIdAsync(layerId);
+      if (!node || node.type !== "TEXT") {
+        continue;
+      }
+
+      let rangesUpdated = 0;
+      for (const segment of getTextSegments(node)) {
+        if (segment.textStyleId) {
+          continue; // Already using a text style
+        }
+
+        const key = createTypographyKey(segment);
+        const assignment = assignmentMap.get(key);
+        if (!assignment) {
+          continue;
+        }
+
+        let style = styleCache.get(key);
+        if (!style) {
+          const existing = assignment.styleId
+            ? await figma.getStyleByIdAsync(assignment.styleId)
+            : null;
+          style =
+            existing && existing.type === "TEXT"
+              ? (existing as TextStyle)
+              : await ensureTextStyleForSegment(assignment.styleName, segment);
+          styleCache.set(key, style);
+        }
+
+        await applyTextStyleToSegment(node, segment, style);
+        rangesUpdated++;
+      }
+
+      if (rangesUpdated > 0) {
+        layersUpdated++;
+      }
+    }
+
+    if (layersUpdated > 0) {
       postMessageToUI({
         type: "fix-applied",
-        message: `Applied effect style "${appliedStyle.name}"`,
+        message: `Applied text styles to ${layersUpdated} layer${
+          layersUpdated === 1 ? "" : "s"
+        }`,
       });
-      figma.notify(`✅ Applied effect style "${appliedStyle.name}"`);
+      figma.notify(
+        `✅ Applied text styles to ${layersUpdated} layer${
+          layersUpdated === 1 ? "" : "s"
+        }`
+      );
     } else {
       postMessageToUI({
         type: "fix-applied",
-        message: "Layer already uses an effect style",
+        message: "No text styles were applied",
       });
     }
   } catch (error) {
     postMessageToUI({
       type: "error",
-      message: `Failed to apply effect styles: ${error}`,
+      message: `Failed to apply text styles: ${error}`,
     });
   }
 }
 
-async function applyBulkEffectStyles(
+interface GridData {
+  key: string;
+  description: string;
+  count: number;
+}
+
+interface BulkGridStyleAssignment {
+  key: string;
+  styleName: string;
+}
+
+function extractGridsFromLayer(node: SceneNode): GridData[] {
+  if (
+    !nodeSupportsGridStyles(node) ||
+    node.gridStyleId ||
+    node.layoutGrids.length === 0
+  ) {
+    return [];
+  }
+  return [
+    {
+      key: createGridStackKey(node.layoutGrids),
+      description: node.layoutGrids.map(describeLayoutGrid).join(", "),
+      count: node.layoutGrids.length,
+    },
+  ];
+}
+
+async function applyBulkGridStyles(
   layerIds: string[],
-  effectAssignments: BulkEffectStyleAssignment[]
+  gridAssignments: BulkGridStyleAssignment[]
 ): Promise<void> {
   try {
-    if (!effectAssignments || effectAssignments.length === 0) {
+    if (!gridAssignments || gridAssignments.length === 0) {
       postMessageToUI({
         type: "fix-applied",
-        message: "No effect styles selected for bulk apply",
+        message: "No grid styles selected for bulk apply",
       });
       return;
     }
 
-    const assignmentMap = new Map<string, BulkEffectStyleAssignment>();
-    effectAssignments.forEach((assignment) =>
+    const assignmentMap = new Map<string, BulkGridStyleAssignment>();
+    gridAssignments.forEach((assignment) =>
       assignmentMap.set(assignment.key, assignment)
     );
 
-    const styleCache = new Map<string, EffectStyle>();
+    const styleCache = new Map<string, GridStyle>();
     let layersUpdated = 0;
 
     for (const layerId of layerIds) {
       const node = (await figma.getNodeByIdAsync(layerId)) as SceneNode | null;
       if (
         !node ||
-        !("effects" in node) ||
-        !node.effects ||
-        node.effects.length === 0 ||
-        !nodeSupportsEffectStyles(node)
+        !nodeSupportsGridStyles(node) ||
+        node.layoutGrids.length === 0
       ) {
         continue;
       }
 
-      const effectNode = node as EffectStyleCapableNode;
-
-      if (effectNode.effectStyleId) {
-        continue; // Already using an effect style
+      if (node.gridStyleId) {
+        continue; // Already using a grid style
       }
 
-      const stackKey = createEffectStackKey(effectNode.effects);
+      const stackKey = createGridStackKey(node.layoutGrids);
       const assignment = assignmentMap.get(stackKey);
       if (!assignment) {
         continue;
@@ -3006,39 +4286,39 @@ async function applyBulkEffectStyles(
 
       let style = styleCache.get(stackKey);
       if (!style) {
-        style = await ensureEffectStyleForEffects(
+        style = await ensureGridStyleForGrids(
           assignment.styleName,
-          effectNode.effects
+          node.layoutGrids
         );
         styleCache.set(stackKey, style);
       }
 
-      await assignEffectStyleId(effectNode, style.id);
+      await node.setGridStyleIdAsync(style.id);
       layersUpdated++;
     }
 
     if (layersUpdated > 0) {
       postMessageToUI({
         type: "fix-applied",
-        message: `Applied effect styles to ${layersUpdated} layer${
+        message: `Applied grid styles to ${layersUpdated} layer${
           layersUpdated === 1 ? "" : "s"
         }`,
       });
       figma.notify(
-        `✅ Applied effect styles to ${layersUpdated} layer${
+        `✅ Applied grid styles to ${layersUpdated} layer${
           layersUpdated === 1 ? "" : "s"
         }`
       );
     } else {
       postMessageToUI({
         type: "fix-applied",
-        message: "No effect styles were applied",
+        message: "No grid styles were applied",
       });
     }
   } catch (error) {
     postMessageToUI({
       type: "error",
-      message: `Failed to apply effect styles: ${error}`,
+      message: `Failed to apply grid styles: ${error}`,
     });
   }
 }
@@ -3398,12 +4678,37 @@ function createSummarySection(summary: any): FrameNode {
 
   // Layer counts
   const countsText = figma.createText();
-  countsText.characters = `${summary.compliantLayers} of ${summary.totalLayers} layers are compliant`;
+  countsText.characters = `${summary.compliantLayers} of ${
+    summary.totalLayers
+  } layers are compliant${
+    summary.exemptLayers ? ` (${summary.exemptLayers} exempt)` : ""
+  }`;
   countsText.fontSize = 14;
   countsText.fontName = { family: "Inter", style: "Medium" };
   countsText.fills = [{ type: "SOLID", color: { r: 0.4, g: 0.4, b: 0.4 } }];
   summaryFrame.appendChild(countsText);
 
+  if (summary.verdict) {
+    const verdict = summary.verdict as QualityGateVerdict;
+    const verdictText = figma.createText();
+    verdictText.characters = verdict.passed
+      ? "✅ Quality gate passed"
+      : `❌ Quality gate failed: ${verdict.failures
+          .map(describeGateFailure)
+          .join("; ")}`;
+    verdictText.fontSize = 16;
+    verdictText.fontName = { family: "Inter", style: "Bold" };
+    verdictText.fills = [
+      {
+        type: "SOLID",
+        color: verdict.passed
+          ? { r: 0.13, g: 0.77, b: 0.29 }
+          : { r: 0.96, g: 0.26, b: 0.21 },
+      },
+    ];
+    summaryFrame.appendChild(verdictText);
+  }
+
   return summaryFrame;
 }
 
@@ -3739,3 +5044,276 @@ function getScoreColor(score: number): RGB {
     return { r: 0.96, g: 0.26, b: 0.21 }; // Red
   }
 }
+
+interface PaintStyleOption {
+  styleId: string;
+  name: string;
+  remote: boolean;
+  exact: boolean;
+}
+
+interface GradientData {
+  key: string;
+  property: PaintProperty;
+  description: string;
+  matches: PaintStyleOption[];
+}
+
+// Gradients with the same paints share one paint style choice.
+interface BulkPaintStyleAssignment {
+  key: string;
+  styleId: string;
+}
+
+const PAINT_PROPERTIES: PaintProperty[] = ["fills", "strokes"];
+
+function describeGradients(paints: ReadonlyArray<Paint>): string {
+  return paints
+    .filter(isGradientPaint)
+    .map(
+      (gradient) =>
+        `${gradient.type.replace("GRADIENT_", "").toLowerCase()} gradient (${
+          gradient.gradientStops.length
+        } stops)`
+    )
+    .join(", ");
+}
+
+async function getPaintStylesForNode(node: SceneNode) {
+  if (ruleContext.paintStyles.length > 0) return ruleContext.paintStyles;
+  const page = findPageForNode(node);
+  return collectPaintStyles(page ? [page] : []);
+}
+
+// Un-styled gradient fills and strokes, with the gradient paint styles that
+// could replace them. An exact match is listed first.
+async function extractGradientsFromLayer(
+  node: SceneNode
+): Promise<GradientData[]> {
+  const gradients: GradientData[] = [];
+  const styles = (await getPaintStylesForNode(node)).filter(
+    (style) => style.hasGradient
+  );
+
+  for (const property of PAINT_PROPERTIES) {
+    const paints = getNodePaints(node, property);
+    if (getPaintStyleId(node, property) || !paints.some(isGradientPaint)) {
+      continue;
+    }
+    const key = createPaintStackKey(paints);
+    const matches = styles
+      .map((style) => ({
+        styleId: style.id,
+        name: style.name,
+        remote: style.remote,
+        exact: style.key === key,
+      }))
+      .sort(
+        (a, b) => Number(b.exact) - Number(a.exact) || a.name.localeCompare(b.name)
+      );
+    gradients.push({
+      key,
+      property,
+      description: describeGradients(paints),
+      matches,
+    });
+  }
+
+  return gradients;
+}
+
+// Sets (or with a null reason clears) a layer's exemption annotation. The
+// layer is re-checked right away, even when live updates are off.
+async function updateLayerExemption(layerId: string, reason: string | null) {
+  const node = await figma.getNodeByIdAsync(layerId);
+  if (!node || node.type === "PAGE" || node.type === "DOCUMENT") {
+    postMessageToUI({
+      type: "error",
+      message: "Cannot change the exemption of this layer",
+    });
+    return;
+  }
+
+  try {
+    if (reason === null) {
+      clearExemption(node as SceneNode);
+    } else {
+      setExemption(node as SceneNode, reason);
+    }
+  } catch (error) {
+    postMessageToUI({
+      type: "error",
+      message: `Failed to update exemption: ${error}`,
+    });
+    return;
+  }
+
+  if (liveAnalysis) {
+    pendingLayerChanges.add(node.id);
+    scheduleLiveUpdate();
+  }
+
+  const message =
+    reason === null
+      ? `"${node.name}" is analyzed again`
+      : `"${node.name}" is exempt from the analysis`;
+  postMessageToUI({ type: "fix-applied", message });
+  figma.notify(`✅ ${message}`);
+}
+
+// Records the current violations of the analyzed frames as their baseline, or
+// clears it, and re-marks the report.
+async function updateBaselines(frameIds: string[], record: boolean) {
+  const live = lastAnalysis;
+  const frames = live
+    ? live.frames.filter((frame) => frameIds.indexOf(frame.rootId) !== -1)
+    : [];
+  if (!live || frames.length === 0) {
+    postMessageToUI({
+      type: "error",
+      message: "Re-run the analysis before changing the baseline",
+    });
+    return;
+  }
+
+  // Frames updated before a failure are still re-marked
+  const updatedFrames: LiveFrame[] = [];
+  let failed = false;
+  try {
+    for (const frame of frames) {
+      const node = await figma.getNodeByIdAsync(frame.rootId);
+      if (!node) continue;
+      if (record) {
+        const baseline = createBaseline(
+          mergeLayerResults(frame.layers).nonCompliantLayers
+        );
+        writeBaseline(node, baseline);
+        frame.baseline = baseline;
+      } else {
+        frame.baseline = null;
+        clearBaseline(node);
+      }
+      updatedFrames.push(frame);
+    }
+  } catch (error) {
+    postMessageToUI({
+      type: "error",
+      message: `Failed to update baseline: ${
+        error instanceof Error ? error.message : error
+      }`,
+    });
+    failed = true;
+  }
+
+  if (updatedFrames.length > 0) {
+    postLiveDelta(
+      live,
+      new Map(
+        updatedFrames.map((frame) => [frame, new Set(frame.layers.keys())])
+      )
+    );
+  }
+  if (failed) return;
+
+  const message = record
+    ? `Baseline recorded for ${frames.length} frame${
+        frames.length === 1 ? "" : "s"
+      }`
+    : "Baseline cleared";
+  postMessageToUI({ type: "fix-applied", message });
+  figma.notify(`✅ ${message}`);
+}
+
+function getSelectionImageHashes(): string[] {
+  const hashes: string[] = [];
+  const collect = (node: SceneNode) => {
+    for (const property of PAINT_PROPERTIES) {
+      for (const paint of getNodePaints(node, property)) {
+        if (
+          paint.type === "IMAGE" &&
+          paint.imageHash &&
+          hashes.indexOf(paint.imageHash) === -1
+        ) {
+          hashes.push(paint.imageHash);
+        }
+      }
+    }
+    if ("children" in node) {
+      node.children.forEach(collect);
+    }
+  };
+  figma.currentPage.selection.forEach(collect);
+  return hashes;
+}
+
+async function applyBulkPaintStyles(
+  layerIds: string[],
+  paintAssignments: BulkPaintStyleAssignment[]
+): Promise<void> {
+  try {
+    if (!paintAssignments || paintAssignments.length === 0) {
+      postMessageToUI({
+        type: "fix-applied",
+        message: "No paint styles selected for bulk apply",
+      });
+      return;
+    }
+
+    const assignmentMap = new Map<string, BulkPaintStyleAssignment>();
+    paintAssignments.forEach((assignment) =>
+      assignmentMap.set(assignment.key, assignment)
+    );
+
+    let layersUpdated = 0;
+
+    for (const layerId of layerIds) {
+      const node = (await figma.getNodeByIdAsync(layerId)) as SceneNode | null;
+      if (!node) continue;
+
+      let updated = false;
+      for (const property of PAINT_PROPERTIES) {
+        const paints = getNodePaints(node, property);
+        if (getPaintStyleId(node, property) || !paints.some(isGradientPaint)) {
+          continue;
+        }
+
+        const assignment = assignmentMap.get(createPaintStackKey(paints));
+        if (!assignment) continue;
+
+        if (property === "fills" && "setFillStyleIdAsync" in node) {
+          await node.setFillStyleIdAsync(assignment.styleId);
+          updated = true;
+        } else if (property === "strokes" && "setStrokeStyleIdAsync" in node) {
+          await node.setStrokeStyleIdAsync(assignment.styleId);
+          updated = true;
+        }
+      }
+
+      if (updated) layersUpdated++;
+    }
+
+    if (layersUpdated > 0) {
+      postMessageToUI({
+        type: "fix-applied",
+        message: `Applied paint styles to ${layersUpdated} layer${
+          layersUpdated === 1 ? "" : "s"
+        }`,
+      });
+      figma.notify(
+        `✅ Applied paint styles to ${layersUpdated} layer${
+          layersUpdated === 1 ? "" : "s"
+        }`
+      );
+    } else {
+      postMessageToUI({
+        type: "fix-applied",
+        message: "No paint styles were applied",
+      });
+    }
+  } catch (error) {
+    postMessageToUI({
+      type: "error",
+      message: `Failed to apply paint styles: ${error}`,
+    });
+  }
+}
@@ -0,0 +1,495 @@
+/// <reference types="@figma/plugin-typings" />
+
+// Coverage math shared by the plugin and headless runs. Nothing here touches
+// the figma global: layers are checked through the rule context's document
+// and only their plain properties are read.
+
+import {
+  CoverageIssue,
+  CoverageProperty,
+  createIssue,
+  getCoverageProperty,
+  hasViolation,
+  isViolation,
+} from "../utils/issues";
+import { RuleContext, RuleSettings, runRules } from "../utils/rules";
+import {
+  DEFAULT_SCORING,
+  getLayerCompliance,
+  getLayerWeight,
+  ScoringSettings,
+} from "../utils/scoring";
+import { ExemptionSettings, ExemptionSource } from "../utils/exemptions";
+import { CoverageThresholds } from "../utils/qualityGate";
+
+// How library instances are analyzed: "descend" scores every sublayer,
+// "opaque" counts the instance as one compliant layer and "overrides" only
+// checks the sublayers that were overridden in the instance.
+export type InstanceInternalsPolicy = "descend" | "opaque" | "overrides";
+
+// The settings that decide what is checked and how it is scored.
+export interface CoverageSettings extends ExemptionSettings {
+  checkComponents: boolean;
+  checkTokens: boolean;
+  checkStyles: boolean;
+  ignoredTypes: string[];
+  rules: RuleSettings;
+  scoring: ScoringSettings;
+  // Variable collections (local or library) tokens must come from
+  approvedCollectionKeys: string[];
+  instanceInternals: InstanceInternalsPolicy;
+  // Minimum scores for the pass/fail verdict
+  thresholds: CoverageThresholds;
+}
+
+export const DEFAULT_COVERAGE_SETTINGS: CoverageSettings = {
+  checkComponents: true,
+  checkTokens: true,
+  checkStyles: true,
+  ignoredTypes: [],
+  rules: {},
+  scoring: DEFAULT_SCORING,
+  approvedCollectionKeys: [],
+  instanceInternals: "descend",
+  exemptNamePrefixes: [],
+  exemptComponentKeys: [],
+  thresholds: {},
+};
+
+export interface AutoLayoutSuggestion {
+  id: string;
+  name: string;
+  type: string;
+  path: string;
+}
+
+export interface ExemptLayer {
+  id: string;
+  name: string;
+  type: string;
+  path: string;
+  source: ExemptionSource;
+  reason: string;
+  // The layer and everything beneath it
+  layerCount: number;
+}
+
+export interface TypeBreakdown {
+  [key: string]: {
+    total: number;
+    compliant: number;
+    percentage: number;
+  };
+}
+
+export interface CoverageCount {
+  total: number;
+  compliant: number;
+  percentage: number;
+}
+
+export type CoverageCategory = "component" | "token" | "style";
+
+// Each category is tallied from its own rules: per layer (every check of the
+// category passed) and per property (each checked property counts once).
+export interface CategoryCoverage {
+  layers: CoverageCount;
+  properties: CoverageCount;
+}
+
+export type CategoryBreakdown = Record<CoverageCategory, CategoryCoverage>;
+
+export type PropertyBreakdown = Partial<
+  Record<CoverageProperty, CoverageCount>
+>;
+
+export interface NonCompliantLayer {
+  id: string;
+  name: string;
+  type: string;
+  issues: CoverageIssue[];
+  path: string;
+  rawProperties?: Record<string, unknown>;
+  analysis?: Record<string, unknown>;
+}
+
+export interface AnalysisStats {
+  totalLayers: number;
+  compliantLayers: number;
+  byType: TypeBreakdown;
+  nonCompliantLayers: NonCompliantLayer[];
+  exemptLayers: ExemptLayer[];
+  autoLayoutSuggestions: Map<string, AutoLayoutSuggestion>;
+  byCategory: CategoryBreakdown;
+  byProperty: PropertyBreakdown;
+  instanceLayers: number;
+  detachedInstances: number;
+  overriddenInstances: number;
+  // Sums behind the weighted overall score
+  scoreWeight: number;
+  weightedCompliance: number;
+}
+
+export interface CoverageDetails {
+  byType: TypeBreakdown;
+  byCategory: CategoryBreakdown;
+  byProperty: PropertyBreakdown;
+  nonCompliantLayers: NonCompliantLayer[];
+  exemptLayers: ExemptLayer[];
+  suggestions?: {
+    autoLayout?: AutoLayoutSuggestion[];
+  };
+}
+
+// The scores of a summary; the plugin adds baseline counts and frame info.
+export interface CoverageScores {
+  overallScore: number;
+  componentCoverage: number;
+  tokenCoverage: number;
+  styleCoverage: number;
+  // Share of component usages that are still instances, i.e. not detached
+  attachedInstanceCoverage: number;
+  // Share of instances without flagged overrides
+  unmodifiedInstanceCoverage: number;
+  detachedInstances: number;
+  overriddenInstances: number;
+  totalLayers: number;
+  compliantLayers: number;
+  // Layers skipped as exempt, including everything beneath them
+  exemptLayers: number;
+}
+
+// Rule results of one layer per category; null when the category is off.
+export interface LayerChecks {
+  component: CoverageIssue[] | null;
+  token: CoverageIssue[] | null;
+  style: CoverageIssue[] | null;
+}
+
+// Library instances analyzed under a policy other than "descend" get their own
+// row in the type breakdown, so the score shows which policy applied.
+export const INSTANCE_POLICY_TYPES: Record<
+  Exclude<InstanceInternalsPolicy, "descend">,
+  string
+> = {
+  opaque: "INSTANCE (library, opaque)",
+  overrides: "INSTANCE (library, overrides only)",
+};
+
+export function createAnalysisStats(): AnalysisStats {
+  return {
+    totalLayers: 0,
+    compliantLayers: 0,
+    byType: {},
+    nonCompliantLayers: [],
+    exemptLayers: [],
+    autoLayoutSuggestions: new Map<string, AutoLayoutSuggestion>(),
+    byCategory: {
+      component: createCategoryCoverage(),
+      token: createCategoryCoverage(),
+      style: createCategoryCoverage(),
+    },
+    byProperty: {},
+    instanceLayers: 0,
+    detachedInstances: 0,
+    overriddenInstances: 0,
+    scoreWeight: 0,
+    weightedCompliance: 0,
+  };
+}
+
+function createCoverageCount(): CoverageCount {
+  return { total: 0, compliant: 0, percentage: 0 };
+}
+
+function createCategoryCoverage(): CategoryCoverage {
+  return { layers: createCoverageCount(), properties: createCoverageCount() };
+}
+
+function addCoverageCount(
+  target: CoverageCount,
+  total: number,
+  compliant: number
+) {
+  target.total += total;
+  target.compliant += compliant;
+  target.percentage = toPercentage(target);
+}
+
+function toPercentage(count: CoverageCount): number {
+  return count.total > 0
+    ? Math.round((count.compliant / count.total) * 100)
+    : 100;
+}
+
+// Tallies a layer's rule results into the category and property breakdowns.
+// A property is compliant on a layer when none of its checks is a violation.
+function recordCoverage(stats: AnalysisStats, issues: CoverageIssue[]) {
+  const categoryChecks: Partial<
+    Record<CoverageCategory, Record<string, boolean>>
+  > = {};
+  const propertyChecks: Partial<Record<CoverageProperty, boolean>> = {};
+
+  for (const issue of issues) {
+    const compliant = !isViolation(issue);
+
+    if (issue.category !== "layout") {
+      const checks = categoryChecks[issue.category] ?? {};
+      const key = issue.property ?? issue.ruleId;
+      checks[key] = (checks[key] ?? true) && compliant;
+      categoryChecks[issue.category] = checks;
+    }
+
+    const property = getCoverageProperty(issue);
+    if (property) {
+      propertyChecks[property] = (propertyChecks[property] ?? true) && compliant;
+    }
+  }
+
+  (Object.keys(categoryChecks) as CoverageCategory[]).forEach((category) => {
+    const results = Object.values(categoryChecks[category]!);
+    const passed = results.filter(Boolean).length;
+    const coverage = stats.byCategory[category];
+    addCoverageCount(
+      coverage.layers,
+      1,
+      passed === results.length ? 1 : 0
+    );
+    addCoverageCount(coverage.properties, results.length, passed);
+  });
+
+  (Object.keys(propertyChecks) as CoverageProperty[]).forEach((property) => {
+    const coverage = stats.byProperty[property] ?? createCoverageCount();
+    addCoverageCount(coverage, 1, propertyChecks[property] ? 1 : 0);
+    stats.byProperty[property] = coverage;
+  });
+}
+
+export function mergeAnalysisStats(statsList: AnalysisStats[]): AnalysisStats {
+  const merged = createAnalysisStats();
+
+  for (const stats of statsList) {
+    merged.totalLayers += stats.totalLayers;
+    merged.compliantLayers += stats.compliantLayers;
+    (Object.keys(stats.byCategory) as CoverageCategory[]).forEach(
+      (category) => {
+        const source = stats.byCategory[category];
+        const target = merged.byCategory[category];
+        addCoverageCount(
+          target.layers,
+          source.layers.total,
+          source.layers.compliant
+        );
+        addCoverageCount(
+          target.properties,
+          source.properties.total,
+          source.properties.compliant
+        );
+      }
+    );
+    (Object.keys(stats.byProperty) as CoverageProperty[]).forEach(
+      (property) => {
+        const source = stats.byProperty[property]!;
+        const target = merged.byProperty[property] ?? createCoverageCount();
+        addCoverageCount(target, source.total, source.compliant);
+        merged.byProperty[property] = target;
+      }
+    );
+    merged.instanceLayers += stats.instanceLayers;
+    merged.detachedInstances += stats.detachedInstances;
+    merged.overriddenInstances += stats.overriddenInstances;
+    merged.scoreWeight += stats.scoreWeight;
+    merged.weightedCompliance += stats.weightedCompliance;
+    merged.nonCompliantLayers.push(...stats.nonCompliantLayers);
+    merged.exemptLayers.push(...stats.exemptLayers);
+    stats.autoLayoutSuggestions.forEach((suggestion, id) =>
+      merged.autoLayoutSuggestions.set(id, suggestion)
+    );
+
+    Object.entries(stats.byType).forEach(([type, typeStats]) => {
+      if (!merged.byType[type]) {
+        merged.byType[type] = { total: 0, compliant: 0, percentage: 0 };
+      }
+      merged.byType[type].total += typeStats.total;
+      merged.byType[type].compliant += typeStats.compliant;
+      merged.byType[type].percentage = Math.round(
+        (merged.byType[type].compliant / merged.byType[type].total) * 100
+      );
+    });
+  }
+
+  return merged;
+}
+
+function calculateComponentCoverage(stats: AnalysisStats): number {
+  return toPercentage(stats.byCategory.component.properties);
+}
+
+function calculateAttachedInstanceCoverage(stats: AnalysisStats): number {
+  const componentUsages = stats.instanceLayers + stats.detachedInstances;
+  return componentUsages > 0
+    ? Math.round((stats.instanceLayers / componentUsages) * 100)
+    : 100;
+}
+
+function calculateUnmodifiedInstanceCoverage(stats: AnalysisStats): number {
+  return stats.instanceLayers > 0
+    ? Math.round(
+        ((stats.instanceLayers - stats.overriddenInstances) /
+          stats.instanceLayers) *
+          100
+      )
+    : 100;
+}
+
+function calculateTokenCoverage(stats: AnalysisStats): number {
+  return toPercentage(stats.byCategory.token.properties);
+}
+
+function calculateStyleCoverage(stats: AnalysisStats): number {
+  return toPercentage(stats.byCategory.style.properties);
+}
+
+export function calculateCoverageScores(stats: AnalysisStats): CoverageScores {
+  return {
+    overallScore:
+      stats.scoreWeight > 0
+        ? Math.round((stats.weightedCompliance / stats.scoreWeight) * 100)
+        : 0,
+    componentCoverage: calculateComponentCoverage(stats),
+    tokenCoverage: calculateTokenCoverage(stats),
+    styleCoverage: calculateStyleCoverage(stats),
+    attachedInstanceCoverage: calculateAttachedInstanceCoverage(stats),
+    unmodifiedInstanceCoverage: calculateUnmodifiedInstanceCoverage(stats),
+    detachedInstances: stats.detachedInstances,
+    overriddenInstances: stats.overriddenInstances,
+    totalLayers: stats.totalLayers,
+    compliantLayers: stats.compliantLayers,
+    exemptLayers: stats.exemptLayers.reduce(
+      (total, layer) => total + layer.layerCount,
+      0
+    ),
+  };
+}
+
+export function createCoverageDetails(stats: AnalysisStats): CoverageDetails {
+  return {
+    byType: stats.byType,
+    byCategory: stats.byCategory,
+    byProperty: stats.byProperty,
+    nonCompliantLayers: stats.nonCompliantLayers,
+    exemptLayers: stats.exemptLayers,
+    suggestions: {
+      autoLayout: Array.from(stats.autoLayoutSuggestions.values()),
+    },
+  };
+}
+
+export function getCheckedIssues(checks: LayerChecks): CoverageIssue[] {
+  return [
+    ...(checks.component ?? []),
+    ...(checks.token ?? []),
+    ...(checks.style ?? []),
+  ];
+}
+
+// Runs the rules of every enabled category on a layer. Layout suggestions are
+// checked along with styles.
+export async function checkLayer(
+  node: SceneNode,
+  settings: CoverageSettings,
+  context: RuleContext
+): Promise<LayerChecks> {
+  return {
+    component: settings.checkComponents
+      ? await runRules(node, ["component"], settings.rules, context)
+      : null,
+    token: settings.checkTokens
+      ? await runRules(node, ["token"], settings.rules, context)
+      : null,
+    style: settings.checkStyles
+      ? await runRules(node, ["style", "layout"], settings.rules, context)
+      : null,
+  };
+}
+
+// path is the " > "-joined layer names from the analyzed root; depth is 0 for
+// the root. policy is set for library instances that aren't descended into;
+// opaque instances skip the rules and count as compliant. Returns the rule
+// results and the layer's report entry when it isn't compliant, so callers
+// can attach details of their own.
+export async function analyzeLayerCoverage(
+  node: SceneNode,
+  stats: AnalysisStats,
+  path: string,
+  depth: number,
+  policy: Exclude<InstanceInternalsPolicy, "descend"> | null,
+  settings: CoverageSettings,
+  context: RuleContext
+): Promise<{ checks: LayerChecks | null; layer: NonCompliantLayer | null }> {
+  stats.totalLayers++;
+
+  const nodeType = node.type;
+  const typeKey = policy ? INSTANCE_POLICY_TYPES[policy] : nodeType;
+  if (!stats.byType[typeKey]) {
+    stats.byType[typeKey] = { total: 0, compliant: 0, percentage: 0 };
+  }
+  stats.byType[typeKey].total++;
+
+  const checks =
+    policy === "opaque" ? null : await checkLayer(node, settings, context);
+  const issues = checks
+    ? getCheckedIssues(checks)
+    : [createIssue("library-component", "pass", { value: node.name })];
+
+  // Only critical issues and warnings make a layer non-compliant
+  const isCompliant = !issues.some(isViolation);
+
+  recordCoverage(stats, issues);
+
+  const compliance = getLayerCompliance(issues, settings.scoring);
+  if (compliance !== null) {
+    const weight = getLayerWeight(node, depth, settings.scoring);
+    stats.scoreWeight += weight;
+    stats.weightedCompliance += weight * compliance;
+  }
+
+  if (nodeType === "INSTANCE") {
+    stats.instanceLayers++;
+  }
+  if (hasViolation(issues, "detached-instance")) {
+    stats.detachedInstances++;
+  }
+  if (hasViolation(issues, "overridden-instance")) {
+    stats.overriddenInstances++;
+  }
+
+  let layer: NonCompliantLayer | null = null;
+  if (isCompliant) {
+    stats.compliantLayers++;
+    stats.byType[typeKey].compliant++;
+  } else {
+    layer = { id: node.id, name: node.name, type: nodeType, issues, path };
+    stats.nonCompliantLayers.push(layer);
+  }
+
+  // Update percentage for this type
+  stats.byType[typeKey].percentage = Math.round(
+    (stats.byType[typeKey].compliant / stats.byType[typeKey].total) * 100
+  );
+
+  const isFrameAutoLayout =
+    node.type === "FRAME" &&
+    "layoutMode" in node &&
+    (node as FrameNode).layoutMode !== "NONE";
+  if (node.type === "FRAME" && !isFrameAutoLayout) {
+    stats.autoLayoutSuggestions.set(node.id, {
+      id: node.id,
+      name: node.name,
+      type: node.type,
+      path,
+    });
+  }
+
+  return { checks, layer };
+}
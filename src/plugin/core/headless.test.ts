@@ -0,0 +1,283 @@
+import { describe, expect, it } from "vitest";
+import {
+  analyzeSerializedTree,
+  fromRestFile,
+  fromRestNode,
+  listSerializedFrames,
+  RestFile,
+  SerializedDocument,
+  SerializedNode,
+} from "./index";
+
+function solidFill(r: number, g: number, b: number, variableId?: string) {
+  return {
+    type: "SOLID",
+    visible: true,
+    opacity: 1,
+    color: { r, g, b },
+    ...(variableId
+      ? { boundVariables: { color: { type: "VARIABLE_ALIAS", id: variableId } } }
+      : {}),
+  };
+}
+
+const screen: SerializedNode = {
+  id: "1:1",
+  name: "Screen",
+  type: "FRAME",
+  layoutMode: "VERTICAL",
+  paddingLeft: 0,
+  paddingRight: 0,
+  paddingTop: 0,
+  paddingBottom: 0,
+  itemSpacing: 0,
+  fills: [],
+  fillStyleId: "",
+  children: [
+    { id: "1:2", name: "Button", type: "INSTANCE", componentId: "10:1" },
+    {
+      id: "1:3",
+      name: "Box",
+      type: "RECTANGLE",
+      fills: [solidFill(1, 0, 0)],
+      fillStyleId: "",
+    },
+    {
+      id: "1:4",
+      name: "Swatch",
+      type: "RECTANGLE",
+      fills: [solidFill(0, 0, 1, "VariableID:1")],
+      fillStyleId: "",
+    },
+  ],
+};
+
+const screenDocument: SerializedDocument = {
+  components: {
+    "10:1": { key: "button-key", name: "Button", remote: true },
+  },
+  variables: {
+    "VariableID:1": {
+      id: "VariableID:1",
+      name: "color/blue",
+      resolvedType: "COLOR",
+      scopes: ["ALL_SCOPES"],
+      valuesByMode: {},
+      variableCollectionId: "VariableCollectionId:1",
+    },
+  },
+  variableCollections: {
+    "VariableCollectionId:1": { key: "colors-key", name: "Colors" },
+  },
+} as SerializedDocument;
+
+const restFile = {
+  name: "Fixture",
+  document: {
+    id: "0:0",
+    name: "Document",
+    type: "DOCUMENT",
+    children: [
+      {
+        id: "0:1",
+        name: "Page 1",
+        type: "CANVAS",
+        children: [
+          {
+            id: "2:0",
+            name: "Section",
+            type: "SECTION",
+            children: [
+              {
+                id: "2:1",
+                name: "Card",
+                type: "FRAME",
+                fills: [],
+                absoluteBoundingBox: { x: 0, y: 0, width: 320, height: 200 },
+                children: [
+                  {
+                    id: "2:2",
+                    name: "Background",
+                    type: "RECTANGLE",
+                    fills: [solidFill(1, 1, 1)],
+                    styles: { fill: "S:fill" },
+                  },
+                  {
+                    id: "2:3",
+                    name: "Title",
+                    type: "TEXT",
+                    characters: "Hello",
+                    fills: [],
+                    style: {
+                      fontFamily: "Inter",
+                      fontStyle: "Bold",
+                      fontSize: 16,
+                      lineHeightUnit: "PIXELS",
+                      lineHeightPx: 24,
+                      letterSpacing: 0,
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+          { id: "3:1", name: "Loose", type: "RECTANGLE" },
+        ],
+      },
+    ],
+  },
+} as RestFile;
+
+describe("analyzeSerializedTree", () => {
+  it("scores a serialized tree and lists its issues", async () => {
+    const { summary, details } = await analyzeSerializedTree(
+      screen,
+      screenDocument
+    );
+
+    expect(summary.analyzedFrameId).toBe("1:1");
+    expect(summary.analyzedFrameName).toBe("Screen");
+    expect(summary.totalLayers).toBe(4);
+    expect(summary.compliantLayers).toBe(3);
+    expect(summary.componentCoverage).toBe(100);
+    expect(summary.verdict).toBeUndefined();
+
+    const flagged = details.nonCompliantLayers.map((layer) => layer.id);
+    expect(flagged).toEqual(["1:3"]);
+    const ruleIds = details.nonCompliantLayers[0].issues.map(
+      (issue) => issue.ruleId
+    );
+    expect(ruleIds).toContain("fill-token");
+    expect(ruleIds).toContain("fill-style");
+  });
+
+  it("adds a verdict when thresholds are set", async () => {
+    const { summary } = await analyzeSerializedTree(screen, screenDocument, {
+      thresholds: { overallScore: 100, componentCoverage: 100 },
+    });
+
+    expect(summary.verdict?.passed).toBe(false);
+    expect(summary.verdict?.failures.map((failure) => failure.metric)).toEqual(
+      ["overallScore"]
+    );
+  });
+});
+
+describe("fromRestNode", () => {
+  it("keeps a shared corner radius and marks differing corners as mixed", () => {
+    const even = fromRestNode({
+      id: "1",
+      name: "Even",
+      type: "RECTANGLE",
+      rectangleCornerRadii: [4, 4, 4, 4],
+    });
+    expect(even.cornerRadius).toBe(4);
+    expect(even.topLeftRadius).toBe(4);
+
+    const uneven = fromRestNode({
+      id: "2",
+      name: "Uneven",
+      type: "RECTANGLE",
+      rectangleCornerRadii: [4, 4, 8, 8],
+    });
+    expect(uneven.cornerRadius).toBe("mixed");
+    expect(uneven.bottomRightRadius).toBe(8);
+    expect(uneven.bottomLeftRadius).toBe(8);
+  });
+
+  it("keeps a shared stroke weight and marks differing sides as mixed", () => {
+    const even = fromRestNode({
+      id: "1",
+      name: "Even",
+      type: "RECTANGLE",
+      strokes: [],
+      individualStrokeWeights: { top: 1, right: 1, bottom: 1, left: 1 },
+    });
+    expect(even.strokeWeight).toBe(1);
+
+    const uneven = fromRestNode({
+      id: "2",
+      name: "Uneven",
+      type: "RECTANGLE",
+      strokes: [],
+      individualStrokeWeights: { top: 1, right: 1, bottom: 2, left: 1 },
+    });
+    expect(uneven.strokeWeight).toBe("mixed");
+    expect(uneven.strokeBottomWeight).toBe(2);
+    expect(uneven.strokeLeftWeight).toBe(1);
+  });
+
+  it("maps the REST text style to plugin API typography", () => {
+    const pixels = fromRestNode({
+      id: "1",
+      name: "Pixels",
+      type: "TEXT",
+      style: {
+        fontFamily: "Inter",
+        fontStyle: "Bold",
+        fontSize: 14,
+        lineHeightUnit: "PIXELS",
+        lineHeightPx: 20,
+        letterSpacing: 0.5,
+      },
+    });
+    expect(pixels.fontName).toEqual({ family: "Inter", style: "Bold" });
+    expect(pixels.fontSize).toBe(14);
+    expect(pixels.lineHeight).toEqual({ unit: "PIXELS", value: 20 });
+    expect(pixels.letterSpacing).toEqual({ unit: "PIXELS", value: 0.5 });
+    expect(pixels.textStyleId).toBe("");
+
+    const percent = fromRestNode({
+      id: "2",
+      name: "Percent",
+      type: "TEXT",
+      style: {
+        fontFamily: "Inter",
+        fontSize: 14,
+        lineHeightUnit: "FONT_SIZE_%",
+        lineHeightPercentFontSize: 150,
+      },
+    });
+    expect(percent.fontName).toEqual({ family: "Inter", style: "Regular" });
+    expect(percent.lineHeight).toEqual({ unit: "PERCENT", value: 150 });
+
+    const auto = fromRestNode({
+      id: "3",
+      name: "Auto",
+      type: "TEXT",
+      style: { fontFamily: "Inter", fontSize: 14 },
+    });
+    expect(auto.lineHeight).toEqual({ unit: "AUTO" });
+  });
+});
+
+describe("REST files", () => {
+  it("lists frames inside pages and sections", () => {
+    const { root } = fromRestFile(restFile);
+    const frames = listSerializedFrames(root);
+
+    expect(frames.map((frame) => frame.id)).toEqual(["2:1"]);
+    expect(frames[0].width).toBe(320);
+    expect(frames[0].layoutMode).toBe("NONE");
+  });
+
+  it("analyzes a frame converted from a REST file", async () => {
+    const { root, document } = fromRestFile(restFile);
+    const [card] = listSerializedFrames(root);
+    const { summary, details } = await analyzeSerializedTree(card, document);
+
+    expect(summary.analyzedFrameId).toBe("2:1");
+    expect(summary.totalLayers).toBe(3);
+    expect(summary.compliantLayers).toBe(1);
+
+    const issues = new Map(
+      details.nonCompliantLayers.map((layer) => [
+        layer.name,
+        layer.issues.map((issue) => issue.ruleId),
+      ])
+    );
+    expect(issues.has("Background")).toBe(false);
+    expect(issues.get("Title")).toContain("text-style");
+    expect(issues.get("Card")).toContain("auto-layout");
+  });
+});
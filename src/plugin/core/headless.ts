@@ -0,0 +1,215 @@
+/// <reference types="@figma/plugin-typings" />
+
+// Runs the coverage analysis on serialized node trees, e.g. in Node against
+// files exported through the REST API. Layers are walked and scored like the
+// plugin does for a selected frame; annotated exemptions live in plugin data
+// and aren't available here.
+
+import {
+  AnalysisStats,
+  analyzeLayerCoverage,
+  calculateCoverageScores,
+  CoverageDetails,
+  CoverageScores,
+  CoverageSettings,
+  createAnalysisStats,
+  createCoverageDetails,
+  DEFAULT_COVERAGE_SETTINGS,
+  InstanceInternalsPolicy,
+} from "./coverage";
+import {
+  collectSerializedComponents,
+  createSerializedRuleDocument,
+  SerializedDocument,
+  SerializedNode,
+} from "./serialized";
+import { RuleContext } from "../utils/rules";
+import {
+  describeScoreFormula,
+  isHiddenLayer,
+  ScoreFormula,
+} from "../utils/scoring";
+import { getComponentExemption, getNameExemption } from "../utils/exemptions";
+import { evaluateQualityGate, QualityGateVerdict } from "../utils/qualityGate";
+
+export interface HeadlessSummary extends CoverageScores {
+  // Pass/fail against the thresholds in settings, when any are set
+  verdict?: QualityGateVerdict;
+  analyzedFrameName: string;
+  analyzedFrameId: string;
+}
+
+export interface HeadlessAnalysis {
+  summary: HeadlessSummary;
+  details: CoverageDetails;
+  scoring: ScoreFormula;
+}
+
+interface HeadlessEntry {
+  node: SerializedNode;
+  parentPath: string;
+  depth: number;
+  // Overridden sublayers of a library instance are checked on their own
+  skipChildren?: boolean;
+}
+
+type LibraryPolicy = Exclude<InstanceInternalsPolicy, "descend">;
+
+// Serialized nodes carry the scene node properties the rules read; anything
+// beyond them goes through the rule context's document.
+function asSceneNode(node: SerializedNode): SceneNode {
+  return node as unknown as SceneNode;
+}
+
+function countLayers(node: SerializedNode): number {
+  return (node.children ?? []).reduce(
+    (total, child) => total + countLayers(child),
+    1
+  );
+}
+
+// Entries for the sublayers overridden in an instance, with their paths
+// through the instance's own layers.
+function getOverriddenSublayers(
+  instance: SerializedNode,
+  path: string,
+  depth: number
+): HeadlessEntry[] {
+  const overrides = Array.isArray(instance.overrides)
+    ? (instance.overrides as Array<{ id: string }>)
+    : [];
+  const ids = overrides
+    .map((override) => override.id)
+    .filter((id) => id !== instance.id);
+  const entries: HeadlessEntry[] = [];
+
+  const visit = (node: SerializedNode, names: string[]) => {
+    if (ids.includes(node.id)) {
+      entries.push({
+        node,
+        parentPath: [path, ...names].join(" > "),
+        depth: depth + names.length + 1,
+        skipChildren: true,
+      });
+    }
+    (node.children ?? []).forEach((child) =>
+      visit(child, [...names, node.name])
+    );
+  };
+  (instance.children ?? []).forEach((child) => visit(child, []));
+  return entries;
+}
+
+async function collectStats(
+  root: SerializedNode,
+  settings: CoverageSettings,
+  context: RuleContext
+): Promise<AnalysisStats> {
+  const stats = createAnalysisStats();
+  const stack: HeadlessEntry[] = [{ node: root, parentPath: "", depth: 0 }];
+
+  while (stack.length > 0) {
+    const entry = stack.pop()!;
+    const { node } = entry;
+
+    if (settings.ignoredTypes.includes(node.type)) continue;
+    if (settings.scoring.excludeHidden && isHiddenLayer(asSceneNode(node))) {
+      continue;
+    }
+
+    const nodePath = entry.parentPath
+      ? `${entry.parentPath} > ${node.name}`
+      : node.name;
+    const mainComponent =
+      node.type === "INSTANCE"
+        ? await context.document.getMainComponent(asSceneNode(node))
+        : null;
+
+    const exemption =
+      getNameExemption(node.name, settings) ??
+      getComponentExemption(mainComponent, settings);
+    if (exemption) {
+      stats.exemptLayers.push({
+        id: node.id,
+        name: node.name,
+        type: node.type,
+        path: nodePath,
+        source: exemption.source,
+        reason: exemption.reason,
+        layerCount: entry.skipChildren ? 1 : countLayers(node),
+      });
+      continue;
+    }
+
+    // Overridden sublayers are already listed by their outermost instance
+    const policy: LibraryPolicy | null =
+      !entry.skipChildren &&
+      mainComponent?.remote &&
+      settings.instanceInternals !== "descend"
+        ? settings.instanceInternals
+        : null;
+    await analyzeLayerCoverage(
+      asSceneNode(node),
+      stats,
+      nodePath,
+      entry.depth,
+      policy,
+      settings,
+      context
+    );
+
+    if (policy === "overrides") {
+      stack.push(
+        ...getOverriddenSublayers(node, nodePath, entry.depth).reverse()
+      );
+    } else if (!policy && node.children && !entry.skipChildren) {
+      // Children are pushed in reverse so the first child is analyzed first
+      for (let i = node.children.length - 1; i >= 0; i--) {
+        stack.push({
+          node: node.children[i],
+          parentPath: nodePath,
+          depth: entry.depth + 1,
+        });
+      }
+    }
+  }
+
+  return stats;
+}
+
+// Analyzes a serialized frame with the given settings; settings left out
+// use the plugin's defaults.
+export async function analyzeSerializedTree(
+  root: SerializedNode,
+  document: SerializedDocument = {},
+  settings: Partial<CoverageSettings> = {}
+): Promise<HeadlessAnalysis> {
+  const resolvedSettings = { ...DEFAULT_COVERAGE_SETTINGS, ...settings };
+  const context: RuleContext = {
+    document: createSerializedRuleDocument(document),
+    libraryComponents: collectSerializedComponents(root, document),
+    approvedCollectionKeys: resolvedSettings.approvedCollectionKeys,
+    textStyles: document.textStyles ?? [],
+    paintStyles: document.paintStyles ?? [],
+  };
+  const stats = await collectStats(root, resolvedSettings, context);
+
+  const summary: HeadlessSummary = {
+    ...calculateCoverageScores(stats),
+    analyzedFrameName: root.name,
+    analyzedFrameId: root.id,
+  };
+  const verdict = evaluateQualityGate(summary, resolvedSettings.thresholds);
+  if (verdict) summary.verdict = verdict;
+
+  return {
+    summary,
+    details: createCoverageDetails(stats),
+    scoring: {
+      formula: describeScoreFormula(resolvedSettings.scoring),
+      settings: resolvedSettings.scoring,
+      totalWeight: stats.scoreWeight,
+      weightedCompliance: stats.weightedCompliance,
+    },
+  };
+}
@@ -0,0 +1,30 @@
+// Entry point for running the analysis outside Figma, e.g. from Node scripts
+// bundled with esbuild. Nothing exported here needs the figma global.
+
+export { analyzeSerializedTree } from "./headless";
+export type { HeadlessAnalysis, HeadlessSummary } from "./headless";
+export {
+  collectSerializedComponents,
+  createSerializedRuleDocument,
+  fromRestFile,
+  fromRestNode,
+  listSerializedFrames,
+} from "./serialized";
+export type {
+  RestFile,
+  RestNode,
+  RestVariables,
+  SerializedComponent,
+  SerializedDocument,
+  SerializedNode,
+  SerializedVariable,
+} from "./serialized";
+export { DEFAULT_COVERAGE_SETTINGS } from "./coverage";
+export type {
+  CoverageDetails,
+  CoverageScores,
+  CoverageSettings,
+  InstanceInternalsPolicy,
+} from "./coverage";
+export { describeRules } from "../utils/rules";
+export { describeGateFailure } from "../utils/qualityGate";
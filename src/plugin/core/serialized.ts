@@ -0,0 +1,378 @@
+/// <reference types="@figma/plugin-typings" />
+
+// Node trees that exist outside a running Figma document, e.g. saved from the
+// plugin or converted from the REST API's file JSON. Properties use their
+// plugin API names so the coverage rules read them like scene nodes;
+// figma.mixed is written as SERIALIZED_MIXED.
+
+import {
+  ComponentCandidate,
+  ComponentInfo,
+  getStructureSignature,
+} from "../utils/components";
+import { RuleDocument } from "../utils/rules";
+import {
+  TextSegment,
+  TextStyleCandidate,
+  TYPOGRAPHY_FIELDS,
+} from "../utils/typography";
+import { PaintStyleCandidate } from "../utils/paints";
+import {
+  CollectionInfo,
+  ResolvedVariable,
+  VariableInfo,
+} from "../utils/variables";
+import { SERIALIZED_MIXED } from "../utils/mixed";
+
+export interface SerializedNode {
+  id: string;
+  name: string;
+  type: string;
+  visible?: boolean;
+  opacity?: number;
+  width?: number;
+  height?: number;
+  children?: SerializedNode[];
+  // Instances: the main component's id in the document's components
+  componentId?: string;
+  // Text ranges that don't share the node's text style and values; without
+  // them the text is checked as a single range
+  textSegments?: TextSegment[];
+  // Everything else under its plugin API name, e.g. fills, fillStyleId,
+  // layoutMode, paddingLeft, overrides or boundVariables. A property that is
+  // left out is treated as not set.
+  [property: string]: unknown;
+}
+
+export interface SerializedComponent {
+  key: string;
+  name: string;
+  remote: boolean;
+  componentSetId?: string;
+}
+
+export interface SerializedVariable extends VariableInfo {
+  variableCollectionId: string;
+}
+
+// Document data the rules look up by id. The maps have the shape of the REST
+// API's file JSON (components, componentSets) and local variables response
+// (variables, variableCollections).
+export interface SerializedDocument {
+  components?: Record<string, SerializedComponent>;
+  componentSets?: Record<string, { key: string; name: string }>;
+  variables?: Record<string, SerializedVariable>;
+  variableCollections?: Record<string, CollectionInfo>;
+  // Styles the text and gradient checks match raw values against
+  textStyles?: TextStyleCandidate[];
+  paintStyles?: PaintStyleCandidate[];
+}
+
+function getComponentInfo(
+  document: SerializedDocument,
+  componentId: string | undefined
+): ComponentInfo | null {
+  const component = componentId
+    ? document.components?.[componentId]
+    : undefined;
+  if (!component) return null;
+  const componentSet = component.componentSetId
+    ? document.componentSets?.[component.componentSetId]
+    : undefined;
+  return {
+    key: component.key,
+    name: component.name,
+    remote: component.remote,
+    componentSet: componentSet
+      ? { key: componentSet.key, name: componentSet.name }
+      : undefined,
+  };
+}
+
+// The node's text as one range with its own values. A mixed text style
+// can't be split without textSegments, so it counts as styled.
+function getTextSegments(node: SerializedNode): TextSegment[] {
+  if (Array.isArray(node.textSegments)) return node.textSegments;
+  if (node.type !== "TEXT") return [];
+
+  const characters =
+    typeof node.characters === "string" ? node.characters : "";
+  const bound = (node.boundVariables ?? {}) as Record<string, unknown>;
+  return [
+    {
+      characters,
+      start: 0,
+      end: characters.length,
+      textStyleId:
+        typeof node.textStyleId === "string" ? node.textStyleId : "",
+      fontName: (node.fontName as FontName) ?? { family: "", style: "" },
+      fontSize: typeof node.fontSize === "number" ? node.fontSize : 0,
+      lineHeight: (node.lineHeight as LineHeight) ?? { unit: "AUTO" },
+      letterSpacing: (node.letterSpacing as LetterSpacing) ?? {
+        unit: "PIXELS",
+        value: 0,
+      },
+      boundFields: TYPOGRAPHY_FIELDS.filter((field) => !!bound[field]),
+    },
+  ];
+}
+
+export function createSerializedRuleDocument(
+  document: SerializedDocument
+): RuleDocument {
+  return {
+    getMainComponent: async (instance) =>
+      getComponentInfo(
+        document,
+        (instance as unknown as SerializedNode).componentId
+      ),
+    getComponentName: async (componentId) => {
+      const component = getComponentInfo(document, componentId);
+      return component
+        ? (component.componentSet ?? component).name
+        : undefined;
+    },
+    resolveVariable: async (variableId): Promise<ResolvedVariable | null> => {
+      const variable = document.variables?.[variableId];
+      if (!variable) return null;
+      return {
+        variable,
+        collection:
+          document.variableCollections?.[variable.variableCollectionId] ??
+          null,
+      };
+    },
+    getTextSegments: (node) =>
+      getTextSegments(node as unknown as SerializedNode),
+  };
+}
+
+// Library components used in the tree, for the name and structure checks.
+// Like collectLibraryComponents, candidates are learned from instances, whose
+// layers mirror their main component.
+export function collectSerializedComponents(
+  root: SerializedNode,
+  document: SerializedDocument
+): ComponentCandidate[] {
+  const candidates = new Map<string, ComponentCandidate>();
+  const stack = [root];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (node.type === "INSTANCE") {
+      const component = getComponentInfo(document, node.componentId);
+      if (component && component.remote && !candidates.has(component.key)) {
+        candidates.set(component.key, {
+          key: component.key,
+          name: (component.componentSet ?? component).name,
+          signature: getStructureSignature(node as unknown as SceneNode),
+        });
+      }
+    }
+    stack.push(...(node.children ?? []));
+  }
+  return Array.from(candidates.values());
+}
+
+// A node of the REST API's file JSON. Only the properties the conversion
+// reads are listed.
+export interface RestNode {
+  id: string;
+  name: string;
+  type: string;
+  children?: RestNode[];
+  styles?: Partial<
+    Record<"fill" | "stroke" | "effect" | "text" | "grid", string>
+  >;
+  absoluteBoundingBox?: { width: number; height: number } | null;
+  rectangleCornerRadii?: [number, number, number, number];
+  individualStrokeWeights?: {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+  };
+  style?: {
+    fontFamily: string;
+    fontStyle?: string;
+    fontSize: number;
+    letterSpacing?: number;
+    lineHeightPx?: number;
+    lineHeightPercentFontSize?: number;
+    lineHeightUnit?: "PIXELS" | "FONT_SIZE_%" | "INTRINSIC_%";
+  };
+  [property: string]: unknown;
+}
+
+export interface RestFile {
+  name: string;
+  document: RestNode;
+  components?: Record<string, SerializedComponent>;
+  componentSets?: Record<string, { key: string; name: string }>;
+}
+
+// The meta of the REST API's local variables response.
+export interface RestVariables {
+  variables: Record<string, SerializedVariable>;
+  variableCollections: Record<string, CollectionInfo>;
+}
+
+type RestStyleKey = keyof NonNullable<RestNode["styles"]>;
+
+// Style keys with the style id field they map to and the property a node has
+// when it can carry that style.
+const REST_STYLE_FIELDS: Array<[RestStyleKey, string, string]> = [
+  ["fill", "fillStyleId", "fills"],
+  ["stroke", "strokeStyleId", "strokes"],
+  ["effect", "effectStyleId", "effects"],
+  ["grid", "gridStyleId", "layoutGrids"],
+  ["text", "textStyleId", "style"],
+];
+
+// Properties copied as they are; the REST API uses the plugin API's names
+// and shapes for these.
+const REST_PLAIN_FIELDS = [
+  "visible",
+  "opacity",
+  "fills",
+  "strokes",
+  "strokeWeight",
+  "effects",
+  "layoutGrids",
+  "cornerRadius",
+  "layoutMode",
+  "itemSpacing",
+  "paddingLeft",
+  "paddingRight",
+  "paddingTop",
+  "paddingBottom",
+  "characters",
+  "componentId",
+  "overrides",
+  "boundVariables",
+];
+
+// The REST API leaves out properties at their default value; the rules
+// need these on frames to tell static frames and zero padding apart.
+const REST_FRAME_DEFAULTS: Record<string, unknown> = {
+  layoutMode: "NONE",
+  itemSpacing: 0,
+  paddingLeft: 0,
+  paddingRight: 0,
+  paddingTop: 0,
+  paddingBottom: 0,
+};
+
+const REST_FRAME_TYPES = ["FRAME", "COMPONENT", "COMPONENT_SET", "INSTANCE"];
+
+const ANALYZABLE_ROOT_TYPES = ["FRAME", "COMPONENT", "INSTANCE"];
+// Layers whose children are listed instead, like collectAnalysisRoots does
+// for sections
+const CONTAINER_ROOT_TYPES = ["DOCUMENT", "CANVAS", "PAGE", "SECTION"];
+
+function fromRestTextStyle(
+  style: NonNullable<RestNode["style"]>
+): Partial<SerializedNode> {
+  let lineHeight: LineHeight = { unit: "AUTO" };
+  if (style.lineHeightUnit === "PIXELS" && style.lineHeightPx) {
+    lineHeight = { unit: "PIXELS", value: style.lineHeightPx };
+  } else if (
+    style.lineHeightUnit === "FONT_SIZE_%" &&
+    style.lineHeightPercentFontSize
+  ) {
+    lineHeight = { unit: "PERCENT", value: style.lineHeightPercentFontSize };
+  }
+  return {
+    fontName: { family: style.fontFamily, style: style.fontStyle ?? "Regular" },
+    fontSize: style.fontSize,
+    lineHeight,
+    letterSpacing: { unit: "PIXELS", value: style.letterSpacing ?? 0 },
+  };
+}
+
+export function fromRestNode(node: RestNode): SerializedNode {
+  const serialized: SerializedNode = {
+    id: node.id,
+    name: node.name,
+    type: node.type,
+  };
+  if (REST_FRAME_TYPES.includes(node.type)) {
+    Object.assign(serialized, REST_FRAME_DEFAULTS);
+  }
+  REST_PLAIN_FIELDS.forEach((field) => {
+    if (node[field] !== undefined) serialized[field] = node[field];
+  });
+
+  if (node.absoluteBoundingBox) {
+    serialized.width = node.absoluteBoundingBox.width;
+    serialized.height = node.absoluteBoundingBox.height;
+  }
+
+  // Style ids are empty strings on unstyled nodes in the plugin API
+  REST_STYLE_FIELDS.forEach(([key, field, property]) => {
+    if (property in node) serialized[field] = node.styles?.[key] ?? "";
+  });
+
+  if (node.rectangleCornerRadii) {
+    const [topLeft, topRight, bottomRight, bottomLeft] =
+      node.rectangleCornerRadii;
+    serialized.topLeftRadius = topLeft;
+    serialized.topRightRadius = topRight;
+    serialized.bottomRightRadius = bottomRight;
+    serialized.bottomLeftRadius = bottomLeft;
+    serialized.cornerRadius = node.rectangleCornerRadii.every(
+      (radius) => radius === topLeft
+    )
+      ? topLeft
+      : SERIALIZED_MIXED;
+  }
+
+  if (node.individualStrokeWeights) {
+    const { top, right, bottom, left } = node.individualStrokeWeights;
+    serialized.strokeTopWeight = top;
+    serialized.strokeRightWeight = right;
+    serialized.strokeBottomWeight = bottom;
+    serialized.strokeLeftWeight = left;
+    serialized.strokeWeight =
+      top === right && top === bottom && top === left ? top : SERIALIZED_MIXED;
+  }
+
+  if (node.type === "TEXT" && node.style) {
+    Object.assign(serialized, fromRestTextStyle(node.style));
+  }
+
+  if (node.children) {
+    serialized.children = node.children.map(fromRestNode);
+  }
+  return serialized;
+}
+
+// Converts a file from the REST API, optionally with its local variables,
+// into the tree and document data the headless analysis works on.
+export function fromRestFile(
+  file: RestFile,
+  variables?: RestVariables
+): { root: SerializedNode; document: SerializedDocument } {
+  return {
+    root: fromRestNode(file.document),
+    document: {
+      components: file.components,
+      componentSets: file.componentSets,
+      variables: variables?.variables,
+      variableCollections: variables?.variableCollections,
+    },
+  };
+}
+
+// Frames, components and instances placed on a page, directly or in
+// sections: what the plugin analyzes when a whole page or document is
+// selected.
+export function listSerializedFrames(root: SerializedNode): SerializedNode[] {
+  if (ANALYZABLE_ROOT_TYPES.includes(root.type)) return [root];
+  if (!CONTAINER_ROOT_TYPES.includes(root.type)) return [];
+
+  const frames: SerializedNode[] = [];
+  (root.children ?? []).forEach((child) =>
+    frames.push(...listSerializedFrames(child))
+  );
+  return frames;
+}
@@ -0,0 +1,78 @@
+/// <reference types="@figma/plugin-typings" />
+
+import { CoverageIssue, isViolation } from "./issues";
+import { MAX_SHARED_DATA_SIZE, SHARED_NAMESPACE } from "./settingsStorage";
+
+// Violations a frame had when its baseline was recorded, as rule ids keyed by
+// layer id. They are accepted debt: still scored, but not reported as new.
+export interface CoverageBaseline {
+  recordedAt: number;
+  issues: Record<string, string[]>;
+}
+
+interface BaselineLayer {
+  id: string;
+  issues: CoverageIssue[];
+}
+
+const BASELINE_KEY = "coverageBaseline";
+
+export function createBaseline(
+  layers: ReadonlyArray<BaselineLayer>
+): CoverageBaseline {
+  const issues: Record<string, string[]> = {};
+  layers.forEach((layer) => {
+    const ruleIds = layer.issues
+      .filter(isViolation)
+      .map((issue) => issue.ruleId)
+      .filter((ruleId, index, all) => all.indexOf(ruleId) === index);
+    if (ruleIds.length > 0) issues[layer.id] = ruleIds;
+  });
+  return { recordedAt: Date.now(), issues };
+}
+
+export function readBaseline(node: BaseNode): CoverageBaseline | null {
+  const stored = node.getSharedPluginData(SHARED_NAMESPACE, BASELINE_KEY);
+  if (!stored) return null;
+  try {
+    const parsed = JSON.parse(stored);
+    return parsed && typeof parsed.issues === "object" ? parsed : null;
+  } catch (error) {
+    console.warn("Ignoring unreadable coverage baseline:", error);
+    return null;
+  }
+}
+
+// Throws when the baseline doesn't fit in the frame's plugin data. Unlike
+// history it isn't trimmed: a dropped layer would report its debt as new.
+export function writeBaseline(node: BaseNode, baseline: CoverageBaseline) {
+  const json = JSON.stringify(baseline);
+  if (json.length > MAX_SHARED_DATA_SIZE) {
+    throw new Error(
+      `"${node.name}" has too many violations to store as a baseline`
+    );
+  }
+  node.setSharedPluginData(SHARED_NAMESPACE, BASELINE_KEY, json);
+}
+
+export function clearBaseline(node: BaseNode) {
+  node.setSharedPluginData(SHARED_NAMESPACE, BASELINE_KEY, "");
+}
+
+// Marks the layer's violations that are in the baseline. Returns the layer
+// itself when nothing changes, so cached results aren't copied needlessly.
+export function markBaselineIssues<T extends BaselineLayer>(
+  layer: T,
+  baseline: CoverageBaseline | null
+): T {
+  const ruleIds = baseline?.issues[layer.id];
+  if (!ruleIds) return layer;
+  return {
+    ...layer,
+    issues: layer.issues.map((issue) =>
+      isViolation(issue) && ruleIds.includes(issue.ruleId)
+        ? { ...issue, inBaseline: true }
+        : issue
+    ),
+  };
+}
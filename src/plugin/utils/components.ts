@@ -0,0 +1,185 @@
+/// <reference types="@figma/plugin-typings" />
+
+import {
+  createPageScanCache,
+  onPageNodeChange,
+  visitSliced,
+} from "./pageScans";
+
+export interface ComponentCandidate {
+  key: string;
+  name: string;
+  // Child layer structure, used to recognise detached copies.
+  signature: string;
+}
+
+// The plugin API can't list the components of enabled libraries, so
+// candidates are learned from library instances found in analyzed pages and
+// kept for the rest of the session. A page is scanned again once one of its
+// instances changed.
+const discoveredComponents = new Map<string, ComponentCandidate>();
+
+// getMainComponentAsync is slow on large files and the same instances are
+// looked up by collectLibraryComponents and the instance rules, so results
+// are kept across analyses until the instance changes on a watched page.
+const mainComponents = new Map<string, Promise<ComponentNode | null>>();
+onPageNodeChange((change) => mainComponents.delete(change.id));
+
+export function forgetMainComponent(instanceId: string) {
+  mainComponents.delete(instanceId);
+}
+
+export function getMainComponent(
+  instance: InstanceNode
+): Promise<ComponentNode | null> {
+  let mainComponent = mainComponents.get(instance.id);
+  if (!mainComponent) {
+    mainComponent = instance.getMainComponentAsync();
+    mainComponents.set(instance.id, mainComponent);
+  }
+  return mainComponent;
+}
+
+export function getComponentDisplayName(component: ComponentNode): string {
+  const parent = component.parent;
+  return parent && parent.type === "COMPONENT_SET" ? parent.name : component.name;
+}
+
+// What the rules and exemptions need to know about an instance's main
+// component, without holding on to the node.
+export interface ComponentInfo {
+  key: string;
+  name: string;
+  remote: boolean;
+  // The component set the component is a variant of
+  componentSet?: { key: string; name: string };
+}
+
+export function describeComponent(component: ComponentNode): ComponentInfo {
+  const parent = component.parent;
+  return {
+    key: component.key,
+    name: component.name,
+    remote: component.remote,
+    componentSet:
+      parent && parent.type === "COMPONENT_SET"
+        ? { key: parent.key, name: parent.name }
+        : undefined,
+  };
+}
+
+function describeStructure(node: SceneNode, depth: number): string {
+  if (depth === 0 || !("children" in node) || node.children.length === 0) {
+    return node.type;
+  }
+  return `${node.type}(${node.children
+    .map((child) => describeStructure(child, depth - 1))
+    .join(",")})`;
+}
+
+// Describes the two levels below a node. The node's own type is left out so a
+// detached FRAME can match the COMPONENT it was copied from.
+export function getStructureSignature(node: SceneNode): string {
+  if (!("children" in node)) return "";
+  return node.children.map((child) => describeStructure(child, 2)).join(",");
+}
+
+async function scanPageInstances(
+  page: PageNode,
+  isCancelled: () => boolean
+): Promise<true | null> {
+  const instances = page.findAllWithCriteria({ types: ["INSTANCE"] });
+  const completed = await visitSliced(
+    instances,
+    async (instance) => {
+      const mainComponent = await getMainComponent(instance);
+      if (
+        mainComponent &&
+        mainComponent.remote &&
+        !discoveredComponents.has(mainComponent.key)
+      ) {
+        discoveredComponents.set(mainComponent.key, {
+          key: mainComponent.key,
+          name: getComponentDisplayName(mainComponent),
+          signature: getStructureSignature(mainComponent),
+        });
+      }
+    },
+    isCancelled
+  );
+  return completed || null;
+}
+
+const scanPageInstancesOnce = createPageScanCache(
+  scanPageInstances,
+  (change) => change.node.type === "INSTANCE"
+);
+
+// Stops early, leaving the page to be scanned again, when isCancelled turns
+// true.
+export async function collectLibraryComponents(
+  pages: ReadonlyArray<PageNode>,
+  isCancelled: () => boolean = () => false
+): Promise<ComponentCandidate[]> {
+  for (const page of pages) {
+    if (!(await scanPageInstancesOnce(page, isCancelled))) break;
+  }
+
+  return Array.from(discoveredComponents.values());
+}
+
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// "Forms/Text Field" can be meant by a layer called "Text field" as well as
+// "Forms text field", so both the full name and its last segment count.
+function getNameVariants(name: string): string[] {
+  const segments = name.split("/");
+  const variants = [normalizeName(name)];
+  if (segments.length > 1) {
+    variants.push(normalizeName(segments[segments.length - 1]));
+  }
+  return variants.filter((variant) => variant.length >= 3);
+}
+
+// Returns the library component whose name best matches the layer name,
+// preferring the longest matching name.
+export function findIntendedComponent(
+  layerName: string,
+  candidates: ReadonlyArray<ComponentCandidate>
+): ComponentCandidate | null {
+  const paddedName = ` ${normalizeName(layerName)} `;
+  let bestMatch: ComponentCandidate | null = null;
+  let bestLength = 0;
+
+  for (const candidate of candidates) {
+    for (const variant of getNameVariants(candidate.name)) {
+      if (variant.length > bestLength && paddedName.includes(` ${variant} `)) {
+        bestMatch = candidate;
+        bestLength = variant.length;
+      }
+    }
+  }
+
+  return bestMatch;
+}
+
+// Finds a library component with exactly the same child structure. Nodes with
+// fewer than minChildren children are too generic to match reliably.
+export function findStructuralMatch(
+  node: SceneNode,
+  candidates: ReadonlyArray<ComponentCandidate>,
+  minChildren: number
+): ComponentCandidate | null {
+  if (!("children" in node) || node.children.length < minChildren) {
+    return null;
+  }
+  const signature = getStructureSignature(node);
+  return (
+    candidates.find((candidate) => candidate.signature === signature) ?? null
+  );
+}
@@ -0,0 +1,109 @@
+/// <reference types="@figma/plugin-typings" />
+
+import {
+  ComponentInfo,
+  describeComponent,
+  getMainComponent,
+} from "./components";
+
+// Layers can be exempted from the analysis, with everything beneath them:
+// annotated from the report (the reason is kept in plugin data), named with a
+// configured prefix, or instances of a configured component.
+export type ExemptionSource = "annotation" | "name" | "component";
+
+export interface Exemption {
+  source: ExemptionSource;
+  reason: string;
+}
+
+export interface ExemptionSettings {
+  exemptNamePrefixes: string[];
+  exemptComponentKeys: string[];
+}
+
+const EXEMPTION_KEY = "coverageExemption";
+
+export const DEFAULT_EXEMPTION_REASON = "Marked as exempt";
+
+export function setExemption(node: SceneNode, reason: string) {
+  node.setPluginData(
+    EXEMPTION_KEY,
+    reason.trim() || DEFAULT_EXEMPTION_REASON
+  );
+}
+
+export function clearExemption(node: SceneNode) {
+  node.setPluginData(EXEMPTION_KEY, "");
+}
+
+// Exemptions that follow from the layer name and, for instances, the main
+// component alone, so serialized trees can be checked the same way.
+export function getNameExemption(
+  name: string,
+  settings: ExemptionSettings
+): Exemption | null {
+  const prefix = settings.exemptNamePrefixes.find(
+    (candidate) => candidate && name.startsWith(candidate)
+  );
+  return prefix
+    ? { source: "name", reason: `Name starts with "${prefix}"` }
+    : null;
+}
+
+export function getComponentExemption(
+  component: ComponentInfo | null,
+  settings: ExemptionSettings
+): Exemption | null {
+  if (!component) return null;
+  const key = [component.key, component.componentSet?.key].find(
+    (candidate) =>
+      !!candidate && settings.exemptComponentKeys.includes(candidate)
+  );
+  return key
+    ? {
+        source: "component",
+        reason: `Instance of ${(component.componentSet ?? component).name}`,
+      }
+    : null;
+}
+
+export async function getExemption(
+  node: SceneNode,
+  settings: ExemptionSettings
+): Promise<Exemption | null> {
+  const annotation = node.getPluginData(EXEMPTION_KEY);
+  if (annotation) {
+    return { source: "annotation", reason: annotation };
+  }
+
+  const nameExemption = getNameExemption(node.name, settings);
+  if (nameExemption) return nameExemption;
+
+  if (node.type === "INSTANCE" && settings.exemptComponentKeys.length > 0) {
+    const mainComponent = await getMainComponent(node);
+    return getComponentExemption(
+      mainComponent ? describeComponent(mainComponent) : null,
+      settings
+    );
+  }
+
+  return null;
+}
+
+// Keys of the selected instances' components, or their component sets, for
+// the exempt component list in settings.
+export async function getSelectionComponentKeys(
+  nodes: ReadonlyArray<SceneNode>
+): Promise<string[]> {
+  const keys: string[] = [];
+  for (const node of nodes) {
+    if (node.type !== "INSTANCE") continue;
+    const mainComponent = await getMainComponent(node);
+    if (!mainComponent) continue;
+    const parent = mainComponent.parent;
+    const key =
+      parent && parent.type === "COMPONENT_SET" ? parent.key : mainComponent.key;
+    if (keys.indexOf(key) === -1) keys.push(key);
+  }
+  return keys;
+}
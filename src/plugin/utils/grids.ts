@@ -0,0 +1,85 @@
+/// <reference types="@figma/plugin-typings" />
+
+import { normalizeNumber } from "./effects";
+
+export type GridStyleCapableNode = SceneNode & {
+  gridStyleId: string;
+  layoutGrids: ReadonlyArray<LayoutGrid>;
+  setGridStyleIdAsync(styleId: string): Promise<void>;
+};
+
+export function nodeSupportsGridStyles(
+  node: SceneNode
+): node is GridStyleCapableNode {
+  return "gridStyleId" in node && "layoutGrids" in node;
+}
+
+export function cloneLayoutGrid(grid: LayoutGrid): LayoutGrid {
+  const clone: Record<string, unknown> = { ...grid };
+
+  if (clone.color) {
+    clone.color = { ...(clone.color as RGBA) };
+  }
+
+  if ("boundVariables" in clone) {
+    delete clone.boundVariables;
+  }
+
+  return clone as unknown as LayoutGrid;
+}
+
+export function createGridStackKey(grids: ReadonlyArray<LayoutGrid>): string {
+  if (!grids || grids.length === 0) {
+    return "no-grids";
+  }
+
+  const normalized = grids.map((grid) => {
+    const clone = cloneLayoutGrid(grid) as unknown as Record<string, unknown>;
+    ["sectionSize", "gutterSize", "offset"].forEach((field) => {
+      if (field in clone) {
+        clone[field] = normalizeNumber(clone[field] as number);
+      }
+    });
+    return clone;
+  });
+  return JSON.stringify(normalized);
+}
+
+export function describeLayoutGrid(grid: LayoutGrid): string {
+  if (grid.pattern === "GRID") return `grid ${grid.sectionSize}px`;
+  return `${grid.count} ${grid.pattern.toLowerCase()}`;
+}
+
+export async function ensureGridStyleForGrids(
+  preferredName: string,
+  grids: ReadonlyArray<LayoutGrid>
+): Promise<GridStyle> {
+  const targetKey = createGridStackKey(grids);
+  const localStyles = await figma.getLocalGridStylesAsync();
+
+  for (const style of localStyles) {
+    if (createGridStackKey(style.layoutGrids) === targetKey) {
+      return style;
+    }
+  }
+
+  const baseName =
+    preferredName && preferredName.trim().length > 0
+      ? preferredName.trim()
+      : "Grid Style";
+
+  const existingNames = new Set(localStyles.map((style) => style.name));
+  let finalName = baseName;
+  let suffix = 2;
+
+  while (existingNames.has(finalName)) {
+    finalName = `${baseName} ${suffix}`;
+    suffix++;
+  }
+
+  const style = figma.createGridStyle();
+  style.name = finalName;
+  style.layoutGrids = grids.map((grid) => cloneLayoutGrid(grid));
+
+  return style;
+}
@@ -0,0 +1,85 @@
+/// <reference types="@figma/plugin-typings" />
+
+import { MAX_SHARED_DATA_SIZE, SHARED_NAMESPACE } from "./settingsStorage";
+
+// The scores of one analysis run of a frame. settingsHash tells runs with
+// different settings apart, since their scores aren't directly comparable.
+export interface CoverageSnapshot {
+  timestamp: number;
+  frameId: string;
+  frameName: string;
+  settingsHash: string;
+  overallScore: number;
+  componentCoverage: number;
+  tokenCoverage: number;
+  styleCoverage: number;
+  totalLayers: number;
+  compliantLayers: number;
+}
+
+const HISTORY_KEY = "coverageHistory";
+const MAX_HISTORY_ENTRIES = 50;
+
+// FNV-1a over the settings JSON; short enough to store with every snapshot
+export function hashSettings(settings: object): string {
+  const json = JSON.stringify(settings);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+// Snapshots of the node, oldest first
+export function readCoverageHistory(node: BaseNode): CoverageSnapshot[] {
+  const stored = node.getSharedPluginData(SHARED_NAMESPACE, HISTORY_KEY);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn("Ignoring unreadable coverage history:", error);
+    return [];
+  }
+}
+
+const SNAPSHOT_RESULT_FIELDS: Array<keyof CoverageSnapshot> = [
+  "settingsHash",
+  "overallScore",
+  "componentCoverage",
+  "tokenCoverage",
+  "styleCoverage",
+  "totalLayers",
+  "compliantLayers",
+];
+
+function hasSameResult(a: CoverageSnapshot, b: CoverageSnapshot): boolean {
+  return SNAPSHOT_RESULT_FIELDS.every((field) => a[field] === b[field]);
+}
+
+// Appends a snapshot, dropping the oldest ones beyond the entry and size
+// limits. A run with the same settings and scores as the last one isn't
+// stored, so re-analyzing an unchanged frame (e.g. by selecting it again)
+// doesn't modify the document.
+export function appendCoverageSnapshot(
+  node: BaseNode,
+  snapshot: CoverageSnapshot
+): CoverageSnapshot[] {
+  const previous = readCoverageHistory(node);
+  const last = previous[previous.length - 1];
+  if (last && hasSameResult(last, snapshot)) return previous;
+
+  const history = [...previous, snapshot].slice(-MAX_HISTORY_ENTRIES);
+  let json = JSON.stringify(history);
+  while (json.length > MAX_SHARED_DATA_SIZE && history.length > 1) {
+    history.shift();
+    json = JSON.stringify(history);
+  }
+  node.setSharedPluginData(SHARED_NAMESPACE, HISTORY_KEY, json);
+  return history;
+}
+
+export function clearCoverageHistory(node: BaseNode) {
+  node.setSharedPluginData(SHARED_NAMESPACE, HISTORY_KEY, "");
+}
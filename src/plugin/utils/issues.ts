@@ -0,0 +1,445 @@
+/// <reference types="@figma/plugin-typings" />
+
+export type IssueCategory = "component" | "token" | "style" | "layout";
+
+export type IssueSeverity = "critical" | "warning" | "suggestion" | "pass";
+
+export type IssueRuleId =
+  | "library-component"
+  | "reusable-element"
+  | "detached-instance"
+  | "overridden-instance"
+  | "fill-token"
+  | "stroke-token"
+  | "text-token"
+  | "gap-token"
+  | "approved-variable"
+  | "semantic-color-token"
+  | "variable-scope"
+  | "fill-style"
+  | "stroke-style"
+  | "gradient-token"
+  | "gradient-style"
+  | "image-asset"
+  | "text-style"
+  | "typography-match"
+  | "effect-style"
+  | "corner-radius-token"
+  | "padding-token"
+  | "stroke-weight-token"
+  | "opacity-token"
+  | "layout-grid-style"
+  | "auto-layout";
+
+// How a passing check was satisfied, used to word the message.
+export type IssueSource = "variable" | "style";
+
+export interface CoverageIssue {
+  ruleId: IssueRuleId;
+  category: IssueCategory;
+  severity: IssueSeverity;
+  property?: string;
+  value?: string | number;
+  // What the rule expected instead, e.g. the intended library component.
+  expected?: string | number;
+  count?: number;
+  source?: IssueSource;
+  suggestedFix?: string;
+  message: string;
+  // Set on violations accepted in the frame's baseline
+  inBaseline?: boolean;
+}
+
+export type IssueDetails = Partial<
+  Pick<
+    CoverageIssue,
+    "property" | "value" | "expected" | "count" | "source" | "suggestedFix"
+  >
+>;
+
+interface IssueDefinition {
+  category: IssueCategory;
+  property?: string;
+  suggestedFix?: string;
+  describe: (issue: Omit<CoverageIssue, "message">) => string;
+}
+
+function plural(count: number | undefined, word: string): string {
+  return count !== undefined && count > 1 ? `${word}s` : word;
+}
+
+function describePaint(
+  issue: Omit<CoverageIssue, "message">,
+  paint: "fill" | "stroke"
+): string {
+  if (issue.severity !== "pass") {
+    return `Uses ${issue.count} local ${paint} ${plural(
+      issue.count,
+      "color"
+    )} instead of design ${plural(issue.count, "token")}`;
+  }
+  if (issue.source === "style") {
+    return `Uses shared ${paint} style`;
+  }
+  return `${issue.count} ${plural(
+    issue.count,
+    paint
+  )} properly bound to ${plural(issue.count, "variable")}`;
+}
+
+const ISSUE_DEFINITIONS: Record<IssueRuleId, IssueDefinition> = {
+  "library-component": {
+    category: "component",
+    property: "mainComponent",
+    suggestedFix: "Swap the instance for the matching library component",
+    describe: (issue) =>
+      issue.severity === "pass"
+        ? "Uses library component"
+        : "Uses local component instead of library component",
+  },
+  "reusable-element": {
+    category: "component",
+    property: "name",
+    suggestedFix: "Replace the layer with a library component instance",
+    describe: (issue) =>
+      issue.expected !== undefined
+        ? `Potentially reusable element not using library component (likely "${issue.expected}")`
+        : "Potentially reusable element not using library component",
+  },
+  "detached-instance": {
+    category: "component",
+    property: "detachedInfo",
+    suggestedFix: "Replace the frame with an instance of the component",
+    describe: (issue) => {
+      const component =
+        issue.expected !== undefined ? ` "${issue.expected}"` : "";
+      if (issue.value === "structure") {
+        return `Frame matches the structure of library component${component} but is not an instance`;
+      }
+      return issue.value === "library"
+        ? `Detached from library component${component}`
+        : `Detached from local component${component}`;
+    },
+  },
+  "overridden-instance": {
+    category: "component",
+    property: "overrides",
+    suggestedFix:
+      "Reset the overrides or use a component variant that matches the design",
+    describe: (issue) =>
+      issue.severity === "pass"
+        ? "Instance matches its main component"
+        : `Instance overrides ${issue.count} ${
+        issue.count === 1 ? "property" : "properties"
+      } of its main component (${issue.value})`,
+  },
+  "fill-token": {
+    category: "token",
+    property: "fills",
+    suggestedFix: "Bind the fill to a color variable or apply a fill style",
+    describe: (issue) =>
+      issue.severity === "pass"
+        ? "Fill uses color token or style"
+        : "Uses local fill instead of color token or style",
+  },
+  "stroke-token": {
+    category: "token",
+    property: "strokes",
+    suggestedFix: "Bind the stroke to a color variable or apply a stroke style",
+    describe: (issue) =>
+      issue.severity === "pass"
+        ? "Stroke uses color token or style"
+        : "Uses local stroke instead of color token or style",
+  },
+  "text-token": {
+    category: "token",
+    property: "textStyleId",
+    suggestedFix:
+      "Apply a shared text style or bind the typography to variables",
+    describe: (issue) => {
+      if (issue.severity === "pass") {
+        return issue.source === "variable"
+          ? "Typography bound to variables"
+          : "Text uses typography token";
+      }
+      const ranges =
+        issue.count !== undefined && issue.count > 1
+          ? `${issue.count} text ranges use`
+          : "Uses";
+      return `${ranges} local typography instead of typography tokens (${issue.value} not bound)`;
+    },
+  },
+  "gap-token": {
+    category: "token",
+    property: "itemSpacing",
+    suggestedFix: "Bind the item spacing to a spacing variable",
+    describe: (issue) =>
+      issue.severity === "pass"
+        ? "Auto-layout spacing bound to spacing token"
+        : "Auto-layout spacing not using spacing token",
+  },
+  "approved-variable": {
+    category: "token",
+    suggestedFix:
+      "Rebind to a variable from an approved collection or library",
+    describe: (issue) =>
+      issue.severity === "pass"
+        ? "Variables come from approved collections"
+        : `Uses ${issue.count} ${plural(
+            issue.count,
+            "variable"
+          )} from unapproved collections (${issue.value})`,
+  },
+  "semantic-color-token": {
+    category: "token",
+    suggestedFix: "Bind to a semantic color token instead of the primitive",
+    describe: (issue) =>
+      issue.severity === "pass"
+        ? "Colors use semantic tokens"
+        : `Colors bound to primitive ${plural(issue.count, "token")} (${
+            issue.value
+          }) instead of semantic tokens`,
+  },
+  "variable-scope": {
+    category: "token",
+    suggestedFix:
+      "Use a variable scoped for this property or update the variable's scopes",
+    describe: (issue) =>
+      issue.severity === "pass"
+        ? "Variables are scoped for their properties"
+        : `${issue.count} ${plural(
+            issue.count,
+            "variable"
+          )} bound outside ${
+            issue.count === 1 ? "its" : "their"
+          } scope (${issue.value})`,
+  },
+  "fill-style": {
+    category: "style",
+    property: "fills",
+    suggestedFix: "Apply a shared fill style or bind the fill colors to variables",
+    describe: (issue) => describePaint(issue, "fill"),
+  },
+  "stroke-style": {
+    category: "style",
+    property: "strokes",
+    suggestedFix:
+      "Apply a shared stroke style or bind the stroke colors to variables",
+    describe: (issue) => describePaint(issue, "stroke"),
+  },
+  "gradient-token": {
+    category: "token",
+    property: "fills",
+    suggestedFix: "Bind each gradient stop color to a color variable",
+    describe: (issue) =>
+      issue.severity === "pass"
+        ? "Gradient stops bound to color variables"
+        : `${issue.count} gradient ${plural(
+            issue.count,
+            "stop"
+          )} not bound to color tokens (${issue.value})`,
+  },
+  "gradient-style": {
+    category: "style",
+    property: "fills",
+    suggestedFix: "Apply a shared paint style to the gradient",
+    describe: (issue) => {
+      if (issue.severity === "pass") {
+        return issue.source === "style"
+          ? "Gradient uses shared paint style"
+          : "Gradient stops bound to variables";
+      }
+      const match =
+        issue.expected !== undefined ? `; matches "${issue.expected}"` : "";
+      return `Uses local ${issue.value} instead of shared paint style${match}`;
+    },
+  },
+  "image-asset": {
+    category: "style",
+    property: "fills",
+    suggestedFix: "Replace the image with an approved asset",
+    describe: (issue) =>
+      issue.severity === "pass"
+        ? "Images come from approved assets"
+        : `${issue.count} ${plural(
+            issue.count,
+            "image"
+          )} not in the approved asset list`,
+  },
+  "text-style": {
+    category: "style",
+    property: "textStyleId",
+    suggestedFix: "Apply a shared text style",
+    describe: (issue) => {
+      if (issue.severity === "pass") return "Uses shared text style";
+      const ranges =
+        issue.count !== undefined && issue.count > 1
+          ? `${issue.count} text ranges use`
+          : "Uses";
+      const match =
+        issue.expected !== undefined
+          ? `; matches "${issue.expected}"`
+          : "";
+      return `${ranges} local text style (${issue.value}) instead of shared text style${match}`;
+    },
+  },
+  "typography-match": {
+    category: "style",
+    property: "textStyleId",
+    suggestedFix: "Use the closest text style or add the typography to the library",
+    describe: (issue) =>
+      issue.severity === "pass"
+        ? "Typography matches an existing text style"
+        : `Typography (${issue.value}) doesn't match any text style`,
+  },
+  "effect-style": {
+    category: "style",
+    property: "effects",
+    suggestedFix: "Apply a shared effect style",
+    describe: (issue) => {
+      if (issue.severity !== "pass") {
+        return "Uses local effects instead of design tokens or styles";
+      }
+      return issue.source === "style"
+        ? "Uses shared effect style"
+        : "Effects properly bound to variables";
+    },
+  },
+  "corner-radius-token": {
+    category: "token",
+    property: "cornerRadius",
+    suggestedFix: "Bind the corner radius to a spacing variable",
+    describe: (issue) =>
+      issue.severity === "pass"
+        ? "Corner radius bound to variable"
+        : `Uses local corner radius (${issue.value}px) instead of spacing token`,
+  },
+  "padding-token": {
+    category: "token",
+    property: "padding",
+    suggestedFix: "Bind the padding values to spacing variables",
+    describe: (issue) =>
+      issue.severity === "pass"
+        ? "Padding bound to variables"
+        : "Uses local padding values instead of spacing tokens",
+  },
+  "stroke-weight-token": {
+    category: "token",
+    property: "strokeWeight",
+    suggestedFix: "Bind the stroke weight to a border width variable",
+    describe: (issue) =>
+      issue.severity === "pass"
+        ? "Stroke weight bound to variable"
+        : `Uses local stroke weight (${issue.value}) instead of border width token`,
+  },
+  "opacity-token": {
+    category: "token",
+    property: "opacity",
+    suggestedFix: "Bind the layer opacity to an opacity variable",
+    describe: (issue) =>
+      issue.severity === "pass"
+        ? "Opacity bound to variable"
+        : `Uses local opacity (${issue.value}%) instead of opacity token`,
+  },
+  "layout-grid-style": {
+    category: "style",
+    property: "layoutGrids",
+    suggestedFix: "Apply a shared grid style",
+    describe: (issue) => {
+      if (issue.severity !== "pass") {
+        return `Uses ${issue.count} local layout ${plural(
+          issue.count,
+          "grid"
+        )} (${issue.value}) instead of grid style`;
+      }
+      return issue.source === "style"
+        ? "Uses shared grid style"
+        : "Layout grids bound to variables";
+    },
+  },
+  "auto-layout": {
+    category: "layout",
+    property: "layoutMode",
+    suggestedFix: "Convert the frame to Auto Layout",
+    describe: (issue) =>
+      issue.severity === "pass" ? "Uses Auto Layout" : "Frame can use Auto Layout",
+  },
+};
+
+export function createIssue(
+  ruleId: IssueRuleId,
+  severity: IssueSeverity,
+  details: IssueDetails = {}
+): CoverageIssue {
+  const definition = ISSUE_DEFINITIONS[ruleId];
+  const issue: Omit<CoverageIssue, "message"> = {
+    ruleId,
+    category: definition.category,
+    severity,
+    property: details.property ?? definition.property,
+  };
+
+  if (details.value !== undefined) issue.value = details.value;
+  if (details.expected !== undefined) issue.expected = details.expected;
+  if (details.count !== undefined) issue.count = details.count;
+  if (details.source !== undefined) issue.source = details.source;
+  if (severity !== "pass") {
+    const suggestedFix = details.suggestedFix ?? definition.suggestedFix;
+    if (suggestedFix) issue.suggestedFix = suggestedFix;
+  }
+
+  return { ...issue, message: definition.describe(issue) };
+}
+
+// Critical issues and warnings make a layer non-compliant; suggestions and
+// passes are informational.
+export function isViolation(issue: CoverageIssue): boolean {
+  return issue.severity === "critical" || issue.severity === "warning";
+}
+
+export function hasViolation(
+  issues: ReadonlyArray<CoverageIssue>,
+  ruleId: IssueRuleId
+): boolean {
+  return issues.some((issue) => issue.ruleId === ruleId && isViolation(issue));
+}
+
+// Property types reported in the per-property coverage breakdown.
+export type CoverageProperty =
+  | "fill"
+  | "stroke"
+  | "text"
+  | "radius"
+  | "padding"
+  | "gap"
+  | "effect"
+  | "strokeWeight"
+  | "opacity"
+  | "grid";
+
+const COVERAGE_PROPERTIES: Record<string, CoverageProperty> = {
+  fills: "fill",
+  strokes: "stroke",
+  textStyleId: "text",
+  cornerRadius: "radius",
+  padding: "padding",
+  itemSpacing: "gap",
+  effects: "effect",
+  strokeWeight: "strokeWeight",
+  opacity: "opacity",
+  layoutGrids: "grid",
+};
+
+export function getCoverageProperty(
+  issue: CoverageIssue
+): CoverageProperty | null {
+  return (issue.property && COVERAGE_PROPERTIES[issue.property]) || null;
+}
+
+export function formatColorValue(color: RGB): string {
+  const toHex = (channel: number) =>
+    Math.round(channel * 255)
+      .toString(16)
+      .padStart(2, "0");
+  return `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`.toUpperCase();
+}
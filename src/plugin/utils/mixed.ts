@@ -0,0 +1,11 @@
+/// <reference types="@figma/plugin-typings" />
+
+// Serialized node trees can't hold figma.mixed, so mixed values are written
+// as this string instead.
+export const SERIALIZED_MIXED = "mixed";
+
+// figma.mixed is a symbol; comparing its type keeps the check working where
+// the figma global doesn't exist.
+export function isMixed(value: unknown): value is PluginAPI["mixed"] {
+  return typeof value === "symbol" || value === SERIALIZED_MIXED;
+}
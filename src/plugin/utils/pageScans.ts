@@ -0,0 +1,89 @@
+/// <reference types="@figma/plugin-typings" />
+
+// Page-wide scans for the rule context are slow on large files, so their
+// results are kept per page and dropped when a layer they depend on changes.
+// Pages are watched through nodechange, which unlike documentchange doesn't
+// need every page to be loaded.
+
+type NodeChangeListener = (change: NodeChange, pageId: string) => void;
+
+const nodeChangeListeners: NodeChangeListener[] = [];
+const watchedPageIds = new Set<string>();
+
+const SCAN_SLICE_MS = 50;
+
+// The plugin's own history, baseline and exemption writes only touch plugin
+// data
+function isPluginDataChange(change: NodeChange): boolean {
+  return (
+    change.type === "PROPERTY_CHANGE" &&
+    change.properties.every((property) => property === "pluginData")
+  );
+}
+
+export function watchPage(page: PageNode) {
+  if (watchedPageIds.has(page.id)) return;
+  watchedPageIds.add(page.id);
+  page.on("nodechange", (event) => {
+    event.nodeChanges
+      .filter((change) => !isPluginDataChange(change))
+      .forEach((change) =>
+        nodeChangeListeners.forEach((listener) => listener(change, page.id))
+      );
+  });
+}
+
+// Called for every change on a watched page
+export function onPageNodeChange(listener: NodeChangeListener) {
+  nodeChangeListeners.push(listener);
+}
+
+// Runs scan on a page once and keeps its result until a change on the page
+// makes it stale; layers created or deleted can hold anything, so they always
+// do. A scan returns null when it was cancelled, and nothing is kept then.
+export function createPageScanCache<T>(
+  scan: (page: PageNode, isCancelled: () => boolean) => Promise<T | null>,
+  isStale: (change: PropertyChange) => boolean
+): (page: PageNode, isCancelled: () => boolean) => Promise<T | null> {
+  const results = new Map<string, T>();
+  // Pages being scanned, false once they changed during the scan
+  const scanning = new Map<string, boolean>();
+  onPageNodeChange((change, pageId) => {
+    if (change.type !== "PROPERTY_CHANGE" || isStale(change)) {
+      results.delete(pageId);
+      if (scanning.has(pageId)) scanning.set(pageId, false);
+    }
+  });
+
+  return async (page, isCancelled) => {
+    const cached = results.get(page.id);
+    if (cached !== undefined) return cached;
+    watchPage(page);
+    scanning.set(page.id, true);
+    const result = await scan(page, isCancelled);
+    if (result !== null && scanning.get(page.id)) {
+      results.set(page.id, result);
+    }
+    scanning.delete(page.id);
+    return result;
+  };
+}
+
+// Visits the items in order, yielding every SCAN_SLICE_MS so Figma stays
+// responsive. Returns false when isCancelled stopped the scan early.
+export async function visitSliced<T>(
+  items: ReadonlyArray<T>,
+  visit: (item: T) => Promise<void>,
+  isCancelled: () => boolean
+): Promise<boolean> {
+  let sliceStart = Date.now();
+  for (const item of items) {
+    if (Date.now() - sliceStart >= SCAN_SLICE_MS) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (isCancelled()) return false;
+      sliceStart = Date.now();
+    }
+    await visit(item);
+  }
+  return true;
+}
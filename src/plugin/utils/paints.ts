@@ -0,0 +1,158 @@
+/// <reference types="@figma/plugin-typings" />
+
+import { normalizeNumber } from "./effects";
+import { createPageScanCache, visitSliced } from "./pageScans";
+
+export type PaintProperty = "fills" | "strokes";
+
+// A shared paint style that gradients can be matched against. key identifies
+// the style's paints so node paints can be compared without re-reading them.
+export interface PaintStyleCandidate {
+  id: string;
+  name: string;
+  remote: boolean;
+  key: string;
+  hasGradient: boolean;
+}
+
+export function isGradientPaint(paint: Paint): paint is GradientPaint {
+  return paint.type.startsWith("GRADIENT_");
+}
+
+export function getNodePaints(
+  node: SceneNode,
+  property: PaintProperty
+): ReadonlyArray<Paint> {
+  if (!(property in node)) return [];
+  const paints = (node as MinimalFillsMixin & MinimalStrokesMixin)[property];
+  return Array.isArray(paints) ? paints : [];
+}
+
+// Style ids are figma.mixed on text with several fill styles; treat that as
+// not styled.
+export function getPaintStyleId(
+  node: SceneNode,
+  property: PaintProperty
+): string {
+  const field = property === "fills" ? "fillStyleId" : "strokeStyleId";
+  if (!(field in node)) return "";
+  const styleId = (node as unknown as Record<string, unknown>)[field];
+  return typeof styleId === "string" ? styleId : "";
+}
+
+export function countUnboundGradientStops(paint: GradientPaint): number {
+  return paint.gradientStops.filter((stop) => !stop.boundVariables?.color)
+    .length;
+}
+
+function normalizeColor(color: RGBA | RGB) {
+  return {
+    r: normalizeNumber(color.r),
+    g: normalizeNumber(color.g),
+    b: normalizeNumber(color.b),
+    a: "a" in color ? normalizeNumber(color.a) : 1,
+  };
+}
+
+function normalizePaintForKey(paint: Paint): unknown {
+  const base = {
+    type: paint.type,
+    opacity: normalizeNumber(paint.opacity ?? 1),
+    blendMode: paint.blendMode ?? "NORMAL",
+  };
+  if (paint.type === "SOLID") {
+    return { ...base, color: normalizeColor(paint.color) };
+  }
+  if (isGradientPaint(paint)) {
+    return {
+      ...base,
+      stops: paint.gradientStops.map((stop) => ({
+        position: normalizeNumber(stop.position),
+        color: normalizeColor(stop.color),
+      })),
+      transform: paint.gradientTransform.map((row) =>
+        row.map((value) => normalizeNumber(value))
+      ),
+    };
+  }
+  if (paint.type === "IMAGE") {
+    return { ...base, imageHash: paint.imageHash, scaleMode: paint.scaleMode };
+  }
+  return base;
+}
+
+export function createPaintStackKey(paints: ReadonlyArray<Paint>): string {
+  const visible = paints.filter((paint) => paint.visible !== false);
+  return JSON.stringify(visible.map(normalizePaintForKey));
+}
+
+function toCandidate(style: PaintStyle): PaintStyleCandidate {
+  return {
+    id: style.id,
+    name: style.name,
+    remote: style.remote,
+    key: createPaintStackKey(style.paints),
+    hasGradient: style.paints.some(isGradientPaint),
+  };
+}
+
+async function scanPagePaintStyleIds(
+  page: PageNode,
+  isCancelled: () => boolean
+): Promise<string[] | null> {
+  const styleIds = new Set<string>();
+  const completed = await visitSliced(
+    page.findAll((node) => "fillStyleId" in node || "strokeStyleId" in node),
+    async (node) => {
+      for (const property of ["fills", "strokes"] as PaintProperty[]) {
+        const styleId = getPaintStyleId(node, property);
+        if (styleId) styleIds.add(styleId);
+      }
+    },
+    isCancelled
+  );
+  return completed ? Array.from(styleIds) : null;
+}
+
+// The paint style ids used on a page, kept like the text style ids until a
+// fill or stroke style is applied or removed there.
+const getPagePaintStyleIds = createPageScanCache(
+  scanPagePaintStyleIds,
+  (change) =>
+    change.properties.includes("fillStyleId") ||
+    change.properties.includes("strokeStyleId")
+);
+
+// As with text styles, library paint styles can only be found where the
+// analyzed pages already use them. Stops early when isCancelled turns true.
+export async function collectPaintStyles(
+  pages: ReadonlyArray<PageNode>,
+  isCancelled: () => boolean = () => false
+): Promise<PaintStyleCandidate[]> {
+  const styles = new Map<string, PaintStyleCandidate>();
+  for (const style of await figma.getLocalPaintStylesAsync()) {
+    styles.set(style.id, toCandidate(style));
+  }
+
+  for (const page of pages) {
+    const styleIds = await getPagePaintStyleIds(page, isCancelled);
+    if (!styleIds) break;
+    for (const styleId of styleIds) {
+      if (styles.has(styleId)) continue;
+      const style = await figma.getStyleByIdAsync(styleId);
+      if (style && style.type === "PAINT") {
+        styles.set(styleId, toCandidate(style as PaintStyle));
+      }
+    }
+  }
+
+  return Array.from(styles.values());
+}
+
+export function findMatchingPaintStyle(
+  paints: ReadonlyArray<Paint>,
+  styles: ReadonlyArray<PaintStyleCandidate>
+): PaintStyleCandidate | null {
+  const key = createPaintStackKey(paints);
+  return styles.find((style) => style.key === key) ?? null;
+}
@@ -0,0 +1,63 @@
+/// <reference types="@figma/plugin-typings" />
+
+// Scores that can be gated with a minimum, e.g. overall ≥ 85% for handoff.
+export type GateMetric =
+  | "overallScore"
+  | "componentCoverage"
+  | "tokenCoverage"
+  | "styleCoverage";
+
+// Minimum score per metric; metrics without a threshold aren't gated.
+export type CoverageThresholds = Partial<Record<GateMetric, number>>;
+
+export interface GateFailure {
+  metric: GateMetric;
+  label: string;
+  score: number;
+  threshold: number;
+}
+
+export interface QualityGateVerdict {
+  passed: boolean;
+  failures: GateFailure[];
+}
+
+export const GATE_METRIC_LABELS: Record<GateMetric, string> = {
+  overallScore: "Overall Score",
+  componentCoverage: "Component Coverage",
+  tokenCoverage: "Token Coverage",
+  styleCoverage: "Style Coverage",
+};
+
+function isThreshold(value: unknown): value is number {
+  return typeof value === "number" && isFinite(value);
+}
+
+// The verdict for the scores, or null when no threshold is set.
+export function evaluateQualityGate(
+  scores: Record<GateMetric, number>,
+  thresholds: CoverageThresholds
+): QualityGateVerdict | null {
+  const metrics = (Object.keys(GATE_METRIC_LABELS) as GateMetric[]).filter(
+    (metric) => isThreshold(thresholds[metric])
+  );
+  if (metrics.length === 0) return null;
+
+  const failures: GateFailure[] = [];
+  metrics.forEach((metric) => {
+    const threshold = thresholds[metric] as number;
+    if (scores[metric] < threshold) {
+      failures.push({
+        metric,
+        label: GATE_METRIC_LABELS[metric],
+        score: scores[metric],
+        threshold,
+      });
+    }
+  });
+  return { passed: failures.length === 0, failures };
+}
+
+export function describeGateFailure(failure: GateFailure): string {
+  return `${failure.label} ${failure.score}% is below ${failure.threshold}%`;
+}
@@ -0,0 +1,1300 @@
+/// <reference types="@figma/plugin-typings" />
+
+import {
+  CoverageIssue,
+  createIssue,
+  formatColorValue,
+  IssueCategory,
+  IssueRuleId,
+  IssueSeverity,
+} from "./issues";
+import {
+  ComponentCandidate,
+  ComponentInfo,
+  describeComponent,
+  findIntendedComponent,
+  findStructuralMatch,
+  getComponentDisplayName,
+  getMainComponent,
+} from "./components";
+import {
+  getAllowedScopes,
+  getBoundVariableReferences,
+  isAliasVariable,
+  isScopeAllowed,
+  ResolvedVariable,
+  resolveVariable,
+} from "./variables";
+import {
+  findTextStyleMatches,
+  formatTypography,
+  getTextSegments,
+  TextSegment,
+  TextStyleCandidate,
+  TYPOGRAPHY_FIELDS,
+} from "./typography";
+import { describeLayoutGrid } from "./grids";
+import {
+  countUnboundGradientStops,
+  findMatchingPaintStyle,
+  getNodePaints,
+  getPaintStyleId,
+  isGradientPaint,
+  PaintProperty,
+  PaintStyleCandidate,
+} from "./paints";
+import { isMixed } from "./mixed";
+
+export type RuleOptions = Record<string, unknown>;
+
+// Lookups that go beyond the checked node. The plugin answers them from the
+// open document; headless runs answer them from the serialized file.
+export interface RuleDocument {
+  getMainComponent(instance: SceneNode): Promise<ComponentInfo | null>;
+  // Display name of a local component, for frames detached from it
+  getComponentName(componentId: string): Promise<string | undefined>;
+  resolveVariable(variableId: string): Promise<ResolvedVariable | null>;
+  getTextSegments(node: SceneNode): TextSegment[];
+}
+
+export const FIGMA_RULE_DOCUMENT: RuleDocument = {
+  getMainComponent: async (instance) => {
+    const mainComponent = await getMainComponent(instance as InstanceNode);
+    return mainComponent ? describeComponent(mainComponent) : null;
+  },
+  getComponentName: async (componentId) => {
+    const component = await figma.getNodeByIdAsync(componentId);
+    return component && component.type === "COMPONENT"
+      ? getComponentDisplayName(component)
+      : undefined;
+  },
+  resolveVariable,
+  getTextSegments: (node) => getTextSegments(node as TextNode),
+};
+
+// Document-level data gathered once per analysis and shared by all rules.
+export interface RuleContext {
+  document: RuleDocument;
+  libraryComponents: ComponentCandidate[];
+  // Keys of the variable collections bound variables may come from; empty
+  // allows every collection.
+  approvedCollectionKeys: string[];
+  // Local text styles and library text styles used on the analyzed pages.
+  textStyles: TextStyleCandidate[];
+  // Local paint styles and library paint styles used on the analyzed pages.
+  paintStyles: PaintStyleCandidate[];
+}
+
+export interface CoverageRule {
+  id: IssueRuleId;
+  name: string;
+  description: string;
+  category: IssueCategory;
+  // Severity reported for failures unless overridden in the rule config.
+  severity: Exclude<IssueSeverity, "pass">;
+  // Node types the rule applies to; null means every node type.
+  nodeTypes: NodeType[] | null;
+  defaultOptions: RuleOptions;
+  check: (
+    node: SceneNode,
+    options: RuleOptions,
+    context: RuleContext
+  ) => CoverageIssue[] | Promise<CoverageIssue[]>;
+}
+
+// Per-rule overrides stored in AnalysisSettings.rules. Missing fields fall
+// back to the rule's defaults.
+export interface RuleConfig {
+  enabled?: boolean;
+  severity?: Exclude<IssueSeverity, "pass">;
+  nodeTypes?: string[];
+  options?: RuleOptions;
+}
+
+export type RuleSettings = Partial<Record<IssueRuleId, RuleConfig>>;
+
+// Serializable rule metadata sent to the UI for the settings screen.
+export interface RuleDescriptor {
+  id: IssueRuleId;
+  name: string;
+  description: string;
+  category: IssueCategory;
+  severity: Exclude<IssueSeverity, "pass">;
+  nodeTypes: string[] | null;
+  defaultOptions: RuleOptions;
+}
+
+const SHAPE_AND_CONTAINER_TYPES: NodeType[] = [
+  "FRAME",
+  "RECTANGLE",
+  "ELLIPSE",
+  "POLYGON",
+  "STAR",
+  "VECTOR",
+  "TEXT",
+  "GROUP",
+];
+
+function getStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+}
+
+const compiledPatterns = new Map<string, RegExp | null>();
+
+// Invalid user-entered patterns are ignored rather than failing the analysis.
+function compilePattern(pattern: string): RegExp | null {
+  if (!compiledPatterns.has(pattern)) {
+    try {
+      compiledPatterns.set(pattern, new RegExp(pattern, "i"));
+    } catch {
+      compiledPatterns.set(pattern, null);
+    }
+  }
+  return compiledPatterns.get(pattern) ?? null;
+}
+
+function normalizeWords(value: string): string[] {
+  return value.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function pushUnique(list: string[], value: string) {
+  if (list.indexOf(value) === -1) list.push(value);
+}
+
+const COLOR_FIELDS = ["fills", "strokes", "effectColor"];
+
+function isPrimitiveColor(
+  resolved: ResolvedVariable,
+  options: RuleOptions
+): boolean {
+  const primitiveCollections = getStringList(options.primitiveCollections).map(
+    (name) => name.toLowerCase()
+  );
+  const collectionWords = normalizeWords(resolved.collection?.name ?? "");
+  if (collectionWords.some((word) => primitiveCollections.includes(word))) {
+    return true;
+  }
+  return options.flagUnaliased === true && !isAliasVariable(resolved.variable);
+}
+
+const STROKE_WEIGHT_FIELDS = [
+  "strokeWeight",
+  "strokeTopWeight",
+  "strokeRightWeight",
+  "strokeBottomWeight",
+  "strokeLeftWeight",
+];
+
+// Per-side weights are only read when the sides differ.
+export function getStrokeWeights(
+  node: SceneNode
+): Array<{ field: string; value: number }> {
+  if (!("strokeWeight" in node)) return [];
+  if (!isMixed(node.strokeWeight)) {
+    return [{ field: "strokeWeight", value: node.strokeWeight }];
+  }
+  if (!("strokeTopWeight" in node)) return [];
+  return [
+    { field: "strokeTopWeight", value: node.strokeTopWeight },
+    { field: "strokeRightWeight", value: node.strokeRightWeight },
+    { field: "strokeBottomWeight", value: node.strokeBottomWeight },
+    { field: "strokeLeftWeight", value: node.strokeLeftWeight },
+  ];
+}
+
+// Segments without a text style; mixed-style text is checked per range.
+function getUnstyledSegments(
+  node: SceneNode,
+  context: RuleContext
+): TextSegment[] {
+  return context.document.getTextSegments(node).filter(
+    (segment) => !segment.textStyleId
+  );
+}
+
+const PAINT_PROPERTIES: PaintProperty[] = ["fills", "strokes"];
+
+function formatGradient(gradient: GradientPaint): string {
+  const type = gradient.type.replace("GRADIENT_", "").toLowerCase();
+  return `${type} gradient (${gradient.gradientStops
+    .map((stop) => formatColorValue(stop.color))
+    .join(" → ")})`;
+}
+
+function hasBoundVariables(value: unknown): boolean {
+  const boundVariables = (value as { boundVariables?: object })
+    .boundVariables;
+  return !!boundVariables && Object.keys(boundVariables).length > 0;
+}
+
+export const COVERAGE_RULES: CoverageRule[] = [
+  {
+    id: "library-component",
+    name: "Instances use library components",
+    description: "Instances should come from a published library",
+    category: "component",
+    severity: "warning",
+    nodeTypes: ["INSTANCE"],
+    defaultOptions: {},
+    check: async (node, _options, context) => {
+      const mainComponent = await context.document.getMainComponent(node);
+      if (!mainComponent) return [];
+      // Remote main components come from a library - compliant
+      return [
+        createIssue(
+          "library-component",
+          mainComponent.remote ? "pass" : "warning",
+          { value: mainComponent.name }
+        ),
+      ];
+    },
+  },
+  {
+    id: "reusable-element",
+    name: "Reusable elements use components",
+    description:
+      "Layers named like library components or UI elements should be instances",
+    category: "component",
+    severity: "warning",
+    nodeTypes: SHAPE_AND_CONTAINER_TYPES,
+    defaultOptions: {
+      useLibraryNames: true,
+      keywords: ["button", "input", "card", "icon"],
+      patterns: [],
+    },
+    check: (node, options, context) => {
+      const intended =
+        options.useLibraryNames !== false
+          ? findIntendedComponent(node.name, context.libraryComponents)
+          : null;
+      const name = node.name.toLowerCase();
+      const matchesKeyword = getStringList(options.keywords).some(
+        (keyword) => keyword && name.includes(keyword.toLowerCase())
+      );
+      const matchesPattern = getStringList(options.patterns).some(
+        (pattern) => compilePattern(pattern)?.test(node.name) ?? false
+      );
+
+      if (!intended && !matchesKeyword && !matchesPattern) {
+        return [];
+      }
+      return [
+        createIssue("reusable-element", "warning", {
+          value: node.name,
+          expected: intended?.name,
+          suggestedFix: intended
+            ? `Replace the layer with an instance of "${intended.name}"`
+            : undefined,
+        }),
+      ];
+    },
+  },
+  {
+    id: "detached-instance",
+    name: "Components are not detached",
+    description:
+      "Frames detached from a component or copying a library component's structure",
+    category: "component",
+    severity: "critical",
+    nodeTypes: ["FRAME"],
+    defaultOptions: { matchStructure: true, minChildren: 2 },
+    check: async (node, options, context) => {
+      const detachedInfo = (node as FrameNode).detachedInfo;
+
+      if (detachedInfo) {
+        let expected: string | undefined;
+        if (detachedInfo.type === "library") {
+          expected = context.libraryComponents.find(
+            (candidate) => candidate.key === detachedInfo.componentKey
+          )?.name;
+        } else {
+          expected = await context.document.getComponentName(
+            detachedInfo.componentId
+          );
+        }
+        return [
+          createIssue("detached-instance", "critical", {
+            value: detachedInfo.type,
+            expected,
+          }),
+        ];
+      }
+
+      if (options.matchStructure !== false) {
+        const minChildren =
+          typeof options.minChildren === "number" ? options.minChildren : 2;
+        const match = findStructuralMatch(
+          node,
+          context.libraryComponents,
+          Math.max(1, minChildren)
+        );
+        if (match) {
+          return [
+            createIssue("detached-instance", "critical", {
+              value: "structure",
+              expected: match.name,
+            }),
+          ];
+        }
+      }
+
+      return [];
+    },
+  },
+  {
+    id: "overridden-instance",
+    name: "Instances keep their component styling",
+    description:
+      "Instances whose fills, strokes, text styles or effects differ from the main component",
+    category: "component",
+    severity: "warning",
+    nodeTypes: ["INSTANCE"],
+    defaultOptions: {
+      minOverrides: 1,
+      // Resizing an instance is normal use, so width and height aren't
+      // watched unless configured
+      fields: [
+        "fills",
+        "fillStyleId",
+        "strokes",
+        "strokeStyleId",
+        "textStyleId",
+        "fontName",
+        "fontSize",
+        "effects",
+        "effectStyleId",
+      ],
+    },
+    check: (node, options) => {
+      const watchedFields = getStringList(options.fields);
+      const overriddenFields: string[] = [];
+      let overrideCount = 0;
+
+      // Serialized instances may leave out overrides
+      const overrides = (node as InstanceNode).overrides || [];
+      for (const override of overrides) {
+        for (const field of override.overriddenFields) {
+          if (watchedFields.indexOf(field) === -1) continue;
+          overrideCount++;
+          if (overriddenFields.indexOf(field) === -1) {
+            overriddenFields.push(field);
+          }
+        }
+      }
+
+      const minOverrides =
+        typeof options.minOverrides === "number" ? options.minOverrides : 1;
+      if (overrideCount === 0 || overrideCount < minOverrides) {
+        return [createIssue("overridden-instance", "pass")];
+      }
+      return [
+        createIssue("overridden-instance", "warning", {
+          count: overrideCount,
+          value: overriddenFields.join(", "),
+        }),
+      ];
+    },
+  },
+  {
+    id: "fill-token",
+    name: "Fills use color tokens or styles",
+    description: "Solid fills should be bound to a variable or fill style",
+    category: "token",
+    severity: "critical",
+    nodeTypes: null,
+    defaultOptions: {},
+    check: (node) => {
+      const issues: CoverageIssue[] = [];
+      if (!("fills" in node) || isMixed(node.fills)) return issues;
+
+      const solidFills = (node.fills as ReadonlyArray<Paint>).filter(
+        (fill): fill is SolidPaint => fill.type === "SOLID"
+      );
+      // A fill style covers every fill on the node
+      const hasFillStyle = "fillStyleId" in node && !!node.fillStyleId;
+      let tokenizedFills = 0;
+
+      for (const fill of solidFills) {
+        if (fill.boundVariables || hasFillStyle) {
+          tokenizedFills++;
+        } else {
+          issues.push(
+            createIssue("fill-token", "critical", {
+              value: formatColorValue(fill.color),
+            })
+          );
+        }
+      }
+
+      if (tokenizedFills > 0) {
+        issues.push(
+          createIssue("fill-token", "pass", { count: tokenizedFills })
+        );
+      }
+      return issues;
+    },
+  },
+  {
+    id: "stroke-token",
+    name: "Strokes use color tokens or styles",
+    description: "Strokes should be bound to a variable or stroke style",
+    category: "token",
+    severity: "critical",
+    nodeTypes: null,
+    defaultOptions: {},
+    check: (node) => {
+      if (
+        !("strokes" in node) ||
+        !Array.isArray(node.strokes) ||
+        node.strokes.length === 0 ||
+        !("strokeStyleId" in node)
+      ) {
+        return [];
+      }
+
+      const hasTokenBinding =
+        !!node.strokeStyleId ||
+        node.strokes.some(
+          (stroke: Paint) => (stroke as SolidPaint).boundVariables
+        );
+      return [
+        createIssue("stroke-token", hasTokenBinding ? "pass" : "critical"),
+      ];
+    },
+  },
+  {
+    id: "text-token",
+    name: "Text uses typography tokens",
+    description:
+      "Each text range should use a shared text style or bind font family, size, line height and letter spacing to variables",
+    category: "token",
+    severity: "critical",
+    nodeTypes: ["TEXT"],
+    defaultOptions: {},
+    check: (node, _options, context) => {
+      const unboundFields: string[] = [];
+      let rawSegments = 0;
+      let variableSegments = 0;
+
+      for (const segment of getUnstyledSegments(node, context)) {
+        const missing = TYPOGRAPHY_FIELDS.filter(
+          (field) => segment.boundFields.indexOf(field) === -1
+        );
+        if (missing.length === 0) {
+          variableSegments++;
+          continue;
+        }
+        rawSegments++;
+        missing.forEach((field) => pushUnique(unboundFields, field));
+      }
+
+      if (rawSegments > 0) {
+        return [
+          createIssue("text-token", "critical", {
+            count: rawSegments,
+            value: unboundFields.join(", "),
+          }),
+        ];
+      }
+      return [
+        createIssue("text-token", "pass", {
+          source: variableSegments > 0 ? "variable" : "style",
+        }),
+      ];
+    },
+  },
+  {
+    id: "gap-token",
+    name: "Auto Layout gap uses spacing tokens",
+    description: "Item spacing in Auto Layout should be bound to a variable",
+    category: "token",
+    severity: "critical",
+    nodeTypes: null,
+    defaultOptions: {},
+    check: (node) => {
+      if (
+        "layoutMode" in node &&
+        node.layoutMode !== "NONE" &&
+        "itemSpacing" in node &&
+        typeof node.itemSpacing === "number"
+      ) {
+        // Variable bindings for spacing are in boundVariables
+        const hasSpacingToken =
+          node.boundVariables && "itemSpacing" in node.boundVariables;
+        if (hasSpacingToken) {
+          return [createIssue("gap-token", "pass", { source: "variable" })];
+        }
+        if (node.itemSpacing > 0) {
+          return [
+            createIssue("gap-token", "critical", { value: node.itemSpacing }),
+          ];
+        }
+      }
+      return [];
+    },
+  },
+  {
+    id: "approved-variable",
+    name: "Variables come from approved collections",
+    description:
+      "Bound variables should belong to one of the approved collections or libraries",
+    category: "token",
+    severity: "warning",
+    nodeTypes: null,
+    defaultOptions: {},
+    check: async (node, _options, context) => {
+      if (context.approvedCollectionKeys.length === 0) return [];
+      const references = getBoundVariableReferences(node);
+      if (references.length === 0) return [];
+
+      const unapproved: string[] = [];
+      for (const reference of references) {
+        const resolved = await context.document.resolveVariable(
+          reference.variableId
+        );
+        if (!resolved) continue;
+        const collectionKey = resolved.collection?.key;
+        if (
+          !collectionKey ||
+          context.approvedCollectionKeys.indexOf(collectionKey) === -1
+        ) {
+          pushUnique(unapproved, resolved.variable.name);
+        }
+      }
+
+      if (unapproved.length === 0) {
+        return [createIssue("approved-variable", "pass")];
+      }
+      return [
+        createIssue("approved-variable", "warning", {
+          count: unapproved.length,
+          value: unapproved.join(", "),
+        }),
+      ];
+    },
+  },
+  {
+    id: "semantic-color-token",
+    name: "Colors use semantic tokens",
+    description:
+      "Colors should be bound to semantic tokens rather than primitive palette values",
+    category: "token",
+    severity: "warning",
+    nodeTypes: null,
+    defaultOptions: {
+      // Collections whose name contains one of these words hold primitives
+      primitiveCollections: ["primitive", "primitives", "core", "palette"],
+      // Also treat color variables that don't alias another variable as
+      // primitives
+      flagUnaliased: false,
+    },
+    check: async (node, options, context) => {
+      const references = getBoundVariableReferences(node).filter(
+        (reference) => COLOR_FIELDS.includes(reference.field)
+      );
+      if (references.length === 0) return [];
+
+      const primitives: string[] = [];
+      for (const reference of references) {
+        const resolved = await context.document.resolveVariable(
+          reference.variableId
+        );
+        if (
+          resolved &&
+          resolved.variable.resolvedType === "COLOR" &&
+          isPrimitiveColor(resolved, options)
+        ) {
+          pushUnique(primitives, resolved.variable.name);
+        }
+      }
+
+      if (primitives.length === 0) {
+        return [createIssue("semantic-color-token", "pass")];
+      }
+      return [
+        createIssue("semantic-color-token", "warning", {
+          count: primitives.length,
+          value: primitives.join(", "),
+        }),
+      ];
+    },
+  },
+  {
+    id: "variable-scope",
+    name: "Variables match their scopes",
+    description:
+      "Variables should only be bound to properties their scopes allow",
+    category: "token",
+    severity: "warning",
+    nodeTypes: null,
+    defaultOptions: {},
+    check: async (node, _options, context) => {
+      const references = getBoundVariableReferences(node);
+      if (references.length === 0) return [];
+
+      const mismatches: string[] = [];
+      for (const reference of references) {
+        const allowedScopes = getAllowedScopes(node, reference.field);
+        if (!allowedScopes) continue;
+        const resolved = await context.document.resolveVariable(
+          reference.variableId
+        );
+        if (resolved && !isScopeAllowed(resolved.variable, allowedScopes)) {
+          pushUnique(
+            mismatches,
+            `${resolved.variable.name} on ${reference.field}`
+          );
+        }
+      }
+
+      if (mismatches.length === 0) {
+        return [createIssue("variable-scope", "pass")];
+      }
+      return [
+        createIssue("variable-scope", "warning", {
+          count: mismatches.length,
+          value: mismatches.join(", "),
+        }),
+      ];
+    },
+  },
+  {
+    id: "fill-style",
+    name: "Fills use shared styles or variables",
+    description:
+      "Solid fills should come from a shared fill style or color variables",
+    category: "style",
+    severity: "critical",
+    nodeTypes: null,
+    defaultOptions: {},
+    check: (node) => {
+      const issues: CoverageIssue[] = [];
+      if (!("fills" in node) || isMixed(node.fills)) return issues;
+
+      const fills = node.fills as ReadonlyArray<Paint>;
+      // Paints applied through a shared fill style are not local
+      const localFills = node.fillStyleId
+        ? []
+        : (fills.filter(
+            (fill) => fill.type === "SOLID" && !fill.boundVariables?.color
+          ) as SolidPaint[]);
+      const variableBoundFills = fills.filter(
+        (fill) => fill.type === "SOLID" && fill.boundVariables?.color
+      );
+
+      if (localFills.length > 0) {
+        issues.push(
+          createIssue("fill-style", "critical", {
+            count: localFills.length,
+            value: localFills
+              .map((fill) => formatColorValue(fill.color))
+              .join(", "),
+          })
+        );
+      }
+
+      if (variableBoundFills.length > 0) {
+        issues.push(
+          createIssue("fill-style", "pass", {
+            count: variableBoundFills.length,
+            source: "variable",
+          })
+        );
+      }
+
+      if (fills.length > 0 && node.fillStyleId) {
+        issues.push(createIssue("fill-style", "pass", { source: "style" }));
+      }
+
+      return issues;
+    },
+  },
+  {
+    id: "stroke-style",
+    name: "Strokes use shared styles or variables",
+    description:
+      "Solid strokes should come from a shared stroke style or color variables",
+    category: "style",
+    severity: "critical",
+    nodeTypes: null,
+    defaultOptions: {},
+    check: (node) => {
+      const issues: CoverageIssue[] = [];
+      if (!("strokes" in node) || !Array.isArray(node.strokes)) return issues;
+
+      const strokes = node.strokes;
+      // Paints applied through a shared stroke style are not local
+      const localStrokes = node.strokeStyleId
+        ? []
+        : (strokes.filter(
+            (stroke) =>
+              stroke.type === "SOLID" && !stroke.boundVariables?.color
+          ) as SolidPaint[]);
+      const variableBoundStrokes = strokes.filter(
+        (stroke) => stroke.type === "SOLID" && stroke.boundVariables?.color
+      );
+
+      if (localStrokes.length > 0) {
+        issues.push(
+          createIssue("stroke-style", "critical", {
+            count: localStrokes.length,
+            value: localStrokes
+              .map((stroke) => formatColorValue(stroke.color))
+              .join(", "),
+          })
+        );
+      }
+
+      if (variableBoundStrokes.length > 0) {
+        issues.push(
+          createIssue("stroke-style", "pass", {
+            count: variableBoundStrokes.length,
+            source: "variable",
+          })
+        );
+      }
+
+      if (strokes.length > 0 && node.strokeStyleId) {
+        issues.push(createIssue("stroke-style", "pass", { source: "style" }));
+      }
+
+      return issues;
+    },
+  },
+  {
+    id: "gradient-token",
+    name: "Gradient stops use color tokens",
+    description:
+      "Gradient fills and strokes should bind every stop color to a variable or use a paint style",
+    category: "token",
+    severity: "warning",
+    nodeTypes: null,
+    defaultOptions: {},
+    check: (node) => {
+      const issues: CoverageIssue[] = [];
+      for (const property of PAINT_PROPERTIES) {
+        // A paint style covers every stop of its gradients
+        if (getPaintStyleId(node, property)) continue;
+        const gradients = getNodePaints(node, property).filter(isGradientPaint);
+        if (gradients.length === 0) continue;
+
+        const unboundStops = gradients.reduce(
+          (total, gradient) => total + countUnboundGradientStops(gradient),
+          0
+        );
+        issues.push(
+          unboundStops > 0
+            ? createIssue("gradient-token", "warning", {
+                property,
+                count: unboundStops,
+                value: gradients.map(formatGradient).join(", "),
+              })
+            : createIssue("gradient-token", "pass", {
+                property,
+                source: "variable",
+              })
+        );
+      }
+      return issues;
+    },
+  },
+  {
+    id: "gradient-style",
+    name: "Gradients use shared paint styles",
+    description:
+      "Gradient fills and strokes should come from a shared paint style",
+    category: "style",
+    severity: "warning",
+    nodeTypes: null,
+    defaultOptions: {},
+    check: (node, _options, context) => {
+      const issues: CoverageIssue[] = [];
+      for (const property of PAINT_PROPERTIES) {
+        const paints = getNodePaints(node, property);
+        const gradients = paints.filter(isGradientPaint);
+        if (gradients.length === 0) continue;
+
+        if (getPaintStyleId(node, property)) {
+          issues.push(
+            createIssue("gradient-style", "pass", { property, source: "style" })
+          );
+        } else if (
+          gradients.every(
+            (gradient) => countUnboundGradientStops(gradient) === 0
+          )
+        ) {
+          issues.push(
+            createIssue("gradient-style", "pass", {
+              property,
+              source: "variable",
+            })
+          );
+        } else {
+          issues.push(
+            createIssue("gradient-style", "warning", {
+              property,
+              count: gradients.length,
+              value: gradients.map(formatGradient).join(", "),
+              expected: findMatchingPaintStyle(paints, context.paintStyles)
+                ?.name,
+            })
+          );
+        }
+      }
+      return issues;
+    },
+  },
+  {
+    id: "image-asset",
+    name: "Images come from approved assets",
+    description:
+      "Image fills and strokes should use an image from the approved asset list",
+    category: "style",
+    severity: "warning",
+    nodeTypes: null,
+    defaultOptions: {
+      // Image hashes of approved assets; an empty list skips the check
+      approvedImageHashes: [],
+    },
+    check: (node, options) => {
+      const approvedHashes = getStringList(options.approvedImageHashes);
+      if (approvedHashes.length === 0) return [];
+
+      const issues: CoverageIssue[] = [];
+      for (const property of PAINT_PROPERTIES) {
+        const images = getNodePaints(node, property).filter(
+          (paint): paint is ImagePaint =>
+            paint.type === "IMAGE" && paint.visible !== false
+        );
+        if (images.length === 0) continue;
+
+        const unapproved = images.filter(
+          (image) =>
+            !image.imageHash || approvedHashes.indexOf(image.imageHash) === -1
+        );
+        issues.push(
+          unapproved.length > 0
+            ? createIssue("image-asset", "warning", {
+                property,
+                count: unapproved.length,
+                value: unapproved
+                  .map((image) => image.imageHash ?? "no image")
+                  .join(", "),
+              })
+            : createIssue("image-asset", "pass", { property })
+        );
+      }
+      return issues;
+    },
+  },
+  {
+    id: "text-style",
+    name: "Text must use text style",
+    description: "Text layers should use a shared text style",
+    category: "style",
+    severity: "critical",
+    nodeTypes: ["TEXT"],
+    defaultOptions: {},
+    check: (node, _options, context) => {
+      const segments = getUnstyledSegments(node, context);
+      if (segments.length === 0) {
+        return [createIssue("text-style", "pass", { source: "style" })];
+      }
+
+      const values: string[] = [];
+      segments.forEach((segment) =>
+        pushUnique(values, formatTypography(segment))
+      );
+      // Point at the style the raw values already match, if any
+      const exactMatch = findTextStyleMatches(
+        segments[0],
+        context.textStyles
+      ).find((match) => match.distance === 0);
+      return [
+        createIssue("text-style", "critical", {
+          count: segments.length,
+          value: values.join("; "),
+          expected: exactMatch?.name,
+        }),
+      ];
+    },
+  },
+  {
+    id: "typography-match",
+    name: "Typography matches a text style",
+    description:
+      "Un-styled text should use font values that exist as a text style in the file or its libraries",
+    category: "style",
+    severity: "warning",
+    nodeTypes: ["TEXT"],
+    defaultOptions: {},
+    check: (node, _options, context) => {
+      const segments = getUnstyledSegments(node, context);
+      if (segments.length === 0) return [];
+
+      const unmatched: string[] = [];
+      for (const segment of segments) {
+        const matches = findTextStyleMatches(segment, context.textStyles);
+        if (!matches.some((match) => match.distance === 0)) {
+          pushUnique(unmatched, formatTypography(segment));
+        }
+      }
+
+      if (unmatched.length > 0) {
+        return [
+          createIssue("typography-match", "warning", {
+            count: unmatched.length,
+            value: unmatched.join("; "),
+          }),
+        ];
+      }
+      return [createIssue("typography-match", "pass")];
+    },
+  },
+  {
+    id: "effect-style",
+    name: "Effects use styles or tokens",
+    description: "Shadows and blurs should use a shared effect style",
+    category: "style",
+    severity: "critical",
+    nodeTypes: null,
+    defaultOptions: {},
+    check: (node) => {
+      const issues: CoverageIssue[] = [];
+      if (!("effects" in node) || !node.effects || node.effects.length === 0) {
+        return issues;
+      }
+
+      const effects = node.effects;
+      const usingEffectStyle =
+        "effectStyleId" in node && (node as any).effectStyleId ? true : false;
+      const hasVariableBoundEffects = effects.some(hasBoundVariables);
+      const hasLocalEffects =
+        !usingEffectStyle &&
+        effects.some((effect) => !hasBoundVariables(effect));
+
+      if (hasLocalEffects) {
+        issues.push(
+          createIssue("effect-style", "critical", {
+            count: effects.length,
+            value: effects.map((effect) => effect.type).join(", "),
+          })
+        );
+      }
+
+      if (hasVariableBoundEffects) {
+        issues.push(
+          createIssue("effect-style", "pass", { source: "variable" })
+        );
+      }
+
+      if (usingEffectStyle) {
+        issues.push(createIssue("effect-style", "pass", { source: "style" }));
+      }
+
+      return issues;
+    },
+  },
+  {
+    id: "corner-radius-token",
+    name: "Corner radius must be tokenized",
+    description: "Non-zero corner radii should be bound to a variable",
+    category: "token",
+    severity: "critical",
+    nodeTypes: null,
+    defaultOptions: {},
+    check: (node) => {
+      if (
+        !("cornerRadius" in node) ||
+        typeof node.cornerRadius !== "number" ||
+        node.cornerRadius <= 0
+      ) {
+        return [];
+      }
+
+      // Check if any corner radius properties are bound to variables
+      const cornerRadiusProperties = [
+        "cornerRadius",
+        "topLeftRadius",
+        "topRightRadius",
+        "bottomLeftRadius",
+        "bottomRightRadius",
+      ];
+      const hasBoundCornerRadius =
+        node.boundVariables &&
+        cornerRadiusProperties.some((prop) => prop in node.boundVariables!);
+
+      if (hasBoundCornerRadius) {
+        return [
+          createIssue("corner-radius-token", "pass", { source: "variable" }),
+        ];
+      }
+      return [
+        createIssue("corner-radius-token", "critical", {
+          value: node.cornerRadius,
+        }),
+      ];
+    },
+  },
+  {
+    id: "padding-token",
+    name: "Padding must be tokenized",
+    description: "Auto Layout padding should be bound to spacing variables",
+    category: "token",
+    severity: "critical",
+    nodeTypes: ["FRAME"],
+    defaultOptions: {},
+    check: (node) => {
+      const frameNode = node as FrameNode;
+      if (frameNode.layoutMode === "NONE") return [];
+
+      const paddingProps = [
+        "paddingLeft",
+        "paddingRight",
+        "paddingTop",
+        "paddingBottom",
+      ] as const;
+      const localPaddingProps = paddingProps.filter((prop) => {
+        const hasBoundVariable =
+          frameNode.boundVariables && prop in frameNode.boundVariables;
+        return frameNode[prop] !== 0 && !hasBoundVariable;
+      });
+
+      if (localPaddingProps.length > 0) {
+        return [
+          createIssue("padding-token", "critical", {
+            count: localPaddingProps.length,
+            value: localPaddingProps
+              .map((prop) => `${prop}: ${frameNode[prop]}`)
+              .join(", "),
+          }),
+        ];
+      }
+      if (
+        frameNode.boundVariables &&
+        paddingProps.some((prop) => prop in frameNode.boundVariables!)
+      ) {
+        return [createIssue("padding-token", "pass", { source: "variable" })];
+      }
+      return [];
+    },
+  },
+  {
+    id: "stroke-weight-token",
+    name: "Stroke weight must be tokenized",
+    description: "Visible strokes should bind their weight to a border width variable",
+    category: "token",
+    severity: "warning",
+    nodeTypes: null,
+    defaultOptions: {},
+    check: (node) => {
+      if (
+        !("strokes" in node) ||
+        !Array.isArray(node.strokes) ||
+        !node.strokes.some((stroke: Paint) => stroke.visible !== false)
+      ) {
+        return [];
+      }
+
+      const bound = (node.boundVariables ?? {}) as Record<string, unknown>;
+      const localWeights = getStrokeWeights(node).filter(
+        ({ field, value }) => value > 0 && !bound[field]
+      );
+      if (localWeights.length > 0) {
+        return [
+          createIssue("stroke-weight-token", "warning", {
+            count: localWeights.length,
+            value: localWeights
+              .map(({ field, value }) =>
+                field === "strokeWeight" ? `${value}px` : `${field}: ${value}`
+              )
+              .join(", "),
+          }),
+        ];
+      }
+      return STROKE_WEIGHT_FIELDS.some((field) => bound[field])
+        ? [createIssue("stroke-weight-token", "pass", { source: "variable" })]
+        : [];
+    },
+  },
+  {
+    id: "opacity-token",
+    name: "Opacity must be tokenized",
+    description: "Semi-transparent layers should bind opacity to a variable",
+    category: "token",
+    severity: "warning",
+    nodeTypes: null,
+    defaultOptions: {},
+    check: (node) => {
+      if (!("opacity" in node)) return [];
+      if (node.boundVariables?.opacity) {
+        return [createIssue("opacity-token", "pass", { source: "variable" })];
+      }
+      if (node.opacity >= 1) return [];
+      return [
+        createIssue("opacity-token", "warning", {
+          value: Math.round(node.opacity * 100),
+        }),
+      ];
+    },
+  },
+  {
+    id: "layout-grid-style",
+    name: "Layout grids use grid styles",
+    description: "Layout grids should come from a shared grid style",
+    category: "style",
+    severity: "warning",
+    nodeTypes: ["FRAME", "COMPONENT", "COMPONENT_SET", "INSTANCE"],
+    defaultOptions: {},
+    check: (node) => {
+      if (!("layoutGrids" in node) || node.layoutGrids.length === 0) {
+        return [];
+      }
+      if (node.gridStyleId) {
+        return [
+          createIssue("layout-grid-style", "pass", { source: "style" }),
+        ];
+      }
+      if (node.layoutGrids.every(hasBoundVariables)) {
+        return [
+          createIssue("layout-grid-style", "pass", { source: "variable" }),
+        ];
+      }
+      return [
+        createIssue("layout-grid-style", "warning", {
+          count: node.layoutGrids.length,
+          value: node.layoutGrids.map(describeLayoutGrid).join(", "),
+        }),
+      ];
+    },
+  },
+  {
+    id: "auto-layout",
+    name: "Frames use Auto Layout",
+    description: "Suggests converting static frames to Auto Layout",
+    category: "layout",
+    severity: "suggestion",
+    nodeTypes: ["FRAME"],
+    defaultOptions: {},
+    check: (node) => {
+      const frameNode = node as FrameNode;
+      if (frameNode.layoutMode === "NONE") {
+        return [createIssue("auto-layout", "suggestion")];
+      }
+      return [
+        createIssue("auto-layout", "pass", { value: frameNode.layoutMode }),
+      ];
+    },
+  },
+];
+
+const CONFIGURABLE_SEVERITIES: Array<RuleConfig["severity"]> = [
+  "critical",
+  "warning",
+  "suggestion",
+];
+
+function isRuleConfig(value: unknown): value is RuleConfig {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const { enabled, severity, nodeTypes, options } = value as RuleConfig;
+  return (
+    (enabled === undefined || typeof enabled === "boolean") &&
+    (severity === undefined || CONFIGURABLE_SEVERITIES.includes(severity)) &&
+    (nodeTypes === undefined ||
+      (Array.isArray(nodeTypes) &&
+        nodeTypes.every((type) => typeof type === "string"))) &&
+    (options === undefined ||
+      (typeof options === "object" &&
+        options !== null &&
+        !Array.isArray(options)))
+  );
+}
+
+// Rule settings read from outside the plugin, e.g. an imported profile.
+// Entries for unknown rules or with values of the wrong type are dropped.
+export function sanitizeRuleSettings(value: unknown): RuleSettings {
+  const ruleSettings: RuleSettings = {};
+  if (typeof value !== "object" || value === null) return ruleSettings;
+  COVERAGE_RULES.forEach((rule) => {
+    const config = (value as Record<string, unknown>)[rule.id];
+    if (isRuleConfig(config)) ruleSettings[rule.id] = config;
+  });
+  return ruleSettings;
+}
+
+export function isRuleEnabled(
+  ruleId: IssueRuleId,
+  ruleSettings: RuleSettings = {}
+): boolean {
+  return ruleSettings[ruleId]?.enabled !== false;
+}
+
+export function getRuleOptions(
+  ruleId: IssueRuleId,
+  ruleSettings: RuleSettings = {}
+): RuleOptions {
+  const rule = COVERAGE_RULES.find((candidate) => candidate.id === ruleId);
+  return { ...rule?.defaultOptions, ...ruleSettings[ruleId]?.options };
+}
+
+export function describeRules(): RuleDescriptor[] {
+  return COVERAGE_RULES.map((rule) => ({
+    id: rule.id,
+    name: rule.name,
+    description: rule.description,
+    category: rule.category,
+    severity: rule.severity,
+    nodeTypes: rule.nodeTypes,
+    defaultOptions: rule.defaultOptions,
+  }));
+}
+
+function isRuleApplicable(
+  rule: CoverageRule,
+  config: RuleConfig,
+  node: SceneNode
+): boolean {
+  const nodeTypes = config.nodeTypes ?? rule.nodeTypes;
+  return !nodeTypes || nodeTypes.indexOf(node.type) !== -1;
+}
+
+// Runs every enabled rule of the given categories against a node. Severity
+// overrides apply to failures only; passes are reported as-is.
+export async function runRules(
+  node: SceneNode,
+  categories: IssueCategory[],
+  ruleSettings: RuleSettings = {},
+  context: RuleContext = {
+    document: FIGMA_RULE_DOCUMENT,
+    libraryComponents: [],
+    approvedCollectionKeys: [],
+    textStyles: [],
+    paintStyles: [],
+  }
+): Promise<CoverageIssue[]> {
+  const issues: CoverageIssue[] = [];
+
+  for (const rule of COVERAGE_RULES) {
+    if (categories.indexOf(rule.category) === -1) continue;
+
+    const config = ruleSettings[rule.id] ?? {};
+    if (config.enabled === false || !isRuleApplicable(rule, config, node)) {
+      continue;
+    }
+
+    const options = { ...rule.defaultOptions, ...config.options };
+    const ruleIssues = await rule.check(node, options, context);
+    for (const issue of ruleIssues) {
+      if (config.severity && issue.severity !== "pass") {
+        issue.severity = config.severity;
+      }
+      issues.push(issue);
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,122 @@
+/// <reference types="@figma/plugin-typings" />
+
+import { CoverageIssue, isViolation } from "./issues";
+
+export type ScoreCategory = "component" | "token" | "style";
+
+// How much a layer's size or position in the tree counts towards the score.
+export type SizeWeighting = "none" | "area" | "depth";
+
+export interface ScoringSettings {
+  categoryWeights: Record<ScoreCategory, number>;
+  // Node types without an entry weigh 1.
+  nodeTypeWeights: Record<string, number>;
+  sizeWeighting: SizeWeighting;
+  // Leave hidden and fully transparent layers (and their children) out of the
+  // analysis entirely.
+  excludeHidden: boolean;
+}
+
+// Recorded with every analysis so a score can be recomputed from its inputs.
+export interface ScoreFormula {
+  formula: string;
+  settings: ScoringSettings;
+  totalWeight: number;
+  weightedCompliance: number;
+}
+
+export const DEFAULT_SCORING: ScoringSettings = {
+  categoryWeights: { component: 1, token: 1, style: 1 },
+  nodeTypeWeights: {},
+  sizeWeighting: "none",
+  excludeHidden: false,
+};
+
+const SCORE_CATEGORIES: ScoreCategory[] = ["component", "token", "style"];
+
+function toWeight(value: number | undefined, fallback: number): number {
+  return typeof value === "number" && isFinite(value) && value >= 0
+    ? value
+    : fallback;
+}
+
+export function isHiddenLayer(node: SceneNode): boolean {
+  if ("visible" in node && !node.visible) return true;
+  return "opacity" in node && node.opacity === 0;
+}
+
+// depth is 0 for the analyzed root layer.
+export function getLayerWeight(
+  node: SceneNode,
+  depth: number,
+  settings: ScoringSettings
+): number {
+  const typeWeight = toWeight(settings.nodeTypeWeights[node.type], 1);
+
+  if (settings.sizeWeighting === "area") {
+    // Lines and other zero-height layers still weigh a single pixel.
+    return typeWeight * Math.max(node.width * node.height, 1);
+  }
+  if (settings.sizeWeighting === "depth") {
+    return typeWeight / (depth + 1);
+  }
+  return typeWeight;
+}
+
+// Weighted share of the categories checked on the layer that have no
+// violations. Returns null when none of the checked categories carries any
+// weight, so the layer is left out of the score.
+export function getLayerCompliance(
+  issues: ReadonlyArray<CoverageIssue>,
+  settings: ScoringSettings
+): number | null {
+  let checkedWeight = 0;
+  let passedWeight = 0;
+  let checkedCategories = 0;
+
+  for (const category of SCORE_CATEGORIES) {
+    const categoryIssues = issues.filter(
+      (issue) => issue.category === category
+    );
+    if (categoryIssues.length === 0) continue;
+
+    const weight = toWeight(settings.categoryWeights[category], 1);
+    checkedCategories++;
+    checkedWeight += weight;
+    if (!categoryIssues.some(isViolation)) {
+      passedWeight += weight;
+    }
+  }
+
+  if (checkedWeight > 0) return passedWeight / checkedWeight;
+  if (checkedCategories > 0) return null;
+  // Layers without category checks keep their plain compliant result.
+  return issues.some(isViolation) ? 0 : 1;
+}
+
+export function describeScoreFormula(settings: ScoringSettings): string {
+  const layerWeight = [
+    "typeWeight",
+    settings.sizeWeighting === "area" ? "area(px²)" : null,
+    settings.sizeWeighting === "depth" ? "1 / (depth + 1)" : null,
+  ]
+    .filter(Boolean)
+    .join(" × ");
+  const categories = SCORE_CATEGORIES.map(
+    (category) =>
+      `${category} ${toWeight(settings.categoryWeights[category], 1)}`
+  ).join(", ");
+  const types = Object.keys(settings.nodeTypeWeights)
+    .map((type) => `${type} ${settings.nodeTypeWeights[type]}`)
+    .join(", ");
+
+  return [
+    `score = Σ(w × compliance) / Σ(w), w = ${layerWeight}`,
+    "compliance = Σ(categoryWeight of passing categories) / Σ(categoryWeight of checked categories)",
+    `categoryWeight: ${categories}`,
+    `typeWeight: ${types || "1 for all types"}`,
+    settings.excludeHidden
+      ? "hidden and 0% opacity layers excluded"
+      : "hidden layers included",
+  ].join("; ");
+}
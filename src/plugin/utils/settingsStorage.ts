@@ -0,0 +1,291 @@
+/// <reference types="@figma/plugin-typings" />
+
+import { sanitizeRuleSettings } from "./rules";
+
+// Analysis settings are layered: plugin defaults, then the team's settings
+// stored in the document (shared with everyone who opens the file), then each
+// user's personal overrides for that document in client storage. Only values
+// that differ from the layer below are stored, so new defaults still reach
+// documents that never changed them.
+export type SettingsLayer = Record<string, unknown>;
+
+// Where a settings change is saved
+export type SettingsTarget = "document" | "personal";
+
+// Named sets of team settings, e.g. for product UI and marketing pages. The
+// active profile is the team settings layer of the document.
+export interface SettingsProfiles {
+  active: string;
+  profiles: Record<string, SettingsLayer>;
+}
+
+export const DEFAULT_PROFILE_NAME = "Default";
+
+// Exported profiles are versioned so later formats can still read them
+const PROFILE_FILE_FORMAT = "ds-coverage-profile";
+const PROFILE_FILE_VERSION = 1;
+
+// Shared plugin data namespace for everything the plugin stores in documents
+export const SHARED_NAMESPACE = "ds_coverage";
+// Plugin data is limited to 100 kB per node
+export const MAX_SHARED_DATA_SIZE = 90000;
+const SHARED_SETTINGS_KEY = "analysisSettings";
+const DOCUMENT_ID_KEY = "documentId";
+const PERSONAL_SETTINGS_PREFIX = "analysis-settings:";
+
+// Records whose entries are layered one by one, so overriding one rule keeps
+// the team's configuration of the others.
+const ENTRY_LAYERED_KEYS = ["rules"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function layerSettings<T extends object>(
+  base: T,
+  overrides: SettingsLayer
+): T {
+  const layered: SettingsLayer = { ...(base as SettingsLayer) };
+  Object.keys(overrides).forEach((key) => {
+    const baseValue = layered[key];
+    const value = overrides[key];
+    layered[key] =
+      ENTRY_LAYERED_KEYS.includes(key) && isRecord(baseValue) && isRecord(value)
+        ? { ...baseValue, ...value }
+        : value;
+  });
+  return layered as T;
+}
+
+// The values of settings that differ from base
+export function diffSettings(base: object, settings: object): SettingsLayer {
+  const baseValues = base as SettingsLayer;
+  const values = settings as SettingsLayer;
+  const diff: SettingsLayer = {};
+  Object.keys(values).forEach((key) => {
+    const value = values[key];
+    const baseValue = baseValues[key];
+    if (ENTRY_LAYERED_KEYS.includes(key) && isRecord(value)) {
+      const baseEntries = isRecord(baseValue) ? baseValue : {};
+      const entries: Record<string, unknown> = {};
+      Object.keys(value).forEach((entry) => {
+        if (!isEqual(baseEntries[entry], value[entry])) {
+          entries[entry] = value[entry];
+        }
+      });
+      if (Object.keys(entries).length > 0) diff[key] = entries;
+    } else if (!isEqual(baseValue, value)) {
+      diff[key] = value;
+    }
+  });
+  return diff;
+}
+
+// Drops the values (or layered entries) that are set in removed
+export function omitSettings(
+  overrides: SettingsLayer,
+  removed: SettingsLayer
+): SettingsLayer {
+  const remaining: SettingsLayer = { ...overrides };
+  Object.keys(removed).forEach((key) => {
+    const entries = remaining[key];
+    const removedEntries = removed[key];
+    if (
+      ENTRY_LAYERED_KEYS.includes(key) &&
+      isRecord(entries) &&
+      isRecord(removedEntries)
+    ) {
+      const kept = { ...entries };
+      Object.keys(removedEntries).forEach((entry) => delete kept[entry]);
+      if (Object.keys(kept).length > 0) {
+        remaining[key] = kept;
+        return;
+      }
+    }
+    delete remaining[key];
+  });
+  return remaining;
+}
+
+// Names of the overridden settings, with layered entries as "rules.<id>"
+export function listOverriddenSettings(overrides: SettingsLayer): string[] {
+  const names: string[] = [];
+  Object.keys(overrides).forEach((key) => {
+    const value = overrides[key];
+    if (ENTRY_LAYERED_KEYS.includes(key) && isRecord(value)) {
+      Object.keys(value).forEach((entry) => names.push(`${key}.${entry}`));
+    } else {
+      names.push(key);
+    }
+  });
+  return names;
+}
+
+export function readSettingsProfiles(): SettingsProfiles {
+  const stored = figma.root.getSharedPluginData(
+    SHARED_NAMESPACE,
+    SHARED_SETTINGS_KEY
+  );
+  let parsed: unknown = {};
+  try {
+    parsed = stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.warn("Ignoring unreadable document settings:", error);
+  }
+
+  // Documents saved before profiles hold a single set of settings
+  if (!isRecord(parsed) || !isRecord(parsed.profiles)) {
+    return {
+      active: DEFAULT_PROFILE_NAME,
+      profiles: { [DEFAULT_PROFILE_NAME]: isRecord(parsed) ? parsed : {} },
+    };
+  }
+
+  const profiles: Record<string, SettingsLayer> = {};
+  Object.entries(parsed.profiles).forEach(([name, settings]) => {
+    if (isRecord(settings)) profiles[name] = settings;
+  });
+  const names = Object.keys(profiles);
+  if (names.length === 0) {
+    return {
+      active: DEFAULT_PROFILE_NAME,
+      profiles: { [DEFAULT_PROFILE_NAME]: {} },
+    };
+  }
+  const active =
+    typeof parsed.active === "string" && profiles[parsed.active]
+      ? parsed.active
+      : names[0];
+  return { active, profiles };
+}
+
+export function writeSettingsProfiles(profiles: SettingsProfiles) {
+  figma.root.setSharedPluginData(
+    SHARED_NAMESPACE,
+    SHARED_SETTINGS_KEY,
+    JSON.stringify(profiles)
+  );
+}
+
+export function createProfileFile(
+  name: string,
+  settings: SettingsLayer
+): string {
+  return JSON.stringify(
+    {
+      format: PROFILE_FILE_FORMAT,
+      version: PROFILE_FILE_VERSION,
+      name,
+      settings,
+    },
+    null,
+    2
+  );
+}
+
+// The value in the shape of fallback, which falls back when the types
+// differ. Records are merged key by key, except those without default entries
+// (e.g. rules) which keep their own; list settings hold strings.
+function conformSetting(fallback: unknown, value: unknown): unknown {
+  if (Array.isArray(fallback)) {
+    return Array.isArray(value) &&
+      value.every((item) => typeof item === "string")
+      ? value
+      : fallback;
+  }
+  if (isRecord(fallback)) {
+    if (!isRecord(value)) return fallback;
+    if (Object.keys(fallback).length === 0) return value;
+    const conformed: Record<string, unknown> = {};
+    Object.keys(fallback).forEach((key) => {
+      conformed[key] =
+        key in value
+          ? conformSetting(fallback[key], value[key])
+          : fallback[key];
+    });
+    return conformed;
+  }
+  return typeof value === typeof fallback ? value : fallback;
+}
+
+// Reads an exported profile, keeping only the settings known in defaults and
+// falling back to the default for values of the wrong type; rule entries are
+// checked one by one. Throws when the file isn't a profile.
+export function parseProfileFile(
+  contents: string,
+  defaults: object
+): { name: string; settings: SettingsLayer } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(contents);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  if (
+    !isRecord(parsed) ||
+    parsed.format !== PROFILE_FILE_FORMAT ||
+    !isRecord(parsed.settings)
+  ) {
+    throw new Error("The file is not a rule profile");
+  }
+  if (
+    typeof parsed.version !== "number" ||
+    parsed.version > PROFILE_FILE_VERSION
+  ) {
+    throw new Error("The profile was exported by a newer plugin version");
+  }
+
+  const defaultValues = defaults as SettingsLayer;
+  const settings: SettingsLayer = {};
+  Object.entries(parsed.settings).forEach(([key, value]) => {
+    if (key === "rules") {
+      settings[key] = sanitizeRuleSettings(value);
+    } else if (key in defaultValues) {
+      settings[key] = conformSetting(defaultValues[key], value);
+    }
+  });
+  const name =
+    typeof parsed.name === "string" && parsed.name.trim()
+      ? parsed.name.trim()
+      : "Imported Profile";
+  return { name, settings };
+}
+
+// Client storage is per user but not per file, so personal settings are kept
+// under an id stored in the document. The id is only created once a user saves
+// personal settings.
+function getDocumentId(create: boolean): string {
+  let id = figma.root.getSharedPluginData(SHARED_NAMESPACE, DOCUMENT_ID_KEY);
+  if (!id && create) {
+    id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+    figma.root.setSharedPluginData(SHARED_NAMESPACE, DOCUMENT_ID_KEY, id);
+  }
+  return id;
+}
+
+export async function readPersonalSettings(): Promise<SettingsLayer> {
+  const documentId = getDocumentId(false);
+  if (!documentId) return {};
+  const stored = await figma.clientStorage.getAsync(
+    PERSONAL_SETTINGS_PREFIX + documentId
+  );
+  return isRecord(stored) ? stored : {};
+}
+
+export async function writePersonalSettings(settings: SettingsLayer) {
+  const hasSettings = Object.keys(settings).length > 0;
+  const documentId = getDocumentId(hasSettings);
+  if (!documentId) return;
+  if (hasSettings) {
+    await figma.clientStorage.setAsync(
+      PERSONAL_SETTINGS_PREFIX + documentId,
+      settings
+    );
+  } else {
+    await figma.clientStorage.deleteAsync(PERSONAL_SETTINGS_PREFIX + documentId);
+  }
+}
@@ -0,0 +1,298 @@
+/// <reference types="@figma/plugin-typings" />
+
+import { getResolvedVariableIds, isScopeAllowed } from "./variables";
+
+// An existing variable offered in place of a hard-coded value. distance is ΔE
+// (OKLab, ×100) for colors and the absolute difference in px for numbers.
+// variableId is resolved with getTokenVariable, since library variables that
+// aren't in the document yet are only imported once applied.
+export interface TokenMatch {
+  variableId: string;
+  name: string;
+  collectionName: string;
+  libraryName?: string;
+  distance: number;
+}
+
+interface TokenCandidate {
+  variableId: string;
+  name: string;
+  value: RGB | number;
+  // Scopes aren't part of library variable metadata
+  scopes: VariableScope[] | null;
+  collectionName: string;
+  libraryName?: string;
+}
+
+type TokenType = "COLOR" | "FLOAT";
+
+const MAX_MATCHES = 3;
+// Beyond this ΔE two colors are visibly different, so binding would change
+// the design rather than snap it to a token.
+const MAX_COLOR_DISTANCE = 10;
+// Numbers may be off by 2px or a quarter of the value, whichever is larger.
+const MIN_NUMBER_TOLERANCE = 2;
+const RELATIVE_NUMBER_TOLERANCE = 0.25;
+const MAX_ALIAS_DEPTH = 10;
+// Token ids of library variables known only by their metadata
+const LIBRARY_VARIABLE_PREFIX = "library:";
+
+// Candidates are loaded once per analysis, so edited variables and enabled
+// libraries are picked up by the next run.
+const candidateCache = new Map<TokenType, Promise<TokenCandidate[]>>();
+
+export function clearTokenCandidates() {
+  candidateCache.clear();
+}
+
+async function resolveValue(
+  variable: Variable,
+  depth = 0
+): Promise<{ value: VariableValue; collection: VariableCollection } | null> {
+  const collection = await figma.variables.getVariableCollectionByIdAsync(
+    variable.variableCollectionId
+  );
+  if (!collection || depth > MAX_ALIAS_DEPTH) return null;
+
+  const value =
+    variable.valuesByMode[collection.defaultModeId] ??
+    variable.valuesByMode[Object.keys(variable.valuesByMode)[0]];
+  if (
+    typeof value === "object" &&
+    value !== null &&
+    (value as VariableAlias).type === "VARIABLE_ALIAS"
+  ) {
+    const target = await figma.variables.getVariableByIdAsync(
+      (value as VariableAlias).id
+    );
+    const resolved = target ? await resolveValue(target, depth + 1) : null;
+    return resolved ? { value: resolved.value, collection } : null;
+  }
+  return { value, collection };
+}
+
+// libraryNames maps library collection keys to the name of their library
+async function toCandidate(
+  variable: Variable,
+  libraryNames: Map<string, string>
+): Promise<TokenCandidate | null> {
+  const resolved = await resolveValue(variable);
+  if (!resolved) return null;
+  const { value, collection } = resolved;
+  const candidate = {
+    variableId: variable.id,
+    name: variable.name,
+    scopes: variable.scopes,
+    collectionName: collection.name,
+    libraryName: collection.remote
+      ? libraryNames.get(collection.key)
+      : undefined,
+  };
+  if (typeof value === "number") return { ...candidate, value };
+  if (typeof value !== "object" || !("r" in value)) return null;
+  return { ...candidate, value: { r: value.r, g: value.g, b: value.b } };
+}
+
+// Library variable values can only be read by importing the variable, which
+// adds it to the document. Number tokens are matched by the value in their
+// name instead, e.g. "spacing/16".
+function getNameValue(name: string): number | null {
+  const match = name.match(/(\d+(?:\.\d+)?)$/);
+  return match ? Number(match[1]) : null;
+}
+
+async function listLibraryCollections(): Promise<LibraryVariableCollection[]> {
+  try {
+    return await figma.teamLibrary.getAvailableLibraryVariableCollectionsAsync();
+  } catch (error) {
+    // Fall back to document variables when libraries can't be reached
+    console.warn("Could not load library variables:", error);
+    return [];
+  }
+}
+
+// Each collection is loaded on its own, so one that fails doesn't hide the
+// others.
+async function loadLibraryCandidates(
+  type: TokenType,
+  collections: ReadonlyArray<LibraryVariableCollection>,
+  knownKeys: Set<string>
+): Promise<TokenCandidate[]> {
+  const candidates: TokenCandidate[] = [];
+  for (const collection of collections) {
+    try {
+      const libraryVariables =
+        await figma.teamLibrary.getVariablesInLibraryCollectionAsync(
+          collection.key
+        );
+      for (const libraryVariable of libraryVariables) {
+        if (
+          libraryVariable.resolvedType !== type ||
+          knownKeys.has(libraryVariable.key)
+        ) {
+          continue;
+        }
+        const value =
+          type === "FLOAT" ? getNameValue(libraryVariable.name) : null;
+        if (value === null) continue;
+        candidates.push({
+          variableId: LIBRARY_VARIABLE_PREFIX + libraryVariable.key,
+          name: libraryVariable.name,
+          value,
+          scopes: null,
+          collectionName: collection.name,
+          libraryName: collection.libraryName,
+        });
+      }
+    } catch (error) {
+      console.warn(`Could not load variables of "${collection.name}":`, error);
+    }
+  }
+  return candidates;
+}
+
+// Local variables and library variables already in the document, e.g. bound
+// in the analyzed frames, are matched by value; other library variables by
+// their metadata.
+async function loadCandidates(type: TokenType): Promise<TokenCandidate[]> {
+  const collections = await listLibraryCollections();
+  const libraryNames = new Map(
+    collections.map((collection) => [collection.key, collection.libraryName])
+  );
+  const candidates: TokenCandidate[] = [];
+  const knownKeys = new Set<string>();
+
+  const variables = await figma.variables.getLocalVariablesAsync(type);
+  for (const variableId of getResolvedVariableIds()) {
+    const variable = await figma.variables.getVariableByIdAsync(variableId);
+    if (variable && variable.remote && variable.resolvedType === type) {
+      variables.push(variable);
+    }
+  }
+  for (const variable of variables) {
+    if (knownKeys.has(variable.key)) continue;
+    knownKeys.add(variable.key);
+    const candidate = await toCandidate(variable, libraryNames);
+    if (candidate) candidates.push(candidate);
+  }
+
+  candidates.push(
+    ...(await loadLibraryCandidates(type, collections, knownKeys))
+  );
+  return candidates;
+}
+
+function getCandidates(type: TokenType): Promise<TokenCandidate[]> {
+  let candidates = candidateCache.get(type);
+  if (!candidates) {
+    candidates = loadCandidates(type);
+    candidateCache.set(type, candidates);
+    // A failed load is retried on the next lookup
+    candidates.catch(() => candidateCache.delete(type));
+  }
+  return candidates;
+}
+
+// The variable of a token match, importing library variables on first use.
+export async function getTokenVariable(
+  variableId: string
+): Promise<Variable | null> {
+  if (variableId.startsWith(LIBRARY_VARIABLE_PREFIX)) {
+    return figma.variables.importVariableByKeyAsync(
+      variableId.slice(LIBRARY_VARIABLE_PREFIX.length)
+    );
+  }
+  return figma.variables.getVariableByIdAsync(variableId);
+}
+
+function toLinear(channel: number): number {
+  return channel <= 0.04045
+    ? channel / 12.92
+    : Math.pow((channel + 0.055) / 1.055, 2.4);
+}
+
+function rgbToOklab(color: RGB): [number, number, number] {
+  const r = toLinear(color.r);
+  const g = toLinear(color.g);
+  const b = toLinear(color.b);
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+}
+
+export function getColorDistance(a: RGB, b: RGB): number {
+  const [l1, a1, b1] = rgbToOklab(a);
+  const [l2, a2, b2] = rgbToOklab(b);
+  return (
+    Math.sqrt(
+      Math.pow(l1 - l2, 2) + Math.pow(a1 - a2, 2) + Math.pow(b1 - b2, 2)
+    ) * 100
+  );
+}
+
+function toMatches(
+  scored: Array<{ candidate: TokenCandidate; distance: number }>
+): TokenMatch[] {
+  return scored
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_MATCHES)
+    .map(({ candidate, distance }) => ({
+      variableId: candidate.variableId,
+      name: candidate.name,
+      collectionName: candidate.collectionName,
+      libraryName: candidate.libraryName,
+      distance: Math.round(distance * 100) / 100,
+    }));
+}
+
+function isCandidateAllowed(
+  candidate: TokenCandidate,
+  allowedScopes: VariableScope[] | null
+): boolean {
+  return (
+    !allowedScopes ||
+    !candidate.scopes ||
+    isScopeAllowed({ scopes: candidate.scopes }, allowedScopes)
+  );
+}
+
+export async function findColorTokenMatches(
+  color: RGB,
+  allowedScopes: VariableScope[] | null
+): Promise<TokenMatch[]> {
+  const scored: Array<{ candidate: TokenCandidate; distance: number }> = [];
+  for (const candidate of await getCandidates("COLOR")) {
+    if (!isCandidateAllowed(candidate, allowedScopes)) continue;
+    const distance = getColorDistance(color, candidate.value as RGB);
+    if (distance <= MAX_COLOR_DISTANCE) {
+      scored.push({ candidate, distance });
+    }
+  }
+  return toMatches(scored);
+}
+
+export async function findNumberTokenMatches(
+  value: number,
+  allowedScopes: VariableScope[] | null
+): Promise<TokenMatch[]> {
+  const tolerance = Math.max(
+    MIN_NUMBER_TOLERANCE,
+    Math.abs(value) * RELATIVE_NUMBER_TOLERANCE
+  );
+  const scored: Array<{ candidate: TokenCandidate; distance: number }> = [];
+  for (const candidate of await getCandidates("FLOAT")) {
+    if (!isCandidateAllowed(candidate, allowedScopes)) continue;
+    const distance = Math.abs(value - (candidate.value as number));
+    if (distance <= tolerance) {
+      scored.push({ candidate, distance });
+    }
+  }
+  return toMatches(scored);
+}
@@ -0,0 +1,287 @@
+/// <reference types="@figma/plugin-typings" />
+
+import { createPageScanCache, visitSliced } from "./pageScans";
+
+// Typography properties that can be bound to variables instead of a text
+// style.
+export type TypographyField =
+  | "fontFamily"
+  | "fontSize"
+  | "lineHeight"
+  | "letterSpacing";
+
+export const TYPOGRAPHY_FIELDS: TypographyField[] = [
+  "fontFamily",
+  "fontSize",
+  "lineHeight",
+  "letterSpacing",
+];
+
+// A range of characters sharing the same text style and raw values.
+export interface TextSegment {
+  characters: string;
+  start: number;
+  end: number;
+  textStyleId: string;
+  fontName: FontName;
+  fontSize: number;
+  lineHeight: LineHeight;
+  letterSpacing: LetterSpacing;
+  boundFields: TypographyField[];
+}
+
+export interface TextStyleCandidate {
+  id: string;
+  name: string;
+  remote: boolean;
+  fontName: FontName;
+  fontSize: number;
+  lineHeight: LineHeight;
+  letterSpacing: LetterSpacing;
+}
+
+// A text style close to a segment's raw values. distance is 0 for an exact
+// match.
+export interface TextStyleMatch {
+  styleId: string;
+  name: string;
+  remote: boolean;
+  distance: number;
+}
+
+const MAX_MATCHES = 3;
+// Beyond this the style would visibly change the text rather than snap it.
+const MIN_MATCH_TOLERANCE = 4;
+const RELATIVE_MATCH_TOLERANCE = 0.25;
+// A different weight or italic in the same family counts as this many px.
+const FONT_STYLE_PENALTY = 2;
+
+export function getTextSegments(node: TextNode): TextSegment[] {
+  return node
+    .getStyledTextSegments([
+      "textStyleId",
+      "fontName",
+      "fontSize",
+      "lineHeight",
+      "letterSpacing",
+      "boundVariables",
+    ])
+    .map((segment) => ({
+      characters: segment.characters,
+      start: segment.start,
+      end: segment.end,
+      textStyleId: segment.textStyleId,
+      fontName: segment.fontName,
+      fontSize: segment.fontSize,
+      lineHeight: segment.lineHeight,
+      letterSpacing: segment.letterSpacing,
+      boundFields: TYPOGRAPHY_FIELDS.filter(
+        (field) => !!segment.boundVariables?.[field]
+      ),
+    }));
+}
+
+function toCandidate(style: TextStyle): TextStyleCandidate {
+  return {
+    id: style.id,
+    name: style.name,
+    remote: style.remote,
+    fontName: style.fontName,
+    fontSize: style.fontSize,
+    lineHeight: style.lineHeight,
+    letterSpacing: style.letterSpacing,
+  };
+}
+
+async function scanPageTextStyleIds(
+  page: PageNode,
+  isCancelled: () => boolean
+): Promise<string[] | null> {
+  const styleIds = new Set<string>();
+  const completed = await visitSliced(
+    page.findAllWithCriteria({ types: ["TEXT"] }),
+    async (textNode) => {
+      const ids =
+        textNode.textStyleId === figma.mixed
+          ? textNode
+              .getStyledTextSegments(["textStyleId"])
+              .map((segment) => segment.textStyleId)
+          : [textNode.textStyleId];
+      ids.forEach((styleId) => {
+        if (styleId) styleIds.add(styleId);
+      });
+    },
+    isCancelled
+  );
+  return completed ? Array.from(styleIds) : null;
+}
+
+// The text style ids used on a page, scanned again once a text style is
+// applied or removed there. Only ids are kept, so edited styles are read
+// fresh on every analysis.
+const getPageTextStyleIds = createPageScanCache(
+  scanPageTextStyleIds,
+  (change) => change.properties.includes("textStyleId")
+);
+
+// Library text styles can't be listed through the plugin API, so local
+// styles are combined with the library styles already used on the pages.
+// Stops early when isCancelled turns true.
+export async function collectTextStyles(
+  pages: ReadonlyArray<PageNode>,
+  isCancelled: () => boolean = () => false
+): Promise<TextStyleCandidate[]> {
+  const styles = new Map<string, TextStyleCandidate>();
+  for (const style of await figma.getLocalTextStylesAsync()) {
+    styles.set(style.id, toCandidate(style));
+  }
+
+  for (const page of pages) {
+    const styleIds = await getPageTextStyleIds(page, isCancelled);
+    if (!styleIds) break;
+    for (const styleId of styleIds) {
+      if (styles.has(styleId)) continue;
+      const style = await figma.getStyleByIdAsync(styleId);
+      if (style && style.type === "TEXT") {
+        styles.set(styleId, toCandidate(style as TextStyle));
+      }
+    }
+  }
+
+  return Array.from(styles.values());
+}
+
+function getLineHeightPx(lineHeight: LineHeight, fontSize: number): number {
+  if (lineHeight.unit === "PIXELS") return lineHeight.value;
+  if (lineHeight.unit === "PERCENT") return (lineHeight.value * fontSize) / 100;
+  // Figma's auto line height is roughly 120% for most fonts
+  return fontSize * 1.2;
+}
+
+function getLetterSpacingPx(
+  letterSpacing: LetterSpacing,
+  fontSize: number
+): number {
+  return letterSpacing.unit === "PIXELS"
+    ? letterSpacing.value
+    : (letterSpacing.value * fontSize) / 100;
+}
+
+function getTypographyDistance(
+  segment: TextSegment,
+  style: TextStyleCandidate
+): number | null {
+  if (segment.fontName.family !== style.fontName.family) return null;
+  const distance =
+    Math.abs(segment.fontSize - style.fontSize) +
+    Math.abs(
+      getLineHeightPx(segment.lineHeight, segment.fontSize) -
+        getLineHeightPx(style.lineHeight, style.fontSize)
+    ) /
+      2 +
+    Math.abs(
+      getLetterSpacingPx(segment.letterSpacing, segment.fontSize) -
+        getLetterSpacingPx(style.letterSpacing, style.fontSize)
+    ) +
+    (segment.fontName.style === style.fontName.style ? 0 : FONT_STYLE_PENALTY);
+  return Math.round(distance * 100) / 100;
+}
+
+// Closest text styles in the same font family, best first.
+export function findTextStyleMatches(
+  segment: TextSegment,
+  styles: ReadonlyArray<TextStyleCandidate>
+): TextStyleMatch[] {
+  const tolerance = Math.max(
+    MIN_MATCH_TOLERANCE,
+    segment.fontSize * RELATIVE_MATCH_TOLERANCE
+  );
+  const matches: TextStyleMatch[] = [];
+  for (const style of styles) {
+    const distance = getTypographyDistance(segment, style);
+    if (distance !== null && distance <= tolerance) {
+      matches.push({
+        styleId: style.id,
+        name: style.name,
+        remote: style.remote,
+        distance,
+      });
+    }
+  }
+  return matches
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_MATCHES);
+}
+
+// Line height in px rounded for display and grouping, or "auto".
+export function getDisplayLineHeight(segment: TextSegment): number | "auto" {
+  return segment.lineHeight.unit === "AUTO"
+    ? "auto"
+    : Math.round(getLineHeightPx(segment.lineHeight, segment.fontSize) * 100) /
+        100;
+}
+
+export function formatTypography(segment: TextSegment): string {
+  const lineHeight = getDisplayLineHeight(segment);
+  return `${segment.fontName.family} ${segment.fontName.style}, ${
+    segment.fontSize
+  }/${typeof lineHeight === "number" ? `${lineHeight}px` : lineHeight}`;
+}
+
+// Text ranges with the same family, weight, size and line height share a
+// text style in the fix wizard.
+export function createTypographyKey(segment: TextSegment): string {
+  return [
+    segment.fontName.family,
+    segment.fontName.style,
+    segment.fontSize,
+    getDisplayLineHeight(segment),
+  ].join("|");
+}
+
+// Reuses a local text style with the same values, or creates one named after
+// preferredName.
+export async function ensureTextStyleForSegment(
+  preferredName: string,
+  segment: TextSegment
+): Promise<TextStyle> {
+  const localStyles = await figma.getLocalTextStylesAsync();
+  const existing = localStyles.find(
+    (style) => getTypographyDistance(segment, toCandidate(style)) === 0
+  );
+  if (existing) return existing;
+
+  const baseName =
+    preferredName && preferredName.trim().length > 0
+      ? preferredName.trim()
+      : "Text Style";
+  const existingNames = new Set(localStyles.map((style) => style.name));
+  let finalName = baseName;
+  let suffix = 2;
+  while (existingNames.has(finalName)) {
+    finalName = `${baseName} ${suffix}`;
+    suffix++;
+  }
+
+  await figma.loadFontAsync(segment.fontName);
+  const style = figma.createTextStyle();
+  style.name = finalName;
+  style.fontName = segment.fontName;
+  style.fontSize = segment.fontSize;
+  style.lineHeight = segment.lineHeight;
+  style.letterSpacing = segment.letterSpacing;
+  return style;
+}
+
+export async function applyTextStyleToSegment(
+  node: TextNode,
+  segment: TextSegment,
+  style: TextStyle
+) {
+  // Both the current and the style's fonts must be loaded to edit the range
+  await Promise.all([
+    figma.loadFontAsync(segment.fontName),
+    figma.loadFontAsync(style.fontName),
+  ]);
+  await node.setRangeTextStyleIdAsync(segment.start, segment.end, style.id);
+}
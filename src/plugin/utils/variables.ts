@@ -0,0 +1,359 @@
+/// <reference types="@figma/plugin-typings" />
+
+import { isMixed } from "./mixed";
+
+// A variable bound to one property of a node, e.g. a fill color or padding.
+export interface VariableReference {
+  field: string;
+  variableId: string;
+}
+
+// The parts of a variable and its collection the rules read, so variables of
+// a serialized file resolve as well as plugin API ones.
+export type VariableInfo = Pick<
+  Variable,
+  "id" | "name" | "resolvedType" | "scopes" | "valuesByMode"
+>;
+
+export type CollectionInfo = Pick<VariableCollection, "key" | "name">;
+
+export interface ResolvedVariable {
+  variable: VariableInfo;
+  collection: CollectionInfo | null;
+}
+
+// Collections offered in settings for the approved-collections list.
+export interface VariableCollectionSummary {
+  key: string;
+  name: string;
+  libraryName?: string;
+}
+
+// Variables are resolved once per analysis; clearVariableCache() is called
+// before each run so renamed or re-scoped variables are picked up.
+const resolvedVariables = new Map<string, ResolvedVariable | null>();
+
+export function clearVariableCache() {
+  resolvedVariables.clear();
+}
+
+// Variables resolved since the cache was cleared, e.g. library variables bound
+// in the analyzed frames
+export function getResolvedVariableIds(): string[] {
+  return Array.from(resolvedVariables.keys()).filter((variableId) =>
+    resolvedVariables.get(variableId)
+  );
+}
+
+export async function resolveVariable(
+  variableId: string
+): Promise<ResolvedVariable | null> {
+  if (!resolvedVariables.has(variableId)) {
+    const variable = await figma.variables.getVariableByIdAsync(variableId);
+    const collection = variable
+      ? await figma.variables.getVariableCollectionByIdAsync(
+          variable.variableCollectionId
+        )
+      : null;
+    resolvedVariables.set(
+      variableId,
+      variable ? { variable, collection } : null
+    );
+  }
+  return resolvedVariables.get(variableId) ?? null;
+}
+
+function collectAliases(
+  references: VariableReference[],
+  field: string,
+  value: unknown
+) {
+  const aliases = Array.isArray(value) ? value : [value];
+  for (const alias of aliases) {
+    if (alias && (alias as VariableAlias).type === "VARIABLE_ALIAS") {
+      references.push({ field, variableId: (alias as VariableAlias).id });
+    }
+  }
+}
+
+export function getBoundVariableReferences(
+  node: SceneNode
+): VariableReference[] {
+  const references: VariableReference[] = [];
+
+  if ("fills" in node && !isMixed(node.fills)) {
+    for (const fill of node.fills as ReadonlyArray<Paint>) {
+      if (fill.type === "SOLID") {
+        collectAliases(references, "fills", fill.boundVariables?.color);
+      } else if ("gradientStops" in fill) {
+        for (const stop of fill.gradientStops) {
+          collectAliases(references, "fills", stop.boundVariables?.color);
+        }
+      }
+    }
+  }
+
+  if ("strokes" in node && Array.isArray(node.strokes)) {
+    for (const stroke of node.strokes as ReadonlyArray<Paint>) {
+      if (stroke.type === "SOLID") {
+        collectAliases(references, "strokes", stroke.boundVariables?.color);
+      } else if ("gradientStops" in stroke) {
+        for (const stop of stroke.gradientStops) {
+          collectAliases(references, "strokes", stop.boundVariables?.color);
+        }
+      }
+    }
+  }
+
+  if ("effects" in node && node.effects) {
+    for (const effect of node.effects) {
+      const bound = (effect as { boundVariables?: Record<string, unknown> })
+        .boundVariables;
+      if (!bound) continue;
+      Object.keys(bound).forEach((field) =>
+        collectAliases(
+          references,
+          field === "color" ? "effectColor" : "effectFloat",
+          bound[field]
+        )
+      );
+    }
+  }
+
+  // Paint and effect bindings were read from the paints themselves above.
+  const nodeBindings = (node.boundVariables ?? {}) as Record<string, unknown>;
+  Object.keys(nodeBindings).forEach((field) => {
+    if (["fills", "strokes", "effects", "componentProperties"].includes(field)) {
+      return;
+    }
+    collectAliases(references, field, nodeBindings[field]);
+  });
+
+  return references;
+}
+
+const FRAME_LIKE_TYPES = ["FRAME", "COMPONENT", "COMPONENT_SET", "INSTANCE"];
+
+const FIELD_SCOPES: Record<string, VariableScope[]> = {
+  strokes: ["STROKE_COLOR"],
+  effectColor: ["EFFECT_COLOR"],
+  effectFloat: ["EFFECT_FLOAT"],
+  itemSpacing: ["GAP"],
+  counterAxisSpacing: ["GAP"],
+  paddingLeft: ["GAP"],
+  paddingRight: ["GAP"],
+  paddingTop: ["GAP"],
+  paddingBottom: ["GAP"],
+  cornerRadius: ["CORNER_RADIUS"],
+  topLeftRadius: ["CORNER_RADIUS"],
+  topRightRadius: ["CORNER_RADIUS"],
+  bottomLeftRadius: ["CORNER_RADIUS"],
+  bottomRightRadius: ["CORNER_RADIUS"],
+  width: ["WIDTH_HEIGHT"],
+  height: ["WIDTH_HEIGHT"],
+  minWidth: ["WIDTH_HEIGHT"],
+  maxWidth: ["WIDTH_HEIGHT"],
+  minHeight: ["WIDTH_HEIGHT"],
+  maxHeight: ["WIDTH_HEIGHT"],
+  opacity: ["OPACITY"],
+  strokeWeight: ["STROKE_FLOAT"],
+  strokeTopWeight: ["STROKE_FLOAT"],
+  strokeRightWeight: ["STROKE_FLOAT"],
+  strokeBottomWeight: ["STROKE_FLOAT"],
+  strokeLeftWeight: ["STROKE_FLOAT"],
+  characters: ["TEXT_CONTENT"],
+};
+
+// Scopes that allow a variable to be bound to the field, or null when the
+// field has no scope restrictions.
+export function getAllowedScopes(
+  node: SceneNode,
+  field: string
+): VariableScope[] | null {
+  if (field === "fills") {
+    if (node.type === "TEXT") return ["ALL_FILLS", "TEXT_FILL"];
+    if (FRAME_LIKE_TYPES.includes(node.type)) {
+      return ["ALL_FILLS", "FRAME_FILL"];
+    }
+    return ["ALL_FILLS", "SHAPE_FILL"];
+  }
+  return FIELD_SCOPES[field] ?? null;
+}
+
+export function isScopeAllowed(
+  variable: Pick<VariableInfo, "scopes">,
+  allowedScopes: VariableScope[]
+): boolean {
+  return variable.scopes.some(
+    (scope) => scope === "ALL_SCOPES" || allowedScopes.includes(scope)
+  );
+}
+
+// Semantic tokens alias other variables in at least one mode; primitives hold
+// raw values.
+export function isAliasVariable(variable: VariableInfo): boolean {
+  return Object.keys(variable.valuesByMode).some((modeId) => {
+    const value = variable.valuesByMode[modeId] as VariableAlias;
+    return (
+      typeof value === "object" && value !== null && value.type === "VARIABLE_ALIAS"
+    );
+  });
+}
+
+export async function listVariableCollections(): Promise<
+  VariableCollectionSummary[]
+> {
+  const collections: VariableCollectionSummary[] = [];
+  const localCollections =
+    await figma.variables.getLocalVariableCollectionsAsync();
+  for (const collection of localCollections) {
+    collections.push({ key: collection.key, name: collection.name });
+  }
+
+  try {
+    const libraryCollections =
+      await figma.teamLibrary.getAvailableLibraryVariableCollectionsAsync();
+    for (const collection of libraryCollections) {
+      collections.push({
+        key: collection.key,
+        name: collection.name,
+        libraryName: collection.libraryName,
+      });
+    }
+  } catch (error) {
+    // Library access can fail offline; local collections are still usable
+    console.warn("Could not load library variable collections:", error);
+  }
+
+  return collections;
+}
+
+// Where the fix wizard creates variables: an existing local collection, or a
+// new collection by name. An empty target keeps the old default of the first
+// local collection, or a new "Design System" collection.
+export interface VariableTarget {
+  collectionId?: string;
+  collectionName?: string;
+}
+
+// Local collections offered as fix targets, with their modes and existing
+// variable names for conflict checks.
+export interface VariableTargetCollection {
+  id: string;
+  name: string;
+  modes: Array<{ modeId: string; name: string }>;
+  variables: Array<{ name: string; resolvedType: VariableResolvedDataType }>;
+}
+
+export interface VariableConflict {
+  name: string;
+  existingType: VariableResolvedDataType;
+  requestedType: VariableResolvedDataType;
+}
+
+export async function listTargetCollections(): Promise<
+  VariableTargetCollection[]
+> {
+  const [collections, variables] = await Promise.all([
+    figma.variables.getLocalVariableCollectionsAsync(),
+    figma.variables.getLocalVariablesAsync(),
+  ]);
+  return collections.map((collection) => ({
+    id: collection.id,
+    name: collection.name,
+    modes: collection.modes.map((mode) => ({
+      modeId: mode.modeId,
+      name: mode.name,
+    })),
+    variables: variables
+      .filter((variable) => variable.variableCollectionId === collection.id)
+      .map((variable) => ({
+        name: variable.name,
+        resolvedType: variable.resolvedType,
+      })),
+  }));
+}
+
+export async function getTargetCollection(
+  target: VariableTarget = {}
+): Promise<VariableCollection> {
+  if (target.collectionId) {
+    const collection = await figma.variables.getVariableCollectionByIdAsync(
+      target.collectionId
+    );
+    if (!collection || collection.remote) {
+      throw new Error("The selected variable collection is not available");
+    }
+    return collection;
+  }
+
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+  if (target.collectionName) {
+    return (
+      collections.find(
+        (collection) => collection.name === target.collectionName
+      ) ?? figma.variables.createVariableCollection(target.collectionName)
+    );
+  }
+  return collections.length > 0
+    ? collections[0]
+    : figma.variables.createVariableCollection("Design System");
+}
+
+export async function getCollectionVariables(
+  collection: VariableCollection
+): Promise<Variable[]> {
+  const variables = await figma.variables.getLocalVariablesAsync();
+  return variables.filter(
+    (variable) => variable.variableCollectionId === collection.id
+  );
+}
+
+// Same-named variables of another type can't be reused for the binding, so
+// they are reported instead of being picked up silently.
+export function findVariableConflicts(
+  variables: ReadonlyArray<Variable>,
+  names: ReadonlyArray<string>,
+  resolvedType: VariableResolvedDataType
+): VariableConflict[] {
+  const conflicts: VariableConflict[] = [];
+  for (const name of names) {
+    const existing = variables.find((variable) => variable.name === name);
+    if (
+      existing &&
+      existing.resolvedType !== resolvedType &&
+      !conflicts.some((conflict) => conflict.name === name)
+    ) {
+      conflicts.push({
+        name,
+        existingType: existing.resolvedType,
+        requestedType: resolvedType,
+      });
+    }
+  }
+  return conflicts;
+}
+
+export function describeVariableConflicts(
+  conflicts: ReadonlyArray<VariableConflict>
+): string {
+  return conflicts
+    .map(
+      (conflict) =>
+        `"${conflict.name}" is a ${conflict.existingType.toLowerCase()} variable, not ${conflict.requestedType.toLowerCase()}`
+    )
+    .join("; ");
+}
+
+// Writes the value to every mode of the collection, using per-mode overrides
+// (e.g. a dark mode color) where given.
+export function setValueForModes(
+  variable: Variable,
+  collection: VariableCollection,
+  value: VariableValue,
+  modeValues: Record<string, VariableValue> = {}
+) {
+  for (const mode of collection.modes) {
+    variable.setValueForMode(mode.modeId, modeValues[mode.modeId] ?? value);
+  }
+}
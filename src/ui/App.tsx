@@ -10,6 +10,7 @@ import "./styles.css";
 import SummaryView from "./components/SummaryView";
 import DetailedView from "./components/DetailedView";
 import SettingsView from "./components/SettingsView";
+import HistoryView from "./components/HistoryView";
 import ErrorMessage from "./components/ErrorMessage";
 import ProgressIndicator from "./components/ProgressIndicator";
 import FixWizard from "./components/FixWizard";
@@ -25,10 +26,35 @@ import {
   NamingTemplate,
   LayerNamingRule,
   AIRenameDebugEvent,
+  AnalysisScope,
+  CategoryBreakdown,
+  CoverageIssue,
+  CoverageThresholds,
+  ExemptLayer,
+  InstanceInternalsPolicy,
+  PropertyBreakdown,
+  QualityGateVerdict,
+  RuleDescriptor,
+  RuleSettings,
+  ScoreFormula,
+  ScoringSettings,
+  SettingsScope,
+  SettingsTarget,
 } from "./types";
 import { AIRenameService } from "./utils/aiRenameService";
+import { formatIssue, isViolation } from "./utils/issues";
+import { applyAnalysisDelta } from "./utils/analysisDelta";
+import {
+  ComparisonBase,
+  parseAnalysisFile,
+} from "./utils/analysisComparison";
 
-type ViewType = "summary" | "detailed" | "settings" | "ai-rename";
+type ViewType =
+  | "summary"
+  | "detailed"
+  | "history"
+  | "settings"
+  | "ai-rename";
 
 // For local testing, use http://localhost:3001
 // For production, replace with your Vercel deployment URL
@@ -67,22 +93,35 @@ interface CoverageAnalysis {
     componentCoverage: number;
     tokenCoverage: number;
     styleCoverage: number;
+    attachedInstanceCoverage: number;
+    unmodifiedInstanceCoverage: number;
+    detachedInstances: number;
+    overriddenInstances: number;
     totalLayers: number;
     compliantLayers: number;
+    exemptLayers: number;
+    newIssues: number;
+    baselineIssues: number;
+    baselineRecordedAt?: number;
+    verdict?: QualityGateVerdict;
     analyzedFrameName: string;
+    analyzedFrameId?: string;
   };
   details: {
     byType: Record<
       string,
       { total: number; compliant: number; percentage: number }
     >;
+    byCategory: CategoryBreakdown;
+    byProperty: PropertyBreakdown;
     nonCompliantLayers: Array<{
       id: string;
       name: string;
       type: string;
-      issues: string[];
+      issues: CoverageIssue[];
       path: string;
     }>;
+    exemptLayers: ExemptLayer[];
     suggestions?: {
       autoLayout?: Array<{
         id: string;
@@ -93,6 +132,9 @@ interface CoverageAnalysis {
     };
   };
   settings: any;
+  scoring: ScoreFormula;
+  scope?: AnalysisScope;
+  frames?: CoverageAnalysis[];
 }
 
 interface Settings {
@@ -101,6 +143,15 @@ interface Settings {
   checkStyles: boolean;
   allowLocalStyles: boolean;
   ignoredTypes: string[];
+  rules: RuleSettings;
+  scoring: ScoringSettings;
+  approvedCollectionKeys: string[];
+  liveUpdates: boolean;
+  recordHistory: boolean;
+  thresholds: CoverageThresholds;
+  instanceInternals: InstanceInternalsPolicy;
+  exemptNamePrefixes: string[];
+  exemptComponentKeys: string[];
 }
 
 interface PendingRenameChunk {
@@ -327,22 +378,53 @@ function normalizeModel(value: string | undefined): string | undefined {
 function App() {
   const [view, setView] = useState<ViewType>("summary");
   const [analysis, setAnalysis] = useState<CoverageAnalysis | null>(null);
+  const [analysisScope, setAnalysisScope] =
+    useState<AnalysisScope>("selection");
+  const analysisScopeRef = useRef<AnalysisScope>("selection");
   const [settings, setSettings] = useState<Settings>({
     checkComponents: true,
     checkTokens: true,
     checkStyles: true,
     allowLocalStyles: false,
     ignoredTypes: [],
+    rules: {},
+    scoring: {
+      categoryWeights: { component: 1, token: 1, style: 1 },
+      nodeTypeWeights: {},
+      sizeWeighting: "none",
+      excludeHidden: false,
+    },
+    approvedCollectionKeys: [],
+    liveUpdates: true,
+    recordHistory: true,
+    thresholds: {},
+    instanceInternals: "descend",
+    exemptNamePrefixes: [],
+    exemptComponentKeys: [],
+  });
+  const [ruleCatalog, setRuleCatalog] = useState<RuleDescriptor[]>([]);
+  const [settingsScope, setSettingsScope] = useState<SettingsScope>({
+    hasSharedSettings: false,
+    personalOverrides: [],
+    activeProfile: "Default",
+    profiles: ["Default"],
   });
+  const [settingsTarget, setSettingsTarget] =
+    useState<SettingsTarget>("document");
+  const [comparisonBase, setComparisonBase] = useState<ComparisonBase | null>(
+    null
+  );
   const [error, setError] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [progressPercent, setProgressPercent] = useState<number | null>(null);
   const [showFixWizard, setShowFixWizard] = useState(false);
   const [selectedFixLayer, setSelectedFixLayer] = useState<any>(null);
   const [showDebugView, setShowDebugView] = useState(false);
   const [debugData, setDebugData] = useState<any>(null);
   const [showSuccessMessage, setShowSuccessMessage] = useState(false);
   const [hasSelection, setHasSelection] = useState(false);
+  const [selectedFrameId, setSelectedFrameId] = useState<string | null>(null);
   const [isAIRenaming, setIsAIRenaming] = useState(false);
   const [aiRenameProgress, setAIRenameProgress] = useState({
     current: 0,
@@ -373,6 +455,14 @@ function App() {
 
   const aiRenameServiceRef = useRef<AIRenameService | null>(null);
 
+  useEffect(() => {
+    analysisScopeRef.current = analysisScope;
+    window.parent.postMessage(
+      { pluginMessage: { type: "set-analysis-scope", scope: analysisScope } },
+      "*"
+    );
+  }, [analysisScope]);
+
   const persistAIRenameConfigToPlugin = (config: AIRenameConfig) => {
     setAIRenameConfig(config);
     window.parent.postMessage(
@@ -421,16 +511,28 @@ function App() {
 
   const handleAnalyze = () => {
     window.parent.postMessage(
-      { pluginMessage: { type: "analyze-selection" } },
+      { pluginMessage: { type: "analyze-selection", scope: analysisScope } },
       "*"
     );
   };
 
   const handleUpdateSettings = (newSettings: Partial<Settings>) => {
-    const updated = { ...settings, ...newSettings };
-    setSettings(updated);
+    setSettings({ ...settings, ...newSettings });
     window.parent.postMessage(
-      { pluginMessage: { type: "update-settings", settings: updated } },
+      {
+        pluginMessage: {
+          type: "update-settings",
+          settings: newSettings,
+          target: settingsTarget,
+        },
+      },
+      "*"
+    );
+  };
+
+  const handleResetPersonalSettings = () => {
+    window.parent.postMessage(
+      { pluginMessage: { type: "reset-personal-settings" } },
       "*"
     );
   };
@@ -622,18 +724,32 @@ function App() {
       if (msg.type === "analysis-started") {
         setIsAnalyzing(true);
         setProgress(0);
+        setProgressPercent(null);
         setError(null);
       } else if (msg.type === "analysis-progress") {
         setProgress(msg.progress);
+        setProgressPercent(msg.percent ?? null);
+      } else if (msg.type === "analysis-cancelled") {
+        setIsAnalyzing(false);
       } else if (msg.type === "analysis-complete") {
         setAnalysis(msg.data);
         setIsAnalyzing(false);
         setView("summary");
+      } else if (msg.type === "analysis-delta") {
+        setAnalysis((previous) =>
+          previous ? applyAnalysisDelta(previous, msg.delta) : previous
+        );
       } else if (msg.type === "error") {
         setError(msg.message);
         setIsAnalyzing(false);
       } else if (msg.type === "settings-updated") {
         setSettings(msg.settings);
+        if (msg.rules) {
+          setRuleCatalog(msg.rules);
+        }
+        if (msg.settingsScope) {
+          setSettingsScope(msg.settingsScope);
+        }
       } else if (msg.type === "fix-applied") {
         setShowFixWizard(false);
         setSelectedFixLayer(null);
@@ -644,10 +760,11 @@ function App() {
         setShowDebugView(true);
       } else if (msg.type === "selection-changed") {
         setHasSelection(Boolean(msg.nodeId));
+        setSelectedFrameId(msg.nodeId);
         if (!msg.nodeId) {
-          setAnalysis(null);
-          setView("summary");
-        } else {
+          // Page and multi-frame reports don't depend on the current selection
+          setAnalysis((previous) => (previous?.frames ? previous : null));
+        } else if (analysisScopeRef.current === "selection") {
           window.parent.postMessage(
             { pluginMessage: { type: "analyze-selection" } },
             "*"
@@ -847,6 +964,55 @@ function App() {
     );
   };
 
+  const handleExemptLayer = (layerId: string, reason: string) => {
+    window.parent.postMessage(
+      { pluginMessage: { type: "set-layer-exemption", layerId, reason } },
+      "*"
+    );
+  };
+
+  const handleClearExemption = (layerId: string) => {
+    window.parent.postMessage(
+      { pluginMessage: { type: "clear-layer-exemption", layerId } },
+      "*"
+    );
+  };
+
+  const handleUpdateBaseline = (frameIds: string[], record: boolean) => {
+    window.parent.postMessage(
+      {
+        pluginMessage: {
+          type: record ? "record-baseline" : "clear-baseline",
+          frameIds,
+        },
+      },
+      "*"
+    );
+  };
+
+  const handleSaveSnapshot = () => {
+    if (!analysis) return;
+    setComparisonBase({
+      label: `Snapshot of ${new Date().toLocaleTimeString()}`,
+      analysis,
+    });
+  };
+
+  const handleImportComparison = (fileName: string, contents: string) => {
+    try {
+      setComparisonBase({
+        label: fileName,
+        analysis: parseAnalysisFile(contents),
+      });
+    } catch (error) {
+      setError(
+        `Failed to import report: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  };
+
   const handleExportDebug = () => {
     window.parent.postMessage(
       { pluginMessage: { type: "export-debug-data" } },
@@ -873,7 +1039,9 @@ function App() {
       <header className="header">
         {analysis ? (
           <div className="title-with-frame">
-            <div className="title-label">Analyzing Frame:</div>
+            <div className="title-label">
+              {analysis.frames ? "Analyzing:" : "Analyzing Frame:"}
+            </div>
             <h1 className="title frame-name">
               {analysis.summary.analyzedFrameName}
             </h1>
@@ -903,6 +1071,17 @@ function App() {
           >
             ✨ AI Rename
           </button>
+          <select
+            className="filter-input scope-select"
+            value={analysisScope}
+            onChange={(e) => setAnalysisScope(e.target.value as AnalysisScope)}
+            disabled={isAnalyzing}
+            title="What to analyze"
+          >
+            <option value="selection">Selection</option>
+            <option value="page">Current page</option>
+            <option value="document">Whole document</option>
+          </select>
           <button
             className="btn btn-primary"
             onClick={handleAnalyze}
@@ -912,6 +1091,10 @@ function App() {
               ? "Analyzing..."
               : analysis
               ? "Re-run Analysis"
+              : analysisScope === "page"
+              ? "Analyze Page"
+              : analysisScope === "document"
+              ? "Analyze Document"
               : "Analyze Selection"}
           </button>
         </div>
@@ -928,7 +1111,18 @@ function App() {
         </div>
       )}
 
-      {isAnalyzing && <ProgressIndicator progress={progress} />}
+      {isAnalyzing && (
+        <ProgressIndicator
+          progress={progress}
+          percent={progressPercent}
+          onCancel={() =>
+            window.parent.postMessage(
+              { pluginMessage: { type: "cancel-analysis" } },
+              "*"
+            )
+          }
+        />
+      )}
 
       {!isAnalyzing && analysis && (
         <>
@@ -945,6 +1139,12 @@ function App() {
             >
               Detailed Report
             </button>
+            <button
+              className={`tab ${view === "history" ? "active" : ""}`}
+              onClick={() => setView("history")}
+            >
+              History
+            </button>
             <button
               className={`tab ${view === "settings" ? "active" : ""}`}
               onClick={() => setView("settings")}
@@ -961,7 +1161,18 @@ function App() {
 
           <main className="content">
             {view === "summary" && (
-              <SummaryView analysis={analysis} onExport={handleExport} />
+              <SummaryView
+                analysis={analysis}
+                onExport={handleExport}
+                onSelectLayer={handleSelectLayer}
+                onClearExemption={handleClearExemption}
+                comparisonBase={comparisonBase}
+                onSaveSnapshot={handleSaveSnapshot}
+                onImportComparison={handleImportComparison}
+                onClearComparison={() => setComparisonBase(null)}
+                onUpdateBaseline={handleUpdateBaseline}
+                selectedFrameId={selectedFrameId}
+              />
             )}
             {view === "detailed" && (
               <DetailedView
@@ -972,14 +1183,21 @@ function App() {
                   setShowFixWizard(true);
                 }}
                 onConvertToAutoLayout={handleConvertToAutoLayout}
+                onExemptLayer={handleExemptLayer}
                 onExportDebug={handleExportDebug}
                 onRefresh={handleAnalyze}
               />
             )}
+            {view === "history" && <HistoryView analysis={analysis} />}
             {view === "settings" && (
               <SettingsView
                 settings={settings}
+                rules={ruleCatalog}
                 onUpdateSettings={handleUpdateSettings}
+                settingsScope={settingsScope}
+                settingsTarget={settingsTarget}
+                onChangeSettingsTarget={setSettingsTarget}
+                onResetPersonalSettings={handleResetPersonalSettings}
               />
             )}
             {view === "ai-rename" && (
@@ -1008,7 +1226,10 @@ function App() {
         <div className="empty-state">
           <div className="empty-icon">📊</div>
           <h2>No Analysis Yet</h2>
-          <p>Select a frame and click "Analyze Selection" to get started</p>
+          <p>
+            Select one or more frames or a section and click "Analyze
+            Selection", or switch to page or document scope
+          </p>
           <div className="features">
             <div className="feature">
               <strong>Component Coverage</strong>
@@ -1084,17 +1305,24 @@ function exportJSON(analysis: CoverageAnalysis) {
 
 function exportCSV(analysis: CoverageAnalysis) {
   const rows = [
-    ["Layer Name", "Type", "Path", "Issues"],
+    ["Layer Name", "Type", "Path", "Rules", "Issues"],
     ...analysis.details.nonCompliantLayers.map((layer) => [
       layer.name,
       layer.type,
       layer.path,
-      layer.issues.join("; "),
+      layer.issues
+        .filter(isViolation)
+        .map((issue) => issue.ruleId)
+        .join("; "),
+      layer.issues.map(formatIssue).join("; "),
     ]),
   ];
 
+  // Quotes inside a cell are doubled, e.g. in layer names or issue messages
   const csvContent = rows
-    .map((row) => row.map((cell) => `"${cell}"`).join(","))
+    .map((row) =>
+      row.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(",")
+    )
     .join("\n");
   const blob = new Blob([csvContent], { type: "text/csv" });
   const url = URL.createObjectURL(blob);
@@ -1,4 +1,6 @@
 import React, { useState } from "react";
+import { CoverageIssue } from "../types";
+import { formatIssue } from "../utils/issues";
 
 interface DebugViewProps {
   debugData: any;
@@ -286,11 +288,13 @@ const DebugView: React.FC<DebugViewProps> = ({ debugData, onClose }) => {
                   {layer.issues.length > 0 && (
                     <div className="layer-debug-issues">
                       <strong>Issues:</strong>
-                      {layer.issues.map((issue: string, issueIdx: number) => (
-                        <div key={issueIdx} className="debug-issue">
-                          {issue}
-                        </div>
-                      ))}
+                      {layer.issues.map(
+                        (issue: CoverageIssue, issueIdx: number) => (
+                          <div key={issueIdx} className="debug-issue">
+                            {formatIssue(issue)}
+                          </div>
+                        )
+                      )}
                     </div>
                   )}
 
@@ -1,4 +1,11 @@
 import React, { useState } from "react";
+import { CoverageIssue } from "../types";
+import {
+  formatIssue,
+  getIssueClassName,
+  getIssueFixType,
+  isViolation,
+} from "../utils/issues";
 
 interface DetailedViewProps {
   analysis: {
@@ -7,7 +14,7 @@ interface DetailedViewProps {
         id: string;
         name: string;
         type: string;
-        issues: string[];
+        issues: CoverageIssue[];
         path: string;
         rawProperties?: any;
         analysis?: any;
@@ -28,11 +35,12 @@ interface DetailedViewProps {
       id: string;
       name: string;
       type: string;
-      issues: string[];
+      issues: CoverageIssue[];
       path: string;
     }>
   ) => void;
   onConvertToAutoLayout?: (layerId: string) => void;
+  onExemptLayer?: (layerId: string, reason: string) => void;
   onExportDebug?: () => void;
   onRefresh?: () => void;
 }
@@ -42,64 +50,52 @@ const DetailedView: React.FC<DetailedViewProps> = ({
   onSelectLayer,
   onFixLayer,
   onConvertToAutoLayout,
+  onExemptLayer,
   onExportDebug,
   onRefresh,
 }) => {
   const [searchTerm, setSearchTerm] = useState("");
   const [filterType, setFilterType] = useState<string>("all");
+  const [filterRule, setFilterRule] = useState<string>("all");
   const [selectedLayers, setSelectedLayers] = useState<Set<string>>(new Set());
   const [sortBy, setSortBy] = useState<"severity" | "name" | "type">(
     "severity"
   );
   const [showCompliant, setShowCompliant] = useState<boolean>(false);
+  const [exemptingLayerId, setExemptingLayerId] = useState<string | null>(
+    null
+  );
+  const [exemptReason, setExemptReason] = useState("");
+  // With a baseline, only issues introduced after it are listed by default
+  const [newSinceBaseline, setNewSinceBaseline] = useState<boolean>(true);
 
   const { nonCompliantLayers, suggestions } = analysis.details;
 
-  const hasFixableIssue = (issues: string[]) => {
-    return issues.some((issue) => {
-      if (typeof issue !== "string") {
-        return false;
-      }
-      const normalized = issue.toLowerCase();
-      const isCritical =
-        issue.includes("🔴") ||
-        issue.includes("⚠️") ||
-        issue.includes("💡 frame can use auto layout");
-      if (!isCritical) return false;
-      return (
-        normalized.includes("color") ||
-        normalized.includes("fill") ||
-        normalized.includes("stroke") ||
-        normalized.includes("token") ||
-        normalized.includes("text") ||
-        normalized.includes("spacing") ||
-        normalized.includes("corner") ||
-        normalized.includes("padding") ||
-        normalized.includes("effect") ||
-        normalized.includes("auto layout")
-      );
-    });
+  const hasFixableIssue = (issues: CoverageIssue[]) => {
+    return issues.some((issue) => getIssueFixType(issue) !== null);
   };
 
-  const isCompliant = (issues: string[]) => {
-    // Layer is compliant if it has no critical (🔴) or warning (⚠️) issues
-    return !issues.some(
-      (issue) => issue.includes("🔴") || issue.includes("⚠️")
-    );
+  const isCompliant = (issues: CoverageIssue[]) => {
+    // Layer is compliant if it has no critical or warning issues
+    return !issues.some(isViolation);
   };
 
-  const getSeverityScore = (issues: string[]) => {
+  const getSeverityScore = (issues: CoverageIssue[]) => {
     // Calculate severity: higher score = more severe
     // Non-compliant with critical issues = highest priority
     let score = 0;
-    const criticalCount = issues.filter((issue) => issue.includes("🔴")).length;
-    const warningCount = issues.filter((issue) => issue.includes("⚠️")).length;
+    const criticalCount = issues.filter(
+      (issue) => issue.severity === "critical"
+    ).length;
+    const warningCount = issues.filter(
+      (issue) => issue.severity === "warning"
+    ).length;
 
     // Critical issues: 100 points each
     score += criticalCount * 100;
     // Warning issues: 10 points each
     score += warningCount * 10;
-    // Compliant (only ✅): -1000 points (lowest priority)
+    // Compliant (only passes): -1000 points (lowest priority)
     if (isCompliant(issues)) {
       score = -1000;
     }
@@ -107,9 +103,19 @@ const DetailedView: React.FC<DetailedViewProps> = ({
     return score;
   };
 
-  const getIssues = (layer: { issues: string[] }) =>
+  const getAllIssues = (layer: { issues: CoverageIssue[] }) =>
     Array.isArray(layer.issues) ? layer.issues : [];
 
+  const hasBaseline = nonCompliantLayers.some((layer) =>
+    getAllIssues(layer).some((issue) => issue.inBaseline)
+  );
+  const hideBaselineIssues = hasBaseline && newSinceBaseline;
+
+  const getIssues = (layer: { issues: CoverageIssue[] }) =>
+    hideBaselineIssues
+      ? getAllIssues(layer).filter((issue) => !issue.inBaseline)
+      : getAllIssues(layer);
+
   const layersWithFixableIssues = nonCompliantLayers.filter((layer) =>
     hasFixableIssue(getIssues(layer))
   );
@@ -168,6 +174,21 @@ const DetailedView: React.FC<DetailedViewProps> = ({
     new Set(nonCompliantLayers.map((layer) => layer.type))
   );
 
+  // Get rules with at least one violation for the rule filter
+  const uniqueRuleIds = Array.from(
+    new Set(
+      nonCompliantLayers.reduce<string[]>(
+        (ruleIds, layer) =>
+          ruleIds.concat(
+            getIssues(layer)
+              .filter(isViolation)
+              .map((issue) => issue.ruleId)
+          ),
+        []
+      )
+    )
+  ).sort();
+
   // Filter and sort layers
   const filteredLayers = nonCompliantLayers
     .filter((layer) => {
@@ -175,14 +196,29 @@ const DetailedView: React.FC<DetailedViewProps> = ({
       if (!showCompliant && isCompliant(issues)) {
         return false;
       }
+      // Layers whose violations are all accepted in the baseline
+      if (
+        hideBaselineIssues &&
+        isCompliant(issues) &&
+        getAllIssues(layer).some((issue) => issue.inBaseline)
+      ) {
+        return false;
+      }
       const matchesSearch =
         layer.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
         layer.path?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        issues.some((issue) =>
-          issue.toLowerCase().includes(searchTerm.toLowerCase())
+        issues.some(
+          (issue) =>
+            issue.message.toLowerCase().includes(searchTerm.toLowerCase()) ||
+            issue.ruleId.includes(searchTerm.toLowerCase())
         );
       const matchesType = filterType === "all" || layer.type === filterType;
-      return matchesSearch && matchesType;
+      const matchesRule =
+        filterRule === "all" ||
+        issues.some(
+          (issue) => issue.ruleId === filterRule && isViolation(issue)
+        );
+      return matchesSearch && matchesType && matchesRule;
     })
     .sort((a, b) => {
       const issuesA = getIssues(a);
@@ -222,6 +258,16 @@ const DetailedView: React.FC<DetailedViewProps> = ({
             />
             Show compliant layers
           </label>
+          {hasBaseline && (
+            <label className="toggle-label">
+              <input
+                type="checkbox"
+                checked={newSinceBaseline}
+                onChange={(e) => setNewSinceBaseline(e.target.checked)}
+              />
+              New since baseline
+            </label>
+          )}
           {layersWithFixableIssues.length > 0 && (
             <>
               <button
@@ -295,6 +341,20 @@ const DetailedView: React.FC<DetailedViewProps> = ({
             );
           })}
         </select>
+        {uniqueRuleIds.length > 0 && (
+          <select
+            className="filter-input"
+            value={filterRule}
+            onChange={(e) => setFilterRule(e.target.value)}
+          >
+            <option value="all">All Rules</option>
+            {uniqueRuleIds.map((ruleId) => (
+              <option key={ruleId} value={ruleId}>
+                {ruleId}
+              </option>
+            ))}
+          </select>
+        )}
         <select
           className="filter-input"
           value={sortBy}
@@ -408,15 +468,10 @@ const DetailedView: React.FC<DetailedViewProps> = ({
                       {layerIssues.map((issue, idx) => (
                         <div
                           key={idx}
-                          className={`issue ${
-                            issue.includes("🔴")
-                              ? "critical"
-                              : issue.includes("⚠️")
-                              ? "warning"
-                              : "success"
-                          }`}
+                          className={`issue ${getIssueClassName(issue)}`}
+                          title={issue.suggestedFix}
                         >
-                          {issue}
+                          {formatIssue(issue)}
                         </div>
                       ))}
                     </div>
@@ -514,6 +569,20 @@ const DetailedView: React.FC<DetailedViewProps> = ({
                         📐 Auto Layout
                       </button>
                     )}
+                  {onExemptLayer && (
+                    <button
+                      className="btn btn-small btn-secondary"
+                      onClick={() => {
+                        setExemptingLayerId(
+                          exemptingLayerId === layer.id ? null : layer.id
+                        );
+                        setExemptReason("");
+                      }}
+                      title="Skip this layer and everything beneath it"
+                    >
+                      🚫 Exempt
+                    </button>
+                  )}
                   {onFixLayer && hasFixableIssue(getIssues(layer)) && (
                     <button
                       className="btn btn-small btn-primary layer-fix-btn"
@@ -526,6 +595,28 @@ const DetailedView: React.FC<DetailedViewProps> = ({
                 </div>
               </div>
 
+              {onExemptLayer && exemptingLayerId === layer.id && (
+                <div className="exemption-form">
+                  <input
+                    type="text"
+                    className="filter-input"
+                    placeholder="Reason, e.g. Marketing illustration"
+                    value={exemptReason}
+                    autoFocus
+                    onChange={(e) => setExemptReason(e.target.value)}
+                  />
+                  <button
+                    className="btn btn-small btn-primary"
+                    onClick={() => {
+                      onExemptLayer(layer.id, exemptReason);
+                      setExemptingLayerId(null);
+                    }}
+                  >
+                    Exempt Layer
+                  </button>
+                </div>
+              )}
+
               <div className="layer-issues">
                 <div className="issues-header">
                   <strong>Issues:</strong>
@@ -533,15 +624,13 @@ const DetailedView: React.FC<DetailedViewProps> = ({
                 {getIssues(layer).map((issue, idx) => (
                   <div
                     key={idx}
-                    className={`issue ${
-                      issue.includes("🔴")
-                        ? "critical"
-                        : issue.includes("⚠️")
-                        ? "warning"
-                        : "success"
-                    }`}
+                    className={`issue ${getIssueClassName(issue)}`}
+                    title={issue.suggestedFix}
                   >
-                    {issue}
+                    {formatIssue(issue)}
+                    {issue.inBaseline && (
+                      <span className="baseline-badge">baseline</span>
+                    )}
                   </div>
                 ))}
               </div>
@@ -8,15 +8,26 @@ import {
   EffectData,
   EffectStyleBinding,
   BulkEffectStyleAssignment,
+  CoverageIssue,
+  TokenMatch,
+  TypographyData,
+  GridData,
+  BulkGridStyleAssignment,
+  GradientData,
+  BulkPaintStyleAssignment,
+  BulkTextStyleAssignment,
+  VariableTarget,
+  VariableTargetCollection,
 } from "../types";
+import { getIssueFixType, IssueFixType } from "../utils/issues";
 
 interface FixWizardProps {
-  layers: Array<{ id: string; name: string; issues: string[] }>;
+  layers: Array<{ id: string; name: string; issues: CoverageIssue[] }>;
   onClose: () => void;
 }
 
 interface StyleIssue {
-  type: "color" | "text" | "spacing" | "effect" | "layout";
+  type: IssueFixType;
   description: string;
   fixable: boolean;
 }
@@ -37,13 +48,37 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
     new Map()
   );
   const [uniqueColors, setUniqueColors] = useState<
-    Array<{ color: RGB; sources: string[] }>
+    Array<{ color: RGB; sources: string[]; matches?: TokenMatch[] }>
   >([]);
   const [variableNames, setVariableNames] = useState<Record<number, string>>(
     {}
   );
+  // Chosen existing token per color/spacing row; "" creates a new variable
+  const [colorTokenChoices, setColorTokenChoices] = useState<
+    Record<number, string>
+  >({});
+  const [spacingTokenChoices, setSpacingTokenChoices] = useState<
+    Record<number, string>
+  >({});
   const [loadingLayers, setLoadingLayers] = useState<Set<string>>(new Set());
 
+  // Target collection for new variables. null keeps the default (first local
+  // collection); "" creates or reuses a collection named newCollectionName.
+  const [targetCollections, setTargetCollections] = useState<
+    VariableTargetCollection[]
+  >([]);
+  const [targetCollectionId, setTargetCollectionId] = useState<string | null>(
+    null
+  );
+  const [newCollectionName, setNewCollectionName] = useState("Design System");
+  // Values for the target's other modes per color/spacing row, keyed by modeId
+  const [colorModeValues, setColorModeValues] = useState<
+    Record<number, Record<string, RGB>>
+  >({});
+  const [spacingModeValues, setSpacingModeValues] = useState<
+    Record<number, Record<string, number>>
+  >({});
+
   // Spacing state
   const [allSpacing, setAllSpacing] = useState<Map<string, SpacingData[]>>(
     new Map()
@@ -55,6 +90,34 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
     Record<number, string>
   >({});
 
+  // Text state: un-styled ranges per layer, and per typography group the
+  // chosen style id ("" creates a new style, "skip" leaves the text as is)
+  const [allTypography, setAllTypography] = useState<
+    Map<string, TypographyData[]>
+  >(new Map());
+  const [textStyleChoices, setTextStyleChoices] = useState<
+    Record<number, string>
+  >({});
+  const [textStyleNames, setTextStyleNames] = useState<
+    Record<number, string>
+  >({});
+
+  // Layout grid state
+  const [allGrids, setAllGrids] = useState<Map<string, GridData[]>>(
+    new Map()
+  );
+  const [gridStyleNames, setGridStyleNames] = useState<
+    Record<number, string>
+  >({});
+
+  // Gradient paint style state; "skip" leaves the gradient unchanged
+  const [allGradients, setAllGradients] = useState<
+    Map<string, GradientData[]>
+  >(new Map());
+  const [paintStyleChoices, setPaintStyleChoices] = useState<
+    Record<number, string>
+  >({});
+
   // Effects state
   const [allEffects, setAllEffects] = useState<Map<string, EffectData[]>>(
     new Map()
@@ -71,62 +134,19 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
 
   // Parse and categorize issues from all layers - only show fixable ones
   const parseIssues = (): StyleIssue[] => {
-    const allIssues = layers.flatMap((layer) => layer.issues);
     const categorizedIssues: StyleIssue[] = [];
 
-    allIssues.forEach((issue) => {
-      if (
-        issue.includes("🔴") &&
-        (issue.includes("fill") || issue.includes("stroke")) &&
-        !issue.includes("gradient") && // Exclude gradient issues (not fixable)
-        !issue.includes("image") // Exclude image issues (not fixable)
-      ) {
-        categorizedIssues.push({
-          type: "color",
-          description: issue,
-          fixable: true,
-        });
-      } else if (
-        issue.includes("🔴") &&
-        issue.includes("text") &&
-        !issue.includes("local text style") // Only show if we can apply shared styles
-      ) {
-        categorizedIssues.push({
-          type: "text",
-          description: issue,
-          fixable: true,
-        });
-      } else if (
-        issue.includes("🔴") &&
-        (issue.includes("corner") ||
-          issue.includes("padding") ||
-          issue.includes("spacing"))
-      ) {
-        categorizedIssues.push({
-          type: "spacing",
-          description: issue,
-          fixable: true,
-        });
-      } else if (
-        issue.includes("🔴") &&
-        issue.includes("effect") &&
-        issue.includes("local effects instead of design tokens or styles") // Match the exact effect issue message
-      ) {
-        categorizedIssues.push({
-          type: "effect",
-          description: issue,
-          fixable: true,
-        });
-      } else if (
-        issue.includes("🔴") &&
-        issue.includes("Frame not using Auto Layout")
-      ) {
-        categorizedIssues.push({
-          type: "layout",
-          description: issue,
-          fixable: true,
-        });
-      }
+    layers.forEach((layer) => {
+      layer.issues.forEach((issue) => {
+        const fixType = getIssueFixType(issue);
+        if (fixType) {
+          categorizedIssues.push({
+            type: fixType,
+            description: issue.message,
+            fixable: true,
+          });
+        }
+      });
     });
 
     return categorizedIssues;
@@ -147,6 +167,10 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
         return "📏 Spacing & Radius";
       case "effect":
         return "✨ Effects";
+      case "grid":
+        return "🔲 Layout Grids";
+      case "paint":
+        return "🌈 Gradients";
       case "layout":
         return "📐 Layout";
       default:
@@ -161,9 +185,13 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
       case "text":
         return "Apply shared text styles";
       case "spacing":
-        return "Bind padding, margin, and corner radius to spacing tokens";
+        return "Bind padding, corner radius, stroke weights and opacity to number tokens";
       case "effect":
         return "Promote local effects into shared effect styles";
+      case "grid":
+        return "Promote local layout grids into shared grid styles";
+      case "paint":
+        return "Assign existing paint styles to local gradients";
       case "layout":
         return "Convert frames to Auto Layout";
       default:
@@ -177,33 +205,15 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
 
     // Request data only for layers that have fixable issues of each type
     layers.forEach((layer) => {
-      const layerIssues = layer.issues;
-
-      // Only request colors if layer has fixable color issues
-      const hasColorIssues = layerIssues.some(
-        (issue) =>
-          issue.includes("🔴") &&
-          (issue.includes("fill") || issue.includes("stroke")) &&
-          !issue.includes("gradient") &&
-          !issue.includes("image")
-      );
+      const fixTypes = new Set(layer.issues.map(getIssueFixType));
 
-      // Only request spacing if layer has fixable spacing issues
-      const hasSpacingIssues = layerIssues.some(
-        (issue) =>
-          issue.includes("🔴") &&
-          (issue.includes("corner") ||
-            issue.includes("padding") ||
-            issue.includes("spacing"))
-      );
-
-      // Only request effects if layer has fixable effect issues
-      const hasEffectIssues = layerIssues.some(
-        (issue) =>
-          issue.includes("🔴") &&
-          issue.includes("effect") &&
-          issue.includes("local effects instead of design tokens or styles")
-      );
+      // Only request data for the fixable issue types this layer has
+      const hasColorIssues = fixTypes.has("color");
+      const hasSpacingIssues = fixTypes.has("spacing");
+      const hasEffectIssues = fixTypes.has("effect");
+      const hasTextIssues = fixTypes.has("text");
+      const hasGridIssues = fixTypes.has("grid");
+      const hasPaintIssues = fixTypes.has("paint");
 
       // Add to loading set if we're requesting any data for this layer
       if (hasColorIssues || hasSpacingIssues || hasEffectIssues) {
@@ -231,11 +241,41 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
           "*"
         );
       }
+
+      if (hasGridIssues) {
+        window.parent.postMessage(
+          { pluginMessage: { type: "get-layer-grids", layerId: layer.id } },
+          "*"
+        );
+      }
+
+      if (hasPaintIssues) {
+        window.parent.postMessage(
+          {
+            pluginMessage: { type: "get-layer-paint-styles", layerId: layer.id },
+          },
+          "*"
+        );
+      }
+
+      if (hasTextIssues) {
+        window.parent.postMessage(
+          {
+            pluginMessage: { type: "get-layer-typography", layerId: layer.id },
+          },
+          "*"
+        );
+      }
     });
 
     // Set loading state for layers we're actually requesting data from
     setLoadingLayers(layersToLoad);
 
+    window.parent.postMessage(
+      { pluginMessage: { type: "get-variable-targets" } },
+      "*"
+    );
+
     // Listen for data responses
     const handleMessage = (event: MessageEvent) => {
       const msg = event.data.pluginMessage;
@@ -262,6 +302,26 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
           newMap.set(msg.layerId, msg.effects);
           return newMap;
         });
+      } else if (msg.type === "layer-grids") {
+        setAllGrids((prev) => {
+          const newMap = new Map(prev);
+          newMap.set(msg.layerId, msg.grids);
+          return newMap;
+        });
+      } else if (msg.type === "layer-paint-styles") {
+        setAllGradients((prev) => {
+          const newMap = new Map(prev);
+          newMap.set(msg.layerId, msg.paints);
+          return newMap;
+        });
+      } else if (msg.type === "layer-typography") {
+        setAllTypography((prev) => {
+          const newMap = new Map(prev);
+          newMap.set(msg.layerId, msg.typography);
+          return newMap;
+        });
+      } else if (msg.type === "variable-targets") {
+        setTargetCollections(msg.collections);
       }
     };
 
@@ -272,7 +332,10 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
   // Deduplicate colors and track sources
   useEffect(() => {
     if (loadingLayers.size === 0 && allColors.size > 0) {
-      const colorMap = new Map<string, { color: RGB; sources: string[] }>();
+      const colorMap = new Map<
+        string,
+        { color: RGB; sources: string[]; matches?: TokenMatch[] }
+      >();
 
       allColors.forEach((colors, layerId) => {
         const layerName = layers.find((l) => l.id === layerId)?.name || layerId;
@@ -287,6 +350,7 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
             colorMap.set(key, {
               color: colorData.color,
               sources: [layerName],
+              matches: colorData.matches,
             });
           }
         });
@@ -356,10 +420,64 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
     }
   }, [allEffects, layers]);
 
+  // Group un-styled text by family, weight, size and line height
+  const textGroups = layers.reduce<
+    Array<{ data: TypographyData; ranges: number; sources: string[] }>
+  >((groups, layer) => {
+    (allTypography.get(layer.id) || []).forEach((data) => {
+      const group = groups.find((g) => g.data.key === data.key);
+      if (!group) {
+        groups.push({ data, ranges: 1, sources: [layer.name] });
+        return;
+      }
+      group.ranges++;
+      if (!group.sources.includes(layer.name)) {
+        group.sources.push(layer.name);
+      }
+    });
+    return groups;
+  }, []);
+
+  const gridGroups = layers.reduce<
+    Array<{ data: GridData; sources: string[] }>
+  >((groups, layer) => {
+    (allGrids.get(layer.id) || []).forEach((data) => {
+      const group = groups.find((g) => g.data.key === data.key);
+      if (!group) {
+        groups.push({ data, sources: [layer.name] });
+      } else if (!group.sources.includes(layer.name)) {
+        group.sources.push(layer.name);
+      }
+    });
+    return groups;
+  }, []);
+
+  const paintGroups = layers.reduce<
+    Array<{ data: GradientData; sources: string[] }>
+  >((groups, layer) => {
+    (allGradients.get(layer.id) || []).forEach((data) => {
+      const group = groups.find((g) => g.data.key === data.key);
+      if (!group) {
+        groups.push({ data, sources: [layer.name] });
+      } else if (!group.sources.includes(layer.name)) {
+        group.sources.push(layer.name);
+      }
+    });
+    return groups;
+  }, []);
+
+  // Gradients default to a style with the same paints, otherwise unchanged
+  const getPaintStyleChoice = (idx: number, data: GradientData): string =>
+    paintStyleChoices[idx] ??
+    data.matches.find((match) => match.exact)?.styleId ??
+    "skip";
+
+  // Groups default to the closest existing style, or a new one
+  const getTextStyleChoice = (idx: number, data: TypographyData): string =>
+    textStyleChoices[idx] ?? data.matches[0]?.styleId ?? "";
+
   const layoutLayers = layers.filter((layer) =>
-    layer.issues.some((issue) =>
-      issue.includes("Frame not using Auto Layout")
-    )
+    layer.issues.some((issue) => getIssueFixType(issue) === "layout")
   );
 
   const rgbToHex = (color: RGB): string => {
@@ -432,17 +550,62 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
       typeName = "paddingVertical"; // Use original type name for consistency
     }
 
+    // Border widths and opacity are separate token groups from spacing
+    const prefix =
+      spacing.type === "opacity"
+        ? "opacity"
+        : spacing.type.startsWith("stroke")
+        ? "border width"
+        : namingConfig.spacingPrefix;
+
     if (isBulkMode) {
       // For bulk mode, use type and value
-      base = `${namingConfig.spacingPrefix} ${typeName} ${spacing.value}`;
+      base = `${prefix} ${typeName} ${spacing.value}`;
     } else {
       // For single layer, include layer name
-      base = `${namingConfig.spacingPrefix} ${layers[0].name} ${typeName} ${spacing.value}`;
+      base = `${prefix} ${layers[0].name} ${typeName} ${spacing.value}`;
     }
 
     return applyCasing(base, namingConfig.casing);
   };
 
+  const getSpacingTypeLabel = (type: SpacingData["type"]): string => {
+    switch (type) {
+      case "paddingHorizontal":
+        return "padding-x (left & right)";
+      case "paddingVertical":
+        return "padding-y (top & bottom)";
+      case "strokeWeight":
+        return "stroke weight";
+      case "strokeTopWeight":
+      case "strokeRightWeight":
+      case "strokeBottomWeight":
+      case "strokeLeftWeight":
+        return `stroke ${type.slice(6, -6).toLowerCase()}`;
+      default:
+        return type;
+    }
+  };
+
+  const formatSpacingValue = (spacing: SpacingData): string =>
+    `${spacing.value}${spacing.type === "opacity" ? "%" : "px"}`;
+
+  const generateGridStyleName = (data: GridData): string =>
+    applyCasing(
+      isBulkMode
+        ? `grid ${data.description}`
+        : `grid ${layers[0].name} ${data.description}`,
+      namingConfig.casing
+    );
+
+  const generateTextStyleName = (data: TypographyData): string => {
+    const lineHeight = data.lineHeight === "auto" ? "" : ` ${data.lineHeight}`;
+    return applyCasing(
+      `${namingConfig.textPrefix} ${data.fontName.family} ${data.fontName.style} ${data.fontSize}${lineHeight}`,
+      namingConfig.casing
+    );
+  };
+
   const generateEffectStyleName = (
     effect: EffectData,
     index: number,
@@ -467,6 +630,186 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
     return applyCasing(base, namingConfig.casing);
   };
 
+  // Rows with nearby tokens bind the closest one unless the user picks
+  // another token or chooses to create a new variable.
+  const getTokenChoice = (
+    choices: Record<number, string>,
+    idx: number,
+    matches?: TokenMatch[]
+  ): TokenMatch | null => {
+    const variableId = choices[idx] ?? matches?.[0]?.variableId ?? "";
+    return matches?.find((match) => match.variableId === variableId) ?? null;
+  };
+
+  const formatTokenMatch = (match: TokenMatch, kind: "color" | "spacing") => {
+    const distance =
+      match.distance === 0
+        ? "exact"
+        : kind === "color"
+        ? `ΔE ${match.distance.toFixed(1)}`
+        : `±${formatMetric(match.distance)}px`;
+    return `${match.name} (${distance}) · ${
+      match.libraryName ?? match.collectionName
+    }`;
+  };
+
+  const renderTokenSelect = (
+    matches: TokenMatch[] | undefined,
+    selected: TokenMatch | null,
+    kind: "color" | "spacing",
+    onChange: (variableId: string) => void
+  ) =>
+    matches && matches.length > 0 ? (
+      <select
+        className="filter-input token-match-select"
+        value={selected?.variableId ?? ""}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        {matches.map((match) => (
+          <option key={match.variableId} value={match.variableId}>
+            {formatTokenMatch(match, kind)}
+          </option>
+        ))}
+        <option value="">Create new variable</option>
+      </select>
+    ) : null;
+
+  const targetCollection: VariableTargetCollection | null =
+    targetCollectionId === null
+      ? targetCollections[0] ?? null
+      : targetCollectionId
+      ? targetCollections.find((c) => c.id === targetCollectionId) ?? null
+      : targetCollections.find((c) => c.name === newCollectionName.trim()) ??
+        null;
+
+  // The first mode takes the detected value; the others can be overridden,
+  // e.g. with a dark mode color.
+  const extraModes = targetCollection ? targetCollection.modes.slice(1) : [];
+
+  const getVariableTarget = (): VariableTarget =>
+    targetCollection
+      ? { collectionId: targetCollection.id }
+      : { collectionName: newCollectionName.trim() || "Design System" };
+
+  const hexToRgb = (hex: string): RGB => ({
+    r: parseInt(hex.slice(1, 3), 16) / 255,
+    g: parseInt(hex.slice(3, 5), 16) / 255,
+    b: parseInt(hex.slice(5, 7), 16) / 255,
+  });
+
+  const renderColorModeInputs = (idx: number, color: RGB) =>
+    extraModes.length > 0 ? (
+      <div className="mode-values">
+        {extraModes.map((mode) => (
+          <label key={mode.modeId} className="mode-value">
+            {mode.name}
+            <input
+              type="color"
+              value={rgbToHex(colorModeValues[idx]?.[mode.modeId] ?? color)}
+              onChange={(e) =>
+                setColorModeValues({
+                  ...colorModeValues,
+                  [idx]: {
+                    ...colorModeValues[idx],
+                    [mode.modeId]: hexToRgb(e.target.value),
+                  },
+                })
+              }
+            />
+          </label>
+        ))}
+      </div>
+    ) : null;
+
+  const renderSpacingModeInputs = (idx: number, value: number) =>
+    extraModes.length > 0 ? (
+      <div className="mode-values">
+        {extraModes.map((mode) => (
+          <label key={mode.modeId} className="mode-value">
+            {mode.name}
+            <input
+              className="filter-input"
+              type="number"
+              min="0"
+              value={spacingModeValues[idx]?.[mode.modeId] ?? value}
+              onChange={(e) =>
+                setSpacingModeValues({
+                  ...spacingModeValues,
+                  [idx]: {
+                    ...spacingModeValues[idx],
+                    [mode.modeId]: Number(e.target.value),
+                  },
+                })
+              }
+            />
+          </label>
+        ))}
+      </div>
+    ) : null;
+
+  // Only the values the user changed are sent; other modes get the detected
+  // value.
+  const getModeValues = <T,>(
+    values: Record<string, T> | undefined
+  ): Record<string, T> | undefined => {
+    if (!values) return undefined;
+    const modeValues: Record<string, T> = {};
+    extraModes.forEach((mode) => {
+      if (values[mode.modeId] !== undefined) {
+        modeValues[mode.modeId] = values[mode.modeId];
+      }
+    });
+    return Object.keys(modeValues).length > 0 ? modeValues : undefined;
+  };
+
+  // Same-named variables of another type in the target collection; the plugin
+  // refuses to apply the fix while any exist.
+  const getNameConflicts = (): string[] => {
+    if (!targetCollection) return [];
+    const conflicts: string[] = [];
+    const check = (name: string, resolvedType: "COLOR" | "FLOAT") => {
+      const existing = targetCollection.variables.find((v) => v.name === name);
+      if (
+        existing &&
+        existing.resolvedType !== resolvedType &&
+        !conflicts.includes(name)
+      ) {
+        conflicts.push(name);
+      }
+    };
+
+    if (selectedIssueTypes.has("color")) {
+      const colors = isBulkMode
+        ? uniqueColors
+        : allColors.get(layers[0].id) || [];
+      colors.forEach((colorData, idx) => {
+        if (getTokenChoice(colorTokenChoices, idx, colorData.matches)) return;
+        check(
+          variableNames[idx] || generateVariableName(colorData.color, idx),
+          "COLOR"
+        );
+      });
+    }
+
+    if (selectedIssueTypes.has("spacing")) {
+      const spacing = isBulkMode
+        ? uniqueSpacing.map((spacingData) => spacingData.spacing)
+        : allSpacing.get(layers[0].id) || [];
+      spacing.forEach((spacingData, idx) => {
+        if (getTokenChoice(spacingTokenChoices, idx, spacingData.matches)) {
+          return;
+        }
+        check(
+          spacingVariableNames[idx] ||
+            generateSpacingVariableName(spacingData, idx),
+          "FLOAT"
+        );
+      });
+    }
+
+    return conflicts;
+  };
+
   const formatMetric = (value: number): string => {
     const rounded = Number(value.toFixed(2));
     return Number.isInteger(rounded)
@@ -496,10 +839,98 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
   };
 
   const handleApply = () => {
+    // Text groups can span layers, so they go through the bulk message in
+    // both modes
+    if (selectedIssueTypes.has("text")) {
+      const textAssignments: BulkTextStyleAssignment[] = [];
+      textGroups.forEach((group, idx) => {
+        const choice = getTextStyleChoice(idx, group.data);
+        if (choice === "skip") return;
+        const match = group.data.matches.find((m) => m.styleId === choice);
+        textAssignments.push({
+          key: group.data.key,
+          styleId: match?.styleId,
+          styleName:
+            match?.name ||
+            textStyleNames[idx] ||
+            generateTextStyleName(group.data),
+        });
+      });
+
+      if (textAssignments.length > 0) {
+        window.parent.postMessage(
+          {
+            pluginMessage: {
+              type: "apply-bulk-text-styles",
+              layerIds: layers
+                .filter((layer) => allTypography.has(layer.id))
+                .map((layer) => layer.id),
+              textAssignments,
+            },
+          },
+          "*"
+        );
+      }
+    }
+
+    // Grid stacks can repeat across layers, so they also use the bulk message
+    if (selectedIssueTypes.has("grid") && gridGroups.length > 0) {
+      const gridAssignments: BulkGridStyleAssignment[] = gridGroups.map(
+        (group, idx) => ({
+          key: group.data.key,
+          styleName: gridStyleNames[idx] || generateGridStyleName(group.data),
+        })
+      );
+      window.parent.postMessage(
+        {
+          pluginMessage: {
+            type: "apply-bulk-grid-styles",
+            layerIds: layers
+              .filter((layer) => allGrids.has(layer.id))
+              .map((layer) => layer.id),
+            gridAssignments,
+          },
+        },
+        "*"
+      );
+    }
+
+    if (selectedIssueTypes.has("paint")) {
+      const paintAssignments: BulkPaintStyleAssignment[] = [];
+      paintGroups.forEach((group, idx) => {
+        const choice = getPaintStyleChoice(idx, group.data);
+        if (choice !== "skip") {
+          paintAssignments.push({ key: group.data.key, styleId: choice });
+        }
+      });
+
+      if (paintAssignments.length > 0) {
+        window.parent.postMessage(
+          {
+            pluginMessage: {
+              type: "apply-bulk-paint-styles",
+              layerIds: layers
+                .filter((layer) => allGradients.has(layer.id))
+                .map((layer) => layer.id),
+              paintAssignments,
+            },
+          },
+          "*"
+        );
+      }
+    }
+
     if (isBulkMode) {
       // Bulk mode: Apply variables to all layers
       const colorToVariableMap = new Map<string, string>();
       const spacingToVariableMap = new Map<string, string>();
+      const colorVariableIds: Record<string, string> = {};
+      const spacingVariableIds: Record<string, string> = {};
+      const colorModeValuesByKey: Record<string, Record<string, RGB>> = {};
+      const spacingModeValuesByKey: Record<
+        string,
+        Record<string, number>
+      > = {};
       const effectAssignments: BulkEffectStyleAssignment[] = [];
       let layoutIds: string[] = [];
 
@@ -507,10 +938,22 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
       if (selectedIssueTypes.has("color")) {
         uniqueColors.forEach((colorData, idx) => {
           const key = `${colorData.color.r}-${colorData.color.g}-${colorData.color.b}`;
+          const match = getTokenChoice(
+            colorTokenChoices,
+            idx,
+            colorData.matches
+          );
+          if (match) {
+            colorToVariableMap.set(key, match.name);
+            colorVariableIds[key] = match.variableId;
+            return;
+          }
           const varName =
             variableNames[idx] ||
             generateVariableName(colorData.color, idx, colorData.sources);
           colorToVariableMap.set(key, varName);
+          const modeValues = getModeValues(colorModeValues[idx]);
+          if (modeValues) colorModeValuesByKey[key] = modeValues;
         });
       }
 
@@ -518,6 +961,16 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
       if (selectedIssueTypes.has("spacing")) {
         uniqueSpacing.forEach((spacingData, idx) => {
           const key = `${spacingData.spacing.type}-${spacingData.spacing.value}`;
+          const match = getTokenChoice(
+            spacingTokenChoices,
+            idx,
+            spacingData.spacing.matches
+          );
+          if (match) {
+            spacingToVariableMap.set(key, match.name);
+            spacingVariableIds[key] = match.variableId;
+            return;
+          }
           const varName =
             spacingVariableNames[idx] ||
             generateSpacingVariableName(
@@ -526,6 +979,8 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
               spacingData.sources
             );
           spacingToVariableMap.set(key, varName);
+          const modeValues = getModeValues(spacingModeValues[idx]);
+          if (modeValues) spacingModeValuesByKey[key] = modeValues;
         });
       }
 
@@ -558,6 +1013,9 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
               type: "apply-bulk-color-variables",
               layerIds: layers.map((l) => l.id),
               colorToVariableMap: Object.fromEntries(colorToVariableMap),
+              colorVariableIds,
+              colorModeValues: colorModeValuesByKey,
+              target: getVariableTarget(),
             },
           },
           "*"
@@ -571,6 +1029,9 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
               type: "apply-bulk-spacing-variables",
               layerIds: layers.map((l) => l.id),
               spacingToVariableMap: Object.fromEntries(spacingToVariableMap),
+              spacingVariableIds,
+              spacingModeValues: spacingModeValuesByKey,
+              target: getVariableTarget(),
             },
           },
           "*"
@@ -614,13 +1075,26 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
       // Apply colors
       if (selectedIssueTypes.has("color") && layerColors.length > 0) {
         const colorBindings: VariableBinding[] = layerColors.map(
-          (colorData, idx) => ({
-            variableName:
-              variableNames[idx] || generateVariableName(colorData.color, idx),
-            color: colorData.color,
-            type: colorData.type,
-            index: colorData.index,
-          })
+          (colorData, idx) => {
+            const match = getTokenChoice(
+              colorTokenChoices,
+              idx,
+              colorData.matches
+            );
+            return {
+              variableName:
+                match?.name ||
+                variableNames[idx] ||
+                generateVariableName(colorData.color, idx),
+              variableId: match?.variableId,
+              color: colorData.color,
+              modeValues: match
+                ? undefined
+                : getModeValues(colorModeValues[idx]),
+              type: colorData.type,
+              index: colorData.index,
+            };
+          }
         );
 
         window.parent.postMessage(
@@ -629,6 +1103,7 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
               type: "apply-color-variables",
               layerId: layers[0].id,
               variableBindings: colorBindings,
+              target: getVariableTarget(),
             },
           },
           "*"
@@ -638,14 +1113,26 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
       // Apply spacing
       if (selectedIssueTypes.has("spacing") && layerSpacing.length > 0) {
         const spacingBindings: SpacingVariableBinding[] = layerSpacing.map(
-          (spacingData, idx) => ({
-            variableName:
-              spacingVariableNames[idx] ||
-              generateSpacingVariableName(spacingData, idx),
-            value: spacingData.value,
-            type: spacingData.type,
-            property: spacingData.property,
-          })
+          (spacingData, idx) => {
+            const match = getTokenChoice(
+              spacingTokenChoices,
+              idx,
+              spacingData.matches
+            );
+            return {
+              variableName:
+                match?.name ||
+                spacingVariableNames[idx] ||
+                generateSpacingVariableName(spacingData, idx),
+              variableId: match?.variableId,
+              value: spacingData.value,
+              modeValues: match
+                ? undefined
+                : getModeValues(spacingModeValues[idx]),
+              type: spacingData.type,
+              property: spacingData.property,
+            };
+          }
         );
 
         window.parent.postMessage(
@@ -654,6 +1141,7 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
               type: "apply-spacing-variables",
               layerId: layers[0].id,
               variableBindings: spacingBindings,
+              target: getVariableTarget(),
             },
           },
           "*"
@@ -714,8 +1202,12 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
       (selectedIssueTypes.has("effect") &&
         ((isBulkMode && uniqueEffects.length > 0) ||
           (!isBulkMode && allEffects.size > 0))) ||
+      (selectedIssueTypes.has("grid") && gridGroups.length > 0) ||
+      (selectedIssueTypes.has("paint") && paintGroups.length > 0) ||
       (selectedIssueTypes.has("layout") && layoutLayers.length > 0));
 
+  const nameConflicts = step === 3 ? getNameConflicts() : [];
+
   return (
     <div className="fix-wizard-overlay" onClick={onClose}>
       <div className="fix-wizard" onClick={(e) => e.stopPropagation()}>
@@ -820,13 +1312,69 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
             {selectedIssueTypes.has("text") && (
               <div className="naming-section">
                 <h5>📝 Text Styles</h5>
+                <div className="form-group">
+                  <label>Text Style Prefix</label>
+                  <input
+                    className="filter-input"
+                    value={namingConfig.textPrefix}
+                    onChange={(e) =>
+                      setNamingConfig({
+                        ...namingConfig,
+                        textPrefix: e.target.value,
+                      })
+                    }
+                  />
+                </div>
                 <div className="info-message">
-                  Text styles will be applied from existing shared styles in
-                  your library
+                  Text with the same font, weight, size and line height is
+                  grouped and matched to the closest existing text style; new
+                  styles use this prefix
                 </div>
               </div>
             )}
 
+            {(selectedIssueTypes.has("color") ||
+              selectedIssueTypes.has("spacing")) && (
+              <div className="naming-section">
+                <h5>🗂 Target Collection</h5>
+                <div className="form-group">
+                  <label>Create variables in</label>
+                  <select
+                    className="filter-input"
+                    value={targetCollectionId ?? targetCollection?.id ?? ""}
+                    onChange={(e) => setTargetCollectionId(e.target.value)}
+                  >
+                    {targetCollections.map((collection) => (
+                      <option key={collection.id} value={collection.id}>
+                        {collection.name}
+                      </option>
+                    ))}
+                    <option value="">New collection…</option>
+                  </select>
+                </div>
+                {(targetCollectionId === "" ||
+                  (targetCollectionId === null &&
+                    targetCollections.length === 0)) && (
+                  <div className="form-group">
+                    <label>Collection Name</label>
+                    <input
+                      className="filter-input"
+                      value={newCollectionName}
+                      onChange={(e) => setNewCollectionName(e.target.value)}
+                    />
+                  </div>
+                )}
+                {targetCollection && (
+                  <div className="info-message">
+                    Values are set for every mode:{" "}
+                    {targetCollection.modes.map((mode) => mode.name).join(", ")}
+                    {extraModes.length > 0 &&
+                      ". Override the other modes in the next step."}
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="form-group">
               <label>Casing</label>
               <select
@@ -879,6 +1427,14 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
           <div className="wizard-step">
             <h4>Step 3: Review & Apply</h4>
 
+            {nameConflicts.length > 0 && (
+              <div className="warning-message">
+                {targetCollection?.name} already has variables of another type
+                named {nameConflicts.map((name) => `"${name}"`).join(", ")}.
+                Rename them before applying.
+              </div>
+            )}
+
             {/* Colors Section - only show if colors were actually loaded */}
             {selectedIssueTypes.has("color") && (
               <>
@@ -902,23 +1458,48 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
                             style={{ background: rgbToCss(colorData.color) }}
                           />
                           <div className="variable-details">
-                            <input
-                              className="filter-input"
-                              value={
-                                variableNames[idx] ||
-                                generateVariableName(
-                                  colorData.color,
-                                  idx,
-                                  colorData.sources
-                                )
-                              }
-                              onChange={(e) =>
-                                setVariableNames({
-                                  ...variableNames,
-                                  [idx]: e.target.value,
+                            {renderTokenSelect(
+                              colorData.matches,
+                              getTokenChoice(
+                                colorTokenChoices,
+                                idx,
+                                colorData.matches
+                              ),
+                              "color",
+                              (variableId) =>
+                                setColorTokenChoices({
+                                  ...colorTokenChoices,
+                                  [idx]: variableId,
                                 })
-                              }
-                            />
+                            )}
+                            {!getTokenChoice(
+                              colorTokenChoices,
+                              idx,
+                              colorData.matches
+                            ) && (
+                              <input
+                                className="filter-input"
+                                value={
+                                  variableNames[idx] ||
+                                  generateVariableName(
+                                    colorData.color,
+                                    idx,
+                                    colorData.sources
+                                  )
+                                }
+                                onChange={(e) =>
+                                  setVariableNames({
+                                    ...variableNames,
+                                    [idx]: e.target.value,
+                                  })
+                                }
+                              />
+                            )}
+                            {!getTokenChoice(
+                              colorTokenChoices,
+                              idx,
+                              colorData.matches
+                            ) && renderColorModeInputs(idx, colorData.color)}
                             <div className="color-sources">
                               Used in: {colorData.sources.join(", ")}
                             </div>
@@ -938,19 +1519,46 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
                         className="color-preview"
                         style={{ background: rgbToCss(colorData.color) }}
                       />
-                      <input
-                        className="filter-input"
-                        value={
-                          variableNames[idx] ||
-                          generateVariableName(colorData.color, idx)
-                        }
-                        onChange={(e) =>
-                          setVariableNames({
-                            ...variableNames,
-                            [idx]: e.target.value,
-                          })
-                        }
-                      />
+                      <div className="variable-details">
+                        {renderTokenSelect(
+                          colorData.matches,
+                          getTokenChoice(
+                            colorTokenChoices,
+                            idx,
+                            colorData.matches
+                          ),
+                          "color",
+                          (variableId) =>
+                            setColorTokenChoices({
+                              ...colorTokenChoices,
+                              [idx]: variableId,
+                            })
+                        )}
+                        {!getTokenChoice(
+                          colorTokenChoices,
+                          idx,
+                          colorData.matches
+                        ) && (
+                          <input
+                            className="filter-input"
+                            value={
+                              variableNames[idx] ||
+                              generateVariableName(colorData.color, idx)
+                            }
+                            onChange={(e) =>
+                              setVariableNames({
+                                ...variableNames,
+                                [idx]: e.target.value,
+                              })
+                            }
+                          />
+                        )}
+                        {!getTokenChoice(
+                          colorTokenChoices,
+                          idx,
+                          colorData.matches
+                        ) && renderColorModeInputs(idx, colorData.color)}
+                      </div>
                       <span className="color-type">{colorData.type}</span>
                     </div>
                   ))
@@ -978,34 +1586,59 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
                         <div key={idx} className="variable-mapping bulk">
                           <div className="spacing-preview">
                             <span className="spacing-value">
-                              {spacingData.spacing.value}px
+                              {formatSpacingValue(spacingData.spacing)}
                             </span>
                             <span className="spacing-type">
-                              {spacingData.spacing.type === "paddingHorizontal"
-                                ? "padding-x (left & right)"
-                                : spacingData.spacing.type === "paddingVertical"
-                                ? "padding-y (top & bottom)"
-                                : spacingData.spacing.type}
+                              {getSpacingTypeLabel(spacingData.spacing.type)}
                             </span>
                           </div>
                           <div className="variable-details">
-                            <input
-                              className="filter-input"
-                              value={
-                                spacingVariableNames[idx] ||
-                                generateSpacingVariableName(
-                                  spacingData.spacing,
-                                  idx,
-                                  spacingData.sources
-                                )
-                              }
-                              onChange={(e) =>
-                                setSpacingVariableNames({
-                                  ...spacingVariableNames,
-                                  [idx]: e.target.value,
+                            {renderTokenSelect(
+                              spacingData.spacing.matches,
+                              getTokenChoice(
+                                spacingTokenChoices,
+                                idx,
+                                spacingData.spacing.matches
+                              ),
+                              "spacing",
+                              (variableId) =>
+                                setSpacingTokenChoices({
+                                  ...spacingTokenChoices,
+                                  [idx]: variableId,
                                 })
-                              }
-                            />
+                            )}
+                            {!getTokenChoice(
+                              spacingTokenChoices,
+                              idx,
+                              spacingData.spacing.matches
+                            ) && (
+                              <input
+                                className="filter-input"
+                                value={
+                                  spacingVariableNames[idx] ||
+                                  generateSpacingVariableName(
+                                    spacingData.spacing,
+                                    idx,
+                                    spacingData.sources
+                                  )
+                                }
+                                onChange={(e) =>
+                                  setSpacingVariableNames({
+                                    ...spacingVariableNames,
+                                    [idx]: e.target.value,
+                                  })
+                                }
+                              />
+                            )}
+                            {!getTokenChoice(
+                              spacingTokenChoices,
+                              idx,
+                              spacingData.spacing.matches
+                            ) &&
+                              renderSpacingModeInputs(
+                                idx,
+                                spacingData.spacing.value
+                              )}
                             <div className="spacing-sources">
                               Used in: {spacingData.sources.join(", ")}
                             </div>
@@ -1023,35 +1656,138 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
                     <div key={idx} className="variable-mapping">
                       <div className="spacing-preview">
                         <span className="spacing-value">
-                          {spacingData.value}px
+                          {formatSpacingValue(spacingData)}
                         </span>
                         <span className="spacing-type">
-                          {spacingData.type === "paddingHorizontal"
-                            ? "padding-x (left & right)"
-                            : spacingData.type === "paddingVertical"
-                            ? "padding-y (top & bottom)"
-                            : spacingData.type}
+                          {getSpacingTypeLabel(spacingData.type)}
                         </span>
                       </div>
-                      <input
-                        className="filter-input"
-                        value={
-                          spacingVariableNames[idx] ||
-                          generateSpacingVariableName(spacingData, idx)
-                        }
-                        onChange={(e) =>
-                          setSpacingVariableNames({
-                            ...spacingVariableNames,
-                            [idx]: e.target.value,
-                          })
-                        }
-                      />
+                      <div className="variable-details">
+                        {renderTokenSelect(
+                          spacingData.matches,
+                          getTokenChoice(
+                            spacingTokenChoices,
+                            idx,
+                            spacingData.matches
+                          ),
+                          "spacing",
+                          (variableId) =>
+                            setSpacingTokenChoices({
+                              ...spacingTokenChoices,
+                              [idx]: variableId,
+                            })
+                        )}
+                        {!getTokenChoice(
+                          spacingTokenChoices,
+                          idx,
+                          spacingData.matches
+                        ) && (
+                          <input
+                            className="filter-input"
+                            value={
+                              spacingVariableNames[idx] ||
+                              generateSpacingVariableName(spacingData, idx)
+                            }
+                            onChange={(e) =>
+                              setSpacingVariableNames({
+                                ...spacingVariableNames,
+                                [idx]: e.target.value,
+                              })
+                            }
+                          />
+                        )}
+                        {!getTokenChoice(
+                          spacingTokenChoices,
+                          idx,
+                          spacingData.matches
+                        ) && renderSpacingModeInputs(idx, spacingData.value)}
+                      </div>
                     </div>
                   ))
                 )}
               </>
             )}
 
+            {/* Text Section */}
+            {selectedIssueTypes.has("text") && (
+              <>
+                <h5>📝 Text Styles</h5>
+                {textGroups.length === 0 ? (
+                  <div className="info-message">
+                    No un-styled text found
+                    {isBulkMode ? " in selected layers" : " on this layer"}
+                  </div>
+                ) : (
+                  textGroups.map((group, idx) => {
+                    const choice = getTextStyleChoice(idx, group.data);
+                    return (
+                      <div
+                        key={group.data.key}
+                        className={`variable-mapping${
+                          isBulkMode ? " bulk" : ""
+                        }`}
+                      >
+                        <div className="typography-preview">
+                          <span className="typography-value">
+                            {group.data.value}
+                          </span>
+                          <span className="typography-characters">
+                            “{group.data.characters.slice(0, 40)}”
+                          </span>
+                        </div>
+                        <div className="variable-details">
+                          <select
+                            className="filter-input token-match-select"
+                            value={choice}
+                            onChange={(e) =>
+                              setTextStyleChoices({
+                                ...textStyleChoices,
+                                [idx]: e.target.value,
+                              })
+                            }
+                          >
+                            {group.data.matches.map((match) => (
+                              <option key={match.styleId} value={match.styleId}>
+                                {match.name} (
+                                {match.distance === 0
+                                  ? "exact"
+                                  : `±${formatMetric(match.distance)}`}
+                                ){match.remote ? " · library" : ""}
+                              </option>
+                            ))}
+                            <option value="">Create new text style</option>
+                            <option value="skip">Leave unchanged</option>
+                          </select>
+                          {choice === "" && (
+                            <input
+                              className="filter-input"
+                              value={
+                                textStyleNames[idx] ||
+                                generateTextStyleName(group.data)
+                              }
+                              onChange={(e) =>
+                                setTextStyleNames({
+                                  ...textStyleNames,
+                                  [idx]: e.target.value,
+                                })
+                              }
+                            />
+                          )}
+                          <div className="color-sources">
+                            {group.ranges} text range
+                            {group.ranges === 1 ? "" : "s"}
+                            {isBulkMode
+                              ? ` in: ${group.sources.join(", ")}`
+                              : ""}
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+              </>
+            )}
+
             {/* Effects Section */}
             {selectedIssueTypes.has("effect") && (
               <>
@@ -1160,6 +1896,107 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
               </>
             )}
 
+            {selectedIssueTypes.has("grid") && (
+              <>
+                <h5>🔲 Layout Grids</h5>
+                {gridGroups.length === 0 ? (
+                  <div className="info-message">
+                    No local layout grids found
+                  </div>
+                ) : (
+                  gridGroups.map((group, idx) => (
+                    <div
+                      key={group.data.key}
+                      className={`variable-mapping${isBulkMode ? " bulk" : ""}`}
+                    >
+                      <div className="effect-preview">
+                        <span className="effect-value">
+                          {group.data.count} grid
+                          {group.data.count === 1 ? "" : "s"}
+                        </span>
+                        <span className="effect-metrics">
+                          {group.data.description}
+                        </span>
+                      </div>
+                      <div className="variable-details">
+                        <input
+                          className="filter-input"
+                          value={
+                            gridStyleNames[idx] ||
+                            generateGridStyleName(group.data)
+                          }
+                          onChange={(e) =>
+                            setGridStyleNames({
+                              ...gridStyleNames,
+                              [idx]: e.target.value,
+                            })
+                          }
+                        />
+                        {isBulkMode && (
+                          <div className="effect-sources">
+                            Used in: {group.sources.join(", ")}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </>
+            )}
+
+            {selectedIssueTypes.has("paint") && (
+              <>
+                <h5>🌈 Gradients</h5>
+                {paintGroups.length === 0 ? (
+                  <div className="info-message">
+                    No local gradients found
+                  </div>
+                ) : (
+                  paintGroups.map((group, idx) => (
+                    <div
+                      key={group.data.key}
+                      className={`variable-mapping${isBulkMode ? " bulk" : ""}`}
+                    >
+                      <div className="effect-preview">
+                        <span className="effect-value">
+                          {group.data.property === "strokes" ? "Stroke" : "Fill"}
+                        </span>
+                        <span className="effect-metrics">
+                          {group.data.description}
+                        </span>
+                      </div>
+                      <div className="variable-details">
+                        <select
+                          className="filter-input token-match-select"
+                          value={getPaintStyleChoice(idx, group.data)}
+                          onChange={(e) =>
+                            setPaintStyleChoices({
+                              ...paintStyleChoices,
+                              [idx]: e.target.value,
+                            })
+                          }
+                        >
+                          {group.data.matches.map((match) => (
+                            <option key={match.styleId} value={match.styleId}>
+                              {match.name}
+                              {match.exact ? " (exact)" : ""}
+                              {match.remote ? " · library" : ""}
+                            </option>
+                          ))}
+                          <option value="skip">Leave unchanged</option>
+                        </select>
+                        {isBulkMode && (
+                          <div className="effect-sources">
+                            Used in: {group.sources.join(", ")}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </>
+            )}
+
             {selectedIssueTypes.has("layout") && (
               <>
                 <h5>📐 Layout</h5>
@@ -1237,7 +2074,7 @@ const FixWizard: React.FC<FixWizardProps> = ({ layers, onClose }) => {
             <button
               className="btn btn-primary"
               onClick={handleApply}
-              disabled={!canProceedToStep3}
+              disabled={!canProceedToStep3 || nameConflicts.length > 0}
             >
               Apply Fix{isBulkMode ? ` to ${layers.length} Layers` : ""}
             </button>
@@ -0,0 +1,266 @@
+import React, { useEffect, useState } from "react";
+import type { CoverageAnalysis, CoverageSnapshot } from "../types";
+
+type HistoryMetric =
+  | "overallScore"
+  | "componentCoverage"
+  | "tokenCoverage"
+  | "styleCoverage";
+
+const METRICS: Array<{ key: HistoryMetric; label: string }> = [
+  { key: "overallScore", label: "Overall" },
+  { key: "componentCoverage", label: "Component" },
+  { key: "tokenCoverage", label: "Token" },
+  { key: "styleCoverage", label: "Style" },
+];
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 140;
+const CHART_PADDING = 12;
+
+interface HistoryViewProps {
+  analysis: CoverageAnalysis;
+}
+
+// Change of the overall score against the previous run; runs with other
+// settings aren't compared since their scores differ by definition.
+function getScoreChange(
+  history: CoverageSnapshot[],
+  index: number
+): number | null {
+  const previous = history[index - 1];
+  const snapshot = history[index];
+  if (!previous || previous.settingsHash !== snapshot.settingsHash) {
+    return null;
+  }
+  return snapshot.overallScore - previous.overallScore;
+}
+
+function getChartPoint(index: number, count: number, value: number) {
+  const innerWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const innerHeight = CHART_HEIGHT - CHART_PADDING * 2;
+  return {
+    x:
+      CHART_PADDING +
+      (count > 1 ? (index / (count - 1)) * innerWidth : innerWidth / 2),
+    y: CHART_PADDING + innerHeight * (1 - value / 100),
+  };
+}
+
+const HistoryChart: React.FC<{ history: CoverageSnapshot[] }> = ({
+  history,
+}) => (
+  <svg
+    className="history-chart"
+    viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+    preserveAspectRatio="none"
+  >
+    {[0, 50, 100].map((value) => {
+      const { y } = getChartPoint(0, 1, value);
+      return (
+        <line
+          key={value}
+          className="history-grid-line"
+          x1={CHART_PADDING}
+          x2={CHART_WIDTH - CHART_PADDING}
+          y1={y}
+          y2={y}
+        />
+      );
+    })}
+    {METRICS.map(({ key }) => (
+      <polyline
+        key={key}
+        className={`history-line ${key}`}
+        points={history
+          .map((snapshot, index) => {
+            const { x, y } = getChartPoint(
+              index,
+              history.length,
+              snapshot[key]
+            );
+            return `${x},${y}`;
+          })
+          .join(" ")}
+      />
+    ))}
+    {history.map((snapshot, index) => {
+      const change = getScoreChange(history, index);
+      const { x, y } = getChartPoint(
+        index,
+        history.length,
+        snapshot.overallScore
+      );
+      return (
+        <circle
+          key={snapshot.timestamp}
+          className={`history-point ${
+            change === null || change === 0
+              ? ""
+              : change > 0
+              ? "improved"
+              : "regressed"
+          }`}
+          cx={x}
+          cy={y}
+          r={3}
+        />
+      );
+    })}
+  </svg>
+);
+
+const HistoryView: React.FC<HistoryViewProps> = ({ analysis }) => {
+  const frames = analysis.frames ?? [analysis];
+  const frameIds = frames
+    .map((frame) => frame.summary.analyzedFrameId)
+    .filter((id): id is string => !!id);
+  const [activeFrameId, setActiveFrameId] = useState(frameIds[0] ?? "");
+  const [histories, setHistories] = useState<
+    Record<string, CoverageSnapshot[]>
+  >({});
+
+  useEffect(() => {
+    if (frameIds.indexOf(activeFrameId) === -1) {
+      setActiveFrameId(frameIds[0] ?? "");
+    }
+    parent.postMessage(
+      { pluginMessage: { type: "get-coverage-history", frameIds } },
+      "*"
+    );
+    // Re-read only when the analyzed frames change, not on live updates
+  }, [frameIds.join(",")]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const msg = event.data.pluginMessage;
+      if (msg?.type === "coverage-history") {
+        setHistories((previous) => ({ ...previous, ...msg.histories }));
+      }
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, []);
+
+  const history = histories[activeFrameId] ?? [];
+  const runs = history
+    .map((snapshot, index) => ({
+      snapshot,
+      change: getScoreChange(history, index),
+      settingsChanged:
+        index > 0 &&
+        history[index - 1].settingsHash !== snapshot.settingsHash,
+    }))
+    .reverse();
+
+  return (
+    <div className="history-view">
+      {frames.length > 1 && (
+        <div className="frame-switcher">
+          <select
+            className="filter-input"
+            value={activeFrameId}
+            onChange={(e) => setActiveFrameId(e.target.value)}
+          >
+            {frames.map((frame) => (
+              <option
+                key={frame.summary.analyzedFrameId}
+                value={frame.summary.analyzedFrameId}
+              >
+                {frame.summary.analyzedFrameName}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {history.length === 0 ? (
+        <div className="empty-state">
+          <p>No analysis runs recorded for this frame yet</p>
+        </div>
+      ) : (
+        <>
+          <div className="type-breakdown">
+            <div className="breakdown-header">
+              <h3 className="breakdown-title">Coverage Over Time</h3>
+              <div className="history-legend">
+                {METRICS.map(({ key, label }) => (
+                  <span key={key} className={`history-legend-item ${key}`}>
+                    {label}
+                  </span>
+                ))}
+              </div>
+            </div>
+            <HistoryChart history={history} />
+          </div>
+
+          <div className="type-breakdown">
+            <div className="breakdown-header">
+              <h3 className="breakdown-title">Runs ({history.length})</h3>
+              <button
+                className="btn btn-small btn-secondary"
+                onClick={() =>
+                  parent.postMessage(
+                    {
+                      pluginMessage: {
+                        type: "clear-coverage-history",
+                        frameId: activeFrameId,
+                      },
+                    },
+                    "*"
+                  )
+                }
+              >
+                Clear History
+              </button>
+            </div>
+            {runs.map(({ snapshot, change, settingsChanged }) => (
+              <div key={snapshot.timestamp} className="breakdown-item">
+                <div className="breakdown-name">
+                  {new Date(snapshot.timestamp).toLocaleString()}
+                  {settingsChanged && (
+                    <span
+                      className="history-settings-badge"
+                      title="Analyzed with different settings than the previous run"
+                    >
+                      settings changed
+                    </span>
+                  )}
+                </div>
+                <div className="breakdown-stats">
+                  <div className="breakdown-count">
+                    C {snapshot.componentCoverage}% · T{" "}
+                    {snapshot.tokenCoverage}% · S {snapshot.styleCoverage}%
+                  </div>
+                  <div className="breakdown-percentage">
+                    {snapshot.overallScore}%
+                  </div>
+                  {change !== null && (
+                    <span
+                      className={`history-change ${
+                        change > 0
+                          ? "improved"
+                          : change < 0
+                          ? "regressed"
+                          : ""
+                      }`}
+                    >
+                      {change > 0
+                        ? `▲ +${change}`
+                        : change < 0
+                        ? `▼ ${change}`
+                        : "–"}
+                    </span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HistoryView;
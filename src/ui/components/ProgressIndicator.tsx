@@ -1,19 +1,42 @@
 import React from "react";
 
 interface ProgressIndicatorProps {
+  // Layers scanned so far
   progress: number;
+  // Share of the analyzed frames' top-level layers done; null until the
+  // plugin reports it
+  percent?: number | null;
+  onCancel?: () => void;
 }
 
-const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({ progress }) => {
+const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({
+  progress,
+  percent = null,
+  onCancel,
+}) => {
   return (
     <div className="progress-container">
       <div className="progress-text">
         Analyzing design system coverage...
-        {progress > 0 && ` (${progress} layers scanned)`}
+        {progress > 0 &&
+          (percent !== null
+            ? ` ${percent}% (${progress} layers scanned)`
+            : ` (${progress} layers scanned)`)}
       </div>
       <div className="progress-bar">
-        <div className="progress-fill" style={{ width: "100%" }}></div>
+        <div
+          className="progress-fill"
+          style={{ width: `${percent ?? 100}%` }}
+        ></div>
       </div>
+      {onCancel && (
+        <button
+          className="btn btn-small btn-secondary progress-cancel"
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
+      )}
     </div>
   );
 };
@@ -1,6 +1,23 @@
 import React, { useState, useEffect } from "react";
 import { linearService } from "../utils/linearService";
-import type { LinearConfig, LinearTeam } from "../types";
+import type {
+  CoverageThresholds,
+  GateMetric,
+  InstanceInternalsPolicy,
+  IssueCategory,
+  LinearConfig,
+  LinearTeam,
+  RuleConfig,
+  RuleDescriptor,
+  RuleSettings,
+  RuleSeverity,
+  ScoreCategory,
+  ScoringSettings,
+  SettingsScope,
+  SettingsTarget,
+  SizeWeighting,
+  VariableCollectionSummary,
+} from "../types";
 
 interface Settings {
   checkComponents: boolean;
@@ -8,16 +25,89 @@ interface Settings {
   checkStyles: boolean;
   allowLocalStyles: boolean;
   ignoredTypes: string[];
+  rules: RuleSettings;
+  scoring: ScoringSettings;
+  approvedCollectionKeys: string[];
+  liveUpdates: boolean;
+  recordHistory: boolean;
+  thresholds: CoverageThresholds;
+  instanceInternals: InstanceInternalsPolicy;
+  exemptNamePrefixes: string[];
+  exemptComponentKeys: string[];
 }
 
 interface SettingsViewProps {
   settings: Settings;
+  rules?: RuleDescriptor[];
   onUpdateSettings: (settings: Partial<Settings>) => void;
+  settingsScope?: SettingsScope;
+  settingsTarget?: SettingsTarget;
+  onChangeSettingsTarget?: (target: SettingsTarget) => void;
+  onResetPersonalSettings?: () => void;
+}
+
+const RULE_CATEGORY_LABELS: Record<IssueCategory, string> = {
+  component: "Component",
+  token: "Token",
+  style: "Style",
+  layout: "Layout",
+};
+
+const SCORE_CATEGORY_LABELS: Record<ScoreCategory, string> = {
+  component: "Component",
+  token: "Token",
+  style: "Style",
+};
+
+const GATE_METRIC_LABELS: Record<GateMetric, string> = {
+  overallScore: "Overall",
+  componentCoverage: "Component",
+  tokenCoverage: "Token",
+  styleCoverage: "Style",
+};
+
+function formatTypeWeights(weights: Record<string, number>): string {
+  return Object.keys(weights)
+    .map((type) => `${type}=${weights[type]}`)
+    .join("\n");
+}
+
+// Parses "TEXT=2" lines, skipping anything without a non-negative number.
+function parseTypeWeights(value: string): Record<string, number> {
+  const weights: Record<string, number> = {};
+  value.split("\n").forEach((line) => {
+    const [type, weight] = line.split("=").map((part) => part.trim());
+    const parsed = Number(weight);
+    if (type && weight && isFinite(parsed) && parsed >= 0) {
+      weights[type.toUpperCase()] = parsed;
+    }
+  });
+  return weights;
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+}
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
 }
 
 const SettingsView: React.FC<SettingsViewProps> = ({
   settings,
+  rules = [],
   onUpdateSettings,
+  settingsScope,
+  settingsTarget = "document",
+  onChangeSettingsTarget,
+  onResetPersonalSettings,
 }) => {
   const [linearConfig, setLinearConfig] = useState<LinearConfig>({
     enabled: false,
@@ -32,6 +122,28 @@ const SettingsView: React.FC<SettingsViewProps> = ({
   }>({ type: null, message: "" });
   const [teams, setTeams] = useState<LinearTeam[]>([]);
   const [showApiKey, setShowApiKey] = useState(false);
+  const [variableCollections, setVariableCollections] = useState<
+    VariableCollectionSummary[]
+  >([]);
+  const [newProfileName, setNewProfileName] = useState<string | null>(null);
+  const profileFileInput = React.useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    parent.postMessage(
+      { pluginMessage: { type: "get-variable-collections" } },
+      "*"
+    );
+
+    const handleMessage = (event: MessageEvent) => {
+      const msg = event.data.pluginMessage;
+      if (msg?.type === "variable-collections") {
+        setVariableCollections(msg.collections);
+      }
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, []);
 
   useEffect(() => {
     // Request config from plugin storage
@@ -117,6 +229,141 @@ const SettingsView: React.FC<SettingsViewProps> = ({
     });
   };
 
+  const handleUpdateRule = (
+    rule: RuleDescriptor,
+    changes: Partial<RuleConfig>
+  ) => {
+    const config = { ...settings.rules?.[rule.id], ...changes };
+    if (config.severity === undefined) {
+      delete config.severity;
+    }
+    onUpdateSettings({ rules: { ...settings.rules, [rule.id]: config } });
+  };
+
+  const handleUpdateRuleOptions = (
+    rule: RuleDescriptor,
+    options: Record<string, unknown>
+  ) => {
+    handleUpdateRule(rule, {
+      options: { ...settings.rules?.[rule.id]?.options, ...options },
+    });
+  };
+
+  const reusableElementRule = rules.find(
+    (rule) => rule.id === "reusable-element"
+  );
+  const reusableElementOptions = {
+    ...reusableElementRule?.defaultOptions,
+    ...settings.rules?.["reusable-element"]?.options,
+  };
+  const componentKeywords = toStringList(reusableElementOptions.keywords);
+  const componentPatterns = toStringList(reusableElementOptions.patterns);
+  const invalidPatterns = componentPatterns.filter(
+    (pattern) => !isValidPattern(pattern)
+  );
+
+  const handleToggleCollection = (key: string, approved: boolean) => {
+    const keys = settings.approvedCollectionKeys.filter(
+      (approvedKey) => approvedKey !== key
+    );
+    onUpdateSettings({
+      approvedCollectionKeys: approved ? [...keys, key] : keys,
+    });
+  };
+
+  const semanticColorRule = rules.find(
+    (rule) => rule.id === "semantic-color-token"
+  );
+  const semanticColorOptions = {
+    ...semanticColorRule?.defaultOptions,
+    ...settings.rules?.["semantic-color-token"]?.options,
+  };
+  const primitiveCollections = toStringList(
+    semanticColorOptions.primitiveCollections
+  );
+
+  const imageAssetRule = rules.find((rule) => rule.id === "image-asset");
+  const approvedImageHashes = toStringList(
+    {
+      ...imageAssetRule?.defaultOptions,
+      ...settings.rules?.["image-asset"]?.options,
+    }.approvedImageHashes
+  );
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const msg = event.data.pluginMessage;
+      if (msg?.type === "selection-image-hashes" && imageAssetRule) {
+        const hashes = toStringList(msg.imageHashes).filter(
+          (hash) => approvedImageHashes.indexOf(hash) === -1
+        );
+        if (hashes.length > 0) {
+          handleUpdateRuleOptions(imageAssetRule, {
+            approvedImageHashes: [...approvedImageHashes, ...hashes],
+          });
+        }
+      } else if (msg?.type === "settings-profile-exported") {
+        const blob = new Blob([msg.contents], { type: "application/json" });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = msg.fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+      } else if (msg?.type === "selection-component-keys") {
+        const keys = toStringList(msg.componentKeys).filter(
+          (key) => settings.exemptComponentKeys.indexOf(key) === -1
+        );
+        if (keys.length > 0) {
+          onUpdateSettings({
+            exemptComponentKeys: [...settings.exemptComponentKeys, ...keys],
+          });
+        }
+      }
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  });
+
+  const postProfileMessage = (message: Record<string, unknown>) => {
+    parent.postMessage({ pluginMessage: message }, "*");
+  };
+
+  const handleImportProfile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () =>
+      postProfileMessage({
+        type: "import-settings-profile",
+        contents: String(reader.result ?? ""),
+      });
+    reader.readAsText(file);
+  };
+
+  const handleUpdateScoring = (changes: Partial<ScoringSettings>) => {
+    onUpdateSettings({ scoring: { ...settings.scoring, ...changes } });
+  };
+
+  // An empty field removes the metric from the quality gate
+  const handleUpdateThreshold = (metric: GateMetric, value: string) => {
+    const thresholds = { ...settings.thresholds };
+    const threshold = Number(value);
+    if (value === "") {
+      delete thresholds[metric];
+    } else if (threshold >= 0 && threshold <= 100) {
+      thresholds[metric] = threshold;
+    } else {
+      return;
+    }
+    onUpdateSettings({ thresholds });
+  };
+
+  const isCategoryEnabled = (category: IssueCategory) => {
+    if (category === "component") return settings.checkComponents;
+    if (category === "token") return settings.checkTokens;
+    return settings.checkStyles;
+  };
+
   const handleToggleLinear = (enabled: boolean) => {
     const updated = { ...linearConfig, enabled };
     setLinearConfig(updated);
@@ -125,6 +372,164 @@ const SettingsView: React.FC<SettingsViewProps> = ({
 
   return (
     <div className="settings-view">
+      {settingsScope && (
+        <div className="settings-section">
+          <h3 className="settings-title">Rule Profile</h3>
+
+          <div className="heuristics-field">
+            <div className="setting-label">Active Profile</div>
+            <div className="setting-description">
+              Each profile holds its own rules, scoring, ignored types and
+              approved libraries. The active profile applies to everyone in
+              this file.
+            </div>
+            <select
+              className="filter-input"
+              value={settingsScope.activeProfile}
+              onChange={(e) =>
+                postProfileMessage({
+                  type: "select-settings-profile",
+                  name: e.target.value,
+                })
+              }
+            >
+              {settingsScope.profiles.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            {newProfileName !== null && (
+              <div className="profile-name-form">
+                <input
+                  type="text"
+                  className="filter-input"
+                  placeholder="Profile name, e.g. Marketing"
+                  value={newProfileName}
+                  autoFocus
+                  onChange={(e) => setNewProfileName(e.target.value)}
+                />
+                <button
+                  className="btn btn-small btn-primary"
+                  onClick={() => {
+                    postProfileMessage({
+                      type: "create-settings-profile",
+                      name: newProfileName,
+                    });
+                    setNewProfileName(null);
+                  }}
+                >
+                  Create
+                </button>
+              </div>
+            )}
+            <div className="profile-actions">
+              <button
+                className="btn btn-small btn-secondary"
+                onClick={() =>
+                  setNewProfileName(newProfileName === null ? "" : null)
+                }
+                title="Copy the active profile under a new name"
+              >
+                New
+              </button>
+              <button
+                className="btn btn-small btn-secondary"
+                disabled={settingsScope.profiles.length < 2}
+                onClick={() =>
+                  postProfileMessage({
+                    type: "delete-settings-profile",
+                    name: settingsScope.activeProfile,
+                  })
+                }
+              >
+                Delete
+              </button>
+              <button
+                className="btn btn-small btn-secondary"
+                onClick={() => profileFileInput.current?.click()}
+              >
+                Import…
+              </button>
+              <button
+                className="btn btn-small btn-secondary"
+                onClick={() =>
+                  postProfileMessage({ type: "export-settings-profile" })
+                }
+              >
+                Export
+              </button>
+              <input
+                ref={profileFileInput}
+                type="file"
+                accept=".json,application/json"
+                style={{ display: "none" }}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImportProfile(file);
+                  e.target.value = "";
+                }}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {onChangeSettingsTarget && (
+        <div className="settings-section">
+          <h3 className="settings-title">Settings Scope</h3>
+
+          <div className="heuristics-field">
+            <div className="setting-label">Save Changes For</div>
+            <div className="setting-description">
+              {settingsScope?.hasSharedSettings
+                ? `Team changes are saved to the "${settingsScope.activeProfile}" profile in this file.`
+                : "The active profile uses the default settings."}{" "}
+              Personal changes apply only to you, on top of the profile.
+            </div>
+            <select
+              className="filter-input"
+              value={settingsTarget}
+              onChange={(e) =>
+                onChangeSettingsTarget(e.target.value as SettingsTarget)
+              }
+            >
+              <option value="document">Everyone in this file</option>
+              <option value="personal">Only me</option>
+            </select>
+          </div>
+
+          {settingsScope && settingsScope.personalOverrides.length > 0 && (
+            <div className="setting-item">
+              <div className="setting-info">
+                <div className="setting-label">
+                  {settingsScope.personalOverrides.length} Personal Override
+                  {settingsScope.personalOverrides.length === 1 ? "" : "s"}
+                </div>
+                <div className="setting-description">
+                  {settingsScope.personalOverrides
+                    .map((name) =>
+                      name.startsWith("rules.")
+                        ? rules.find((rule) => `rules.${rule.id}` === name)
+                            ?.name ?? name
+                        : name
+                    )
+                    .join(", ")}
+                </div>
+              </div>
+              {onResetPersonalSettings && (
+                <button
+                  className="btn btn-small btn-secondary"
+                  onClick={onResetPersonalSettings}
+                >
+                  Use Profile Settings
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="settings-section">
         <h3 className="settings-title">Coverage Checks</h3>
 
@@ -187,6 +592,394 @@ const SettingsView: React.FC<SettingsViewProps> = ({
         </div>
       </div>
 
+      {rules.length > 0 && (
+        <div className="settings-section">
+          <h3 className="settings-title">Rules</h3>
+
+          {rules.map((rule) => {
+            const config = settings.rules?.[rule.id] ?? {};
+            const categoryEnabled = isCategoryEnabled(rule.category);
+
+            return (
+              <div
+                key={rule.id}
+                className={`setting-item rule-item ${
+                  categoryEnabled ? "" : "disabled"
+                }`}
+              >
+                <div className="setting-info">
+                  <div className="setting-label">{rule.name}</div>
+                  <div className="setting-description">
+                    {rule.description}
+                  </div>
+                  <div className="setting-description rule-meta">
+                    {RULE_CATEGORY_LABELS[rule.category]} · {rule.id}
+                    {rule.nodeTypes && ` · ${rule.nodeTypes.join(", ")}`}
+                  </div>
+                </div>
+                <select
+                  className="filter-input rule-severity-select"
+                  value={config.severity ?? ""}
+                  disabled={!categoryEnabled}
+                  onChange={(e) =>
+                    handleUpdateRule(rule, {
+                      severity: (e.target.value || undefined) as
+                        | RuleSeverity
+                        | undefined,
+                    })
+                  }
+                >
+                  <option value="">Default ({rule.severity})</option>
+                  <option value="critical">Critical</option>
+                  <option value="warning">Warning</option>
+                  <option value="suggestion">Suggestion</option>
+                </select>
+                <label className="toggle">
+                  <input
+                    type="checkbox"
+                    checked={config.enabled !== false}
+                    disabled={!categoryEnabled}
+                    onChange={(e) =>
+                      handleUpdateRule(rule, { enabled: e.target.checked })
+                    }
+                  />
+                  <span className="toggle-slider"></span>
+                </label>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {reusableElementRule && (
+        <div className="settings-section">
+          <h3 className="settings-title">Component Heuristics</h3>
+
+          <div className="setting-item">
+            <div className="setting-info">
+              <div className="setting-label">Match Library Component Names</div>
+              <div className="setting-description">
+                Flag layers named like library components used in this file
+              </div>
+            </div>
+            <label className="toggle">
+              <input
+                type="checkbox"
+                checked={reusableElementOptions.useLibraryNames !== false}
+                onChange={(e) =>
+                  handleUpdateRuleOptions(reusableElementRule, {
+                    useLibraryNames: e.target.checked,
+                  })
+                }
+              />
+              <span className="toggle-slider"></span>
+            </label>
+          </div>
+
+          <div className="heuristics-field">
+            <div className="setting-label">Keywords</div>
+            <div className="setting-description">
+              Layer names containing any of these words should be components
+              (comma or line separated)
+            </div>
+            <textarea
+              key={componentKeywords.join("\n")}
+              className="filter-input heuristics-textarea"
+              defaultValue={componentKeywords.join("\n")}
+              rows={3}
+              onBlur={(e) =>
+                handleUpdateRuleOptions(reusableElementRule, {
+                  keywords: e.target.value
+                    .split(/[\n,]/)
+                    .map((keyword) => keyword.trim())
+                    .filter(Boolean),
+                })
+              }
+            />
+          </div>
+
+          <div className="heuristics-field">
+            <div className="setting-label">Name Patterns</div>
+            <div className="setting-description">
+              Case-insensitive regular expressions, one per line
+            </div>
+            <textarea
+              key={componentPatterns.join("\n")}
+              className="filter-input heuristics-textarea"
+              defaultValue={componentPatterns.join("\n")}
+              placeholder={"^btn[-_ ]\n(tab|chip)s?$"}
+              rows={3}
+              onBlur={(e) =>
+                handleUpdateRuleOptions(reusableElementRule, {
+                  patterns: e.target.value
+                    .split("\n")
+                    .map((pattern) => pattern.trim())
+                    .filter(Boolean),
+                })
+              }
+            />
+            {invalidPatterns.length > 0 && (
+              <div className="heuristics-error">
+                Ignoring invalid pattern
+                {invalidPatterns.length > 1 ? "s" : ""}:{" "}
+                {invalidPatterns.join(", ")}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="settings-section">
+        <h3 className="settings-title">Token Validation</h3>
+
+        <div className="heuristics-field">
+          <div className="setting-label">Approved Collections</div>
+          <div className="setting-description">
+            Bound variables must come from one of the checked collections.
+            Leave all unchecked to accept any collection.
+          </div>
+          {variableCollections.length === 0 ? (
+            <div className="setting-description">
+              No variable collections found in this file or its libraries
+            </div>
+          ) : (
+            variableCollections.map((collection) => (
+              <label key={collection.key} className="collection-option">
+                <input
+                  type="checkbox"
+                  checked={settings.approvedCollectionKeys.includes(
+                    collection.key
+                  )}
+                  onChange={(e) =>
+                    handleToggleCollection(collection.key, e.target.checked)
+                  }
+                />
+                <span>{collection.name}</span>
+                <span className="rule-meta">
+                  {collection.libraryName ?? "Local"}
+                </span>
+              </label>
+            ))
+          )}
+        </div>
+
+        {semanticColorRule && (
+          <>
+            <div className="heuristics-field">
+              <div className="setting-label">Primitive Collections</div>
+              <div className="setting-description">
+                Colors from collections named with these words are primitives
+                and should be replaced by semantic tokens
+              </div>
+              <textarea
+                key={primitiveCollections.join("\n")}
+                className="filter-input heuristics-textarea"
+                defaultValue={primitiveCollections.join("\n")}
+                rows={3}
+                onBlur={(e) =>
+                  handleUpdateRuleOptions(semanticColorRule, {
+                    primitiveCollections: e.target.value
+                      .split(/[\n,]/)
+                      .map((name) => name.trim())
+                      .filter(Boolean),
+                  })
+                }
+              />
+            </div>
+
+            <div className="setting-item">
+              <div className="setting-info">
+                <div className="setting-label">Flag Unaliased Colors</div>
+                <div className="setting-description">
+                  Treat color variables that don't reference another variable
+                  as primitives
+                </div>
+              </div>
+              <label className="toggle">
+                <input
+                  type="checkbox"
+                  checked={semanticColorOptions.flagUnaliased === true}
+                  onChange={(e) =>
+                    handleUpdateRuleOptions(semanticColorRule, {
+                      flagUnaliased: e.target.checked,
+                    })
+                  }
+                />
+                <span className="toggle-slider"></span>
+              </label>
+            </div>
+          </>
+        )}
+      </div>
+
+      {imageAssetRule && (
+        <div className="settings-section">
+          <h3 className="settings-title">Image Assets</h3>
+
+          <div className="heuristics-field">
+            <div className="setting-label">Approved Image Hashes</div>
+            <div className="setting-description">
+              Image fills must use one of these images. Leave empty to skip the
+              check.
+            </div>
+            <textarea
+              key={approvedImageHashes.join("\n")}
+              className="filter-input heuristics-textarea"
+              defaultValue={approvedImageHashes.join("\n")}
+              rows={3}
+              onBlur={(e) =>
+                handleUpdateRuleOptions(imageAssetRule, {
+                  approvedImageHashes: e.target.value
+                    .split(/[\n,]/)
+                    .map((hash) => hash.trim())
+                    .filter(Boolean),
+                })
+              }
+            />
+            <button
+              className="btn btn-small btn-secondary"
+              onClick={() =>
+                parent.postMessage(
+                  { pluginMessage: { type: "get-selection-image-hashes" } },
+                  "*"
+                )
+              }
+            >
+              Add Images from Selection
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="settings-section">
+        <h3 className="settings-title">Scoring</h3>
+
+        <div className="setting-item">
+          <div className="setting-info">
+            <div className="setting-label">Exclude Hidden Layers</div>
+            <div className="setting-description">
+              Skip hidden and 0% opacity layers, including their children
+            </div>
+          </div>
+          <label className="toggle">
+            <input
+              type="checkbox"
+              checked={settings.scoring.excludeHidden}
+              onChange={(e) =>
+                handleUpdateScoring({ excludeHidden: e.target.checked })
+              }
+            />
+            <span className="toggle-slider"></span>
+          </label>
+        </div>
+
+        <div className="heuristics-field">
+          <div className="setting-label">Category Weights</div>
+          <div className="setting-description">
+            How much each coverage category counts in a layer's score
+          </div>
+          <div className="scoring-weights">
+            {(Object.keys(SCORE_CATEGORY_LABELS) as ScoreCategory[]).map(
+              (category) => (
+                <label key={category} className="scoring-weight">
+                  <span>{SCORE_CATEGORY_LABELS[category]}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    className="filter-input"
+                    value={settings.scoring.categoryWeights[category]}
+                    onChange={(e) => {
+                      const weight = Number(e.target.value);
+                      if (e.target.value === "" || weight < 0) return;
+                      handleUpdateScoring({
+                        categoryWeights: {
+                          ...settings.scoring.categoryWeights,
+                          [category]: weight,
+                        },
+                      });
+                    }}
+                  />
+                </label>
+              )
+            )}
+          </div>
+        </div>
+
+        <div className="heuristics-field">
+          <div className="setting-label">Layer Weighting</div>
+          <div className="setting-description">
+            Weigh layers equally, by their area, or less the deeper they are
+            nested
+          </div>
+          <select
+            className="filter-input"
+            value={settings.scoring.sizeWeighting}
+            onChange={(e) =>
+              handleUpdateScoring({
+                sizeWeighting: e.target.value as SizeWeighting,
+              })
+            }
+          >
+            <option value="none">Equal</option>
+            <option value="area">By area</option>
+            <option value="depth">By depth</option>
+          </select>
+        </div>
+
+        <div className="heuristics-field">
+          <div className="setting-label">Node Type Weights</div>
+          <div className="setting-description">
+            One TYPE=weight per line; unlisted types weigh 1
+          </div>
+          <textarea
+            key={formatTypeWeights(settings.scoring.nodeTypeWeights)}
+            className="filter-input heuristics-textarea"
+            defaultValue={formatTypeWeights(settings.scoring.nodeTypeWeights)}
+            placeholder={"INSTANCE=2\nVECTOR=0.25"}
+            rows={3}
+            onBlur={(e) =>
+              handleUpdateScoring({
+                nodeTypeWeights: parseTypeWeights(e.target.value),
+              })
+            }
+          />
+        </div>
+      </div>
+
+      <div className="settings-section">
+        <h3 className="settings-title">Quality Gate</h3>
+
+        <div className="heuristics-field">
+          <div className="setting-label">Minimum Scores</div>
+          <div className="setting-description">
+            Reports pass when every score meets its minimum; leave a field
+            empty to not gate that score
+          </div>
+          <div className="scoring-weights gate-thresholds">
+            {(Object.keys(GATE_METRIC_LABELS) as GateMetric[]).map(
+              (metric) => (
+                <label key={metric} className="scoring-weight">
+                  <span>{GATE_METRIC_LABELS[metric]} ≥ %</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={1}
+                    className="filter-input"
+                    placeholder="–"
+                    value={settings.thresholds[metric] ?? ""}
+                    onChange={(e) =>
+                      handleUpdateThreshold(metric, e.target.value)
+                    }
+                  />
+                </label>
+              )
+            )}
+          </div>
+        </div>
+      </div>
+
       <div className="settings-section">
         <h3 className="settings-title">Analysis Options</h3>
 
@@ -208,6 +1001,127 @@ const SettingsView: React.FC<SettingsViewProps> = ({
             <span className="toggle-slider"></span>
           </label>
         </div>
+
+        <div className="setting-item">
+          <div className="setting-info">
+            <div className="setting-label">Live Updates</div>
+            <div className="setting-description">
+              Re-check edited layers and update the score while the report is
+              open
+            </div>
+          </div>
+          <label className="toggle">
+            <input
+              type="checkbox"
+              checked={settings.liveUpdates}
+              onChange={(e) =>
+                onUpdateSettings({ liveUpdates: e.target.checked })
+              }
+            />
+            <span className="toggle-slider"></span>
+          </label>
+        </div>
+
+        <div className="setting-item">
+          <div className="setting-info">
+            <div className="setting-label">Record History</div>
+            <div className="setting-description">
+              Save the scores of each analysis run in the document for the
+              History view
+            </div>
+          </div>
+          <label className="toggle">
+            <input
+              type="checkbox"
+              checked={settings.recordHistory}
+              onChange={(e) =>
+                onUpdateSettings({ recordHistory: e.target.checked })
+              }
+            />
+            <span className="toggle-slider"></span>
+          </label>
+        </div>
+
+        <div className="heuristics-field">
+          <div className="setting-label">Library Instances</div>
+          <div className="setting-description">
+            Check every layer inside library instances, count each instance as
+            one compliant layer, or only check the layers overridden in it
+          </div>
+          <select
+            className="filter-input"
+            value={settings.instanceInternals}
+            onChange={(e) =>
+              onUpdateSettings({
+                instanceInternals: e.target.value as InstanceInternalsPolicy,
+              })
+            }
+          >
+            <option value="descend">Check all layers</option>
+            <option value="opaque">Treat as compliant unit</option>
+            <option value="overrides">Check overridden layers only</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="settings-section">
+        <h3 className="settings-title">Exemptions</h3>
+
+        <div className="heuristics-field">
+          <div className="setting-label">Exempt Name Prefixes</div>
+          <div className="setting-description">
+            Skip layers whose name starts with one of these, and everything
+            beneath them. Single layers can also be exempted from Details.
+          </div>
+          <textarea
+            key={settings.exemptNamePrefixes.join("\n")}
+            className="filter-input heuristics-textarea"
+            defaultValue={settings.exemptNamePrefixes.join("\n")}
+            placeholder={"_illustration\n[exempt]"}
+            rows={3}
+            onBlur={(e) =>
+              onUpdateSettings({
+                exemptNamePrefixes: e.target.value
+                  .split("\n")
+                  .map((prefix) => prefix.trim())
+                  .filter(Boolean),
+              })
+            }
+          />
+        </div>
+
+        <div className="heuristics-field">
+          <div className="setting-label">Exempt Components</div>
+          <div className="setting-description">
+            Instances of these component or component set keys, e.g.
+            third-party embeds
+          </div>
+          <textarea
+            key={settings.exemptComponentKeys.join("\n")}
+            className="filter-input heuristics-textarea"
+            defaultValue={settings.exemptComponentKeys.join("\n")}
+            rows={3}
+            onBlur={(e) =>
+              onUpdateSettings({
+                exemptComponentKeys: e.target.value
+                  .split(/[\n,]/)
+                  .map((key) => key.trim())
+                  .filter(Boolean),
+              })
+            }
+          />
+          <button
+            className="btn btn-small btn-secondary"
+            onClick={() =>
+              parent.postMessage(
+                { pluginMessage: { type: "get-selection-component-keys" } },
+                "*"
+              )
+            }
+          >
+            Add Selected Instances
+          </button>
+        </div>
       </div>
 
       <div className="settings-section">
@@ -1,14 +1,90 @@
 import React, { useState, useEffect } from "react";
 import { linearService } from "../utils/linearService";
-import type { CoverageAnalysis, LinearIssue, LinearConfig } from "../types";
+import { formatIssue } from "../utils/issues";
+import {
+  compareAnalyses,
+  ComparisonBase,
+  getComparableBase,
+  LayerComparison,
+  ScoreMetric,
+} from "../utils/analysisComparison";
+import type {
+  CoverageAnalysis,
+  CoverageProperty,
+  ExemptLayer,
+  LinearIssue,
+  LinearConfig,
+} from "../types";
+
+const PROPERTY_LABELS: Record<CoverageProperty, string> = {
+  fill: "Fill",
+  stroke: "Stroke",
+  text: "Text",
+  radius: "Corner Radius",
+  padding: "Padding",
+  gap: "Gap",
+  effect: "Effect",
+  strokeWeight: "Stroke Weight",
+  opacity: "Opacity",
+  grid: "Layout Grid",
+};
+
+const DELTA_LABELS: Record<ScoreMetric, string> = {
+  overallScore: "Overall",
+  componentCoverage: "Component",
+  tokenCoverage: "Token",
+  styleCoverage: "Style",
+};
+
+// Layers listed per comparison group before the rest are summarized
+const MAX_COMPARISON_LAYERS = 20;
 
 interface SummaryViewProps {
   analysis: CoverageAnalysis;
   onExport: (format: "json" | "csv") => void;
+  onSelectLayer?: (layerId: string) => void;
+  onClearExemption?: (layerId: string) => void;
+  comparisonBase?: ComparisonBase | null;
+  onSaveSnapshot?: () => void;
+  onImportComparison?: (fileName: string, contents: string) => void;
+  onClearComparison?: () => void;
+  onUpdateBaseline?: (frameIds: string[], record: boolean) => void;
+  // The frame selected on the canvas, if any
+  selectedFrameId?: string | null;
 }
 
-const SummaryView: React.FC<SummaryViewProps> = ({ analysis, onExport }) => {
-  const { summary, details } = analysis;
+function formatDelta(delta: number): string {
+  if (delta > 0) return `▲ +${delta}`;
+  if (delta < 0) return `▼ ${delta}`;
+  return "±0";
+}
+
+function getDeltaClass(delta: number): string {
+  if (delta > 0) return "improved";
+  if (delta < 0) return "regressed";
+  return "";
+}
+
+const SummaryView: React.FC<SummaryViewProps> = ({
+  analysis,
+  onExport,
+  onSelectLayer,
+  onClearExemption,
+  comparisonBase,
+  onSaveSnapshot,
+  onImportComparison,
+  onClearComparison,
+  onUpdateBaseline,
+  selectedFrameId,
+}) => {
+  // "" shows the aggregate; otherwise the index of a frame in analysis.frames
+  const [activeFrame, setActiveFrame] = useState<string>("");
+  const frames = analysis.frames ?? [];
+  const activeAnalysis =
+    activeFrame !== "" && frames[Number(activeFrame)]
+      ? frames[Number(activeFrame)]
+      : analysis;
+  const { summary, details } = activeAnalysis;
   const [showPerfect, setShowPerfect] = React.useState<boolean>(false);
   const [isSendingToLinear, setIsSendingToLinear] = useState(false);
   const [linearStatus, setLinearStatus] = useState<{
@@ -23,6 +99,7 @@ const SummaryView: React.FC<SummaryViewProps> = ({ analysis, onExport }) => {
   >([]);
   const [loadingTeamMembers, setLoadingTeamMembers] = useState(false);
   const [linearConfig, setLinearConfig] = useState<LinearConfig | null>(null);
+  const comparisonFileInput = React.useRef<HTMLInputElement>(null);
 
   // Load Linear config on component mount
   useEffect(() => {
@@ -44,6 +121,24 @@ const SummaryView: React.FC<SummaryViewProps> = ({ analysis, onExport }) => {
     return () => window.removeEventListener("message", handleMessage);
   }, []);
 
+  // Live updates replace the analysis on every edit; the chosen frame is only
+  // reset when the analyzed frames change
+  const frameIds = frames
+    .map((frame) => frame.summary.analyzedFrameId)
+    .join(",");
+  useEffect(() => {
+    setActiveFrame("");
+  }, [frameIds]);
+
+  // Selecting an analyzed frame on the canvas shows its results; page and
+  // document reports aren't re-run for it
+  useEffect(() => {
+    const index = frames.findIndex(
+      (frame) => frame.summary.analyzedFrameId === selectedFrameId
+    );
+    if (index !== -1) setActiveFrame(String(index));
+  }, [selectedFrameId, frameIds]);
+
   const sortedEntries = React.useMemo(
     () =>
       Object.entries(details.byType)
@@ -52,6 +147,130 @@ const SummaryView: React.FC<SummaryViewProps> = ({ analysis, onExport }) => {
     [details.byType, showPerfect]
   );
 
+  const propertyEntries = React.useMemo(
+    () =>
+      (Object.keys(PROPERTY_LABELS) as CoverageProperty[])
+        .filter((property) => details.byProperty[property])
+        .map((property) => [property, details.byProperty[property]!] as const),
+    [details.byProperty]
+  );
+
+  const exemptGroups = React.useMemo(() => {
+    const groups = new Map<string, ExemptLayer[]>();
+    details.exemptLayers.forEach((layer) => {
+      groups.set(layer.reason, [...(groups.get(layer.reason) ?? []), layer]);
+    });
+    return Array.from(groups.entries());
+  }, [details.exemptLayers]);
+
+  const baselineFrameIds = (activeAnalysis.frames ?? [activeAnalysis])
+    .map((frame) => frame.summary.analyzedFrameId)
+    .filter((id): id is string => !!id);
+
+  const [removedLayerIds, setRemovedLayerIds] = useState<string[]>([]);
+  const comparison = React.useMemo(
+    () =>
+      comparisonBase
+        ? compareAnalyses(
+            getComparableBase(comparisonBase.analysis, activeAnalysis),
+            activeAnalysis,
+            new Set(removedLayerIds)
+          )
+        : null,
+    [comparisonBase, activeAnalysis, removedLayerIds]
+  );
+
+  // Base layers without violations now are looked up in the file, so deleted
+  // layers aren't counted as fixed
+  const unmatchedLayerIds = comparison
+    ? [...comparison.fixedLayers, ...comparison.removedLayers]
+        .map((layer) => layer.id)
+        .join(",")
+    : "";
+  useEffect(() => {
+    if (!unmatchedLayerIds) return;
+    parent.postMessage(
+      {
+        pluginMessage: {
+          type: "get-removed-layers",
+          layerIds: unmatchedLayerIds.split(","),
+        },
+      },
+      "*"
+    );
+  }, [unmatchedLayerIds]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const msg = event.data.pluginMessage;
+      if (msg?.type === "removed-layers") {
+        setRemovedLayerIds(msg.layerIds);
+      }
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, []);
+
+  const handleImportComparison = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () =>
+      onImportComparison?.(file.name, String(reader.result ?? ""));
+    reader.readAsText(file);
+  };
+
+  const renderComparisonGroup = (
+    title: string,
+    layers: LayerComparison[],
+    canSelect = true
+  ) =>
+    layers.length > 0 && (
+      <div className="breakdown-item comparison-group">
+        <div className="breakdown-name">{title}</div>
+        <div className="breakdown-stats">
+          <div className="breakdown-count">{layers.length} layers</div>
+        </div>
+        <div className="comparison-layers">
+          {layers.slice(0, MAX_COMPARISON_LAYERS).map((layer) => (
+            <div key={layer.id} className="comparison-layer">
+              <div className="comparison-layer-header">
+                <span className="comparison-layer-name" title={layer.path}>
+                  {layer.name}
+                </span>
+                {onSelectLayer && canSelect && (
+                  <button
+                    className="btn btn-small btn-secondary"
+                    onClick={() => onSelectLayer(layer.id)}
+                    title="Select in Figma"
+                  >
+                    📍
+                  </button>
+                )}
+              </div>
+              {layer.addedIssues.map((issue, index) => (
+                <div key={`added-${index}`} className="comparison-issue added">
+                  + {formatIssue(issue)}
+                </div>
+              ))}
+              {layer.resolvedIssues.map((issue, index) => (
+                <div
+                  key={`resolved-${index}`}
+                  className="comparison-issue resolved"
+                >
+                  − {formatIssue(issue)}
+                </div>
+              ))}
+            </div>
+          ))}
+          {layers.length > MAX_COMPARISON_LAYERS && (
+            <div className="comparison-more">
+              …and {layers.length - MAX_COMPARISON_LAYERS} more
+            </div>
+          )}
+        </div>
+      </div>
+    );
+
   const getScoreClass = (score: number) => {
     if (score >= 80) return "high";
     if (score >= 50) return "medium";
@@ -153,7 +372,7 @@ const SummaryView: React.FC<SummaryViewProps> = ({ analysis, onExport }) => {
       });
 
       const result = await linearService.createIssue(
-        analysis,
+        activeAnalysis,
         fileInfo.fileKey,
         fileInfo.nodeId,
         assigneeEmail
@@ -171,7 +390,7 @@ const SummaryView: React.FC<SummaryViewProps> = ({ analysis, onExport }) => {
           {
             pluginMessage: {
               type: "create-canvas-report",
-              analysis: analysis,
+              analysis: activeAnalysis,
               linearIssue: result.issue,
               assigneeEmail: assigneeEmail,
             },
@@ -196,12 +415,58 @@ const SummaryView: React.FC<SummaryViewProps> = ({ analysis, onExport }) => {
 
   return (
     <div className="summary-view">
+      {frames.length > 0 && (
+        <div className="frame-switcher">
+          <select
+            className="filter-input"
+            value={activeFrame}
+            onChange={(e) => setActiveFrame(e.target.value)}
+          >
+            <option value="">
+              All frames ({frames.length}) · {analysis.summary.overallScore}%
+            </option>
+            {frames.map((frame, index) => (
+              <option
+                key={frame.summary.analyzedFrameId ?? index}
+                value={String(index)}
+              >
+                {frame.summary.analyzedFrameName} ·{" "}
+                {frame.summary.overallScore}%
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       <div className="score-card">
         <div className={`score-value ${getScoreClass(summary.overallScore)}`}>
           {summary.overallScore}%
         </div>
         <div className="score-label">Design System Compliance</div>
         <div className="score-sublabel">{summary.analyzedFrameName}</div>
+        {summary.verdict && (
+          <div
+            className={`gate-verdict ${
+              summary.verdict.passed ? "passed" : "failed"
+            }`}
+          >
+            <div className="gate-verdict-title">
+              {summary.verdict.passed
+                ? "✅ Quality gate passed"
+                : "❌ Quality gate failed"}
+            </div>
+            {summary.verdict.failures.length > 0 && (
+              <ul>
+                {summary.verdict.failures.map((failure) => (
+                  <li key={failure.metric}>
+                    {failure.label} {failure.score}% is below{" "}
+                    {failure.threshold}%
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
       </div>
 
       <div className="metrics-grid">
@@ -214,6 +479,10 @@ const SummaryView: React.FC<SummaryViewProps> = ({ analysis, onExport }) => {
           >
             {summary.componentCoverage}%
           </div>
+          <div className="metric-detail">
+            {details.byCategory.component.properties.compliant} /{" "}
+            {details.byCategory.component.properties.total} checks
+          </div>
         </div>
         <div className="metric">
           <div className="metric-label">Token Coverage</div>
@@ -222,6 +491,10 @@ const SummaryView: React.FC<SummaryViewProps> = ({ analysis, onExport }) => {
           >
             {summary.tokenCoverage}%
           </div>
+          <div className="metric-detail">
+            {details.byCategory.token.properties.compliant} /{" "}
+            {details.byCategory.token.properties.total} checks
+          </div>
         </div>
         <div className="metric">
           <div className="metric-label">Style Coverage</div>
@@ -230,9 +503,223 @@ const SummaryView: React.FC<SummaryViewProps> = ({ analysis, onExport }) => {
           >
             {summary.styleCoverage}%
           </div>
+          <div className="metric-detail">
+            {details.byCategory.style.properties.compliant} /{" "}
+            {details.byCategory.style.properties.total} checks
+          </div>
+        </div>
+        <div className="metric">
+          <div className="metric-label">Attached Instances</div>
+          <div
+            className={`metric-value ${getScoreClass(
+              summary.attachedInstanceCoverage
+            )}`}
+          >
+            {summary.attachedInstanceCoverage}%
+          </div>
+          <div className="metric-detail">
+            {summary.detachedInstances} detached
+          </div>
+        </div>
+        <div className="metric">
+          <div className="metric-label">Unmodified Instances</div>
+          <div
+            className={`metric-value ${getScoreClass(
+              summary.unmodifiedInstanceCoverage
+            )}`}
+          >
+            {summary.unmodifiedInstanceCoverage}%
+          </div>
+          <div className="metric-detail">
+            {summary.overriddenInstances} overridden
+          </div>
         </div>
       </div>
 
+      {onUpdateBaseline && baselineFrameIds.length > 0 && (
+        <div className="type-breakdown">
+          <div className="breakdown-header">
+            <h3 className="breakdown-title">Baseline</h3>
+            <div className="comparison-actions">
+              <button
+                className="btn btn-small btn-secondary"
+                onClick={() => onUpdateBaseline(baselineFrameIds, true)}
+                title="Accept the current violations as known debt"
+              >
+                {summary.baselineRecordedAt
+                  ? "Update Baseline"
+                  : "Record Baseline"}
+              </button>
+              {summary.baselineRecordedAt && (
+                <button
+                  className="btn btn-small btn-secondary"
+                  onClick={() => onUpdateBaseline(baselineFrameIds, false)}
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+          </div>
+          {summary.baselineRecordedAt ? (
+            <>
+              <div className="breakdown-item">
+                <div className="breakdown-name">New since baseline</div>
+                <div className="breakdown-stats">
+                  <div
+                    className={`breakdown-percentage ${
+                      summary.newIssues > 0 ? "low" : "high"
+                    }`}
+                  >
+                    {summary.newIssues} issues
+                  </div>
+                </div>
+              </div>
+              <div className="breakdown-item">
+                <div className="breakdown-name">Accepted in baseline</div>
+                <div className="breakdown-stats">
+                  <div className="breakdown-count">
+                    {summary.baselineIssues} issues
+                  </div>
+                </div>
+              </div>
+              <div className="comparison-base">
+                Recorded{" "}
+                {new Date(summary.baselineRecordedAt).toLocaleString()}. The
+                score above still includes accepted issues
+              </div>
+            </>
+          ) : (
+            <div className="info-message">
+              Record the current violations as accepted debt so the Detailed
+              Report only lists issues introduced after it
+            </div>
+          )}
+        </div>
+      )}
+
+      {onSaveSnapshot && (
+        <div className="type-breakdown">
+          <div className="breakdown-header">
+            <h3 className="breakdown-title">Comparison</h3>
+            <div className="comparison-actions">
+              <button
+                className="btn btn-small btn-secondary"
+                onClick={onSaveSnapshot}
+                title="Compare later results with the current report"
+              >
+                Save Snapshot
+              </button>
+              <button
+                className="btn btn-small btn-secondary"
+                onClick={() => comparisonFileInput.current?.click()}
+                title="Compare with a report saved with Export JSON"
+              >
+                Import…
+              </button>
+              {comparisonBase && onClearComparison && (
+                <button
+                  className="btn btn-small btn-secondary"
+                  onClick={onClearComparison}
+                >
+                  Clear
+                </button>
+              )}
+              <input
+                ref={comparisonFileInput}
+                type="file"
+                accept=".json,application/json"
+                style={{ display: "none" }}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImportComparison(file);
+                  e.target.value = "";
+                }}
+              />
+            </div>
+          </div>
+          {!comparisonBase || !comparison ? (
+            <div className="info-message">
+              Save a snapshot before fixing issues, or import an exported JSON
+              report, to see which layers were fixed and which regressed
+            </div>
+          ) : (
+            <>
+              <div className="comparison-summary">
+                <div className="comparison-base">
+                  Compared with {comparisonBase.label}
+                </div>
+                <div className="comparison-deltas">
+                  {(Object.keys(DELTA_LABELS) as ScoreMetric[]).map(
+                    (metric) => (
+                      <div key={metric} className="comparison-delta">
+                        <span className="comparison-delta-label">
+                          {DELTA_LABELS[metric]}
+                        </span>
+                        <span
+                          className={`comparison-delta-value ${getDeltaClass(
+                            comparison.scoreDelta[metric]
+                          )}`}
+                        >
+                          {formatDelta(comparison.scoreDelta[metric])}
+                        </span>
+                      </div>
+                    )
+                  )}
+                </div>
+              </div>
+              {renderComparisonGroup(
+                "Newly Compliant",
+                comparison.fixedLayers
+              )}
+              {renderComparisonGroup(
+                "Removed Layers",
+                comparison.removedLayers,
+                false
+              )}
+              {renderComparisonGroup(
+                "New Violations",
+                comparison.regressedLayers
+              )}
+              {renderComparisonGroup(
+                "Changed Issues",
+                comparison.changedLayers
+              )}
+              {comparison.fixedLayers.length === 0 &&
+                comparison.removedLayers.length === 0 &&
+                comparison.regressedLayers.length === 0 &&
+                comparison.changedLayers.length === 0 && (
+                  <div className="info-message">No layers changed status</div>
+                )}
+            </>
+          )}
+        </div>
+      )}
+
+      {propertyEntries.length > 0 && (
+        <div className="type-breakdown">
+          <div className="breakdown-header">
+            <h3 className="breakdown-title">Coverage by Property</h3>
+          </div>
+          {propertyEntries.map(([property, stats]) => (
+            <div key={property} className="breakdown-item">
+              <div className="breakdown-name">{PROPERTY_LABELS[property]}</div>
+              <div className="breakdown-stats">
+                <div className="breakdown-count">
+                  {stats.compliant} / {stats.total}
+                </div>
+                <div
+                  className={`breakdown-percentage ${getScoreClass(
+                    stats.percentage
+                  )}`}
+                >
+                  {stats.percentage}%
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="type-breakdown">
         <div className="breakdown-header">
           <h3 className="breakdown-title">Coverage by Element Type</h3>
@@ -272,6 +759,54 @@ const SummaryView: React.FC<SummaryViewProps> = ({ analysis, onExport }) => {
         ))}
       </div>
 
+      {exemptGroups.length > 0 && (
+        <div className="type-breakdown">
+          <div className="breakdown-header">
+            <h3 className="breakdown-title">
+              Exempt Layers ({summary.exemptLayers})
+            </h3>
+          </div>
+          {exemptGroups.map(([reason, layers]) => (
+            <div key={reason} className="breakdown-item exempt-group">
+              <div className="breakdown-name">{reason}</div>
+              <div className="breakdown-stats">
+                <div className="breakdown-count">
+                  {layers.reduce((total, layer) => total + layer.layerCount, 0)}{" "}
+                  layers
+                </div>
+              </div>
+              <div className="exempt-layers">
+                {layers.map((layer) => (
+                  <div key={layer.id} className="exempt-layer">
+                    <span className="exempt-layer-name" title={layer.path}>
+                      {layer.name}
+                    </span>
+                    {onSelectLayer && (
+                      <button
+                        className="btn btn-small btn-secondary"
+                        onClick={() => onSelectLayer(layer.id)}
+                        title="Select in Figma"
+                      >
+                        📍
+                      </button>
+                    )}
+                    {onClearExemption && layer.source === "annotation" && (
+                      <button
+                        className="btn btn-small btn-secondary"
+                        onClick={() => onClearExemption(layer.id)}
+                        title="Analyze this layer again"
+                      >
+                        Include
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {linearConfig && linearConfig.enabled && (
         <div className="linear-section">
           <h3 className="export-title">Linear Integration</h3>
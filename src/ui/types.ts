@@ -1,7 +1,14 @@
+export type AnalysisScope = "selection" | "page" | "document";
+
 export interface CoverageAnalysis {
   summary: CoverageSummary;
   details: CoverageDetails;
   settings: AnalysisSettings;
+  scoring: ScoreFormula;
+  // Multi-frame analyses carry the aggregate at the top level plus the
+  // individual per-frame results.
+  scope?: AnalysisScope;
+  frames?: CoverageAnalysis[];
 }
 
 export interface CoverageSummary {
@@ -9,19 +16,85 @@ export interface CoverageSummary {
   componentCoverage: number;
   tokenCoverage: number;
   styleCoverage: number;
+  // Share of component usages that are still instances, i.e. not detached
+  attachedInstanceCoverage: number;
+  // Share of instances without flagged overrides
+  unmodifiedInstanceCoverage: number;
+  detachedInstances: number;
+  overriddenInstances: number;
   totalLayers: number;
   compliantLayers: number;
+  // Layers skipped as exempt, including everything beneath them
+  exemptLayers: number;
+  // Violations not in the baseline, and those accepted in it
+  newIssues: number;
+  baselineIssues: number;
+  baselineRecordedAt?: number;
+  // Pass/fail against the thresholds in settings, when any are set
+  verdict?: QualityGateVerdict;
   analyzedFrameName: string;
+  analyzedFrameId?: string;
+}
+
+export type GateMetric =
+  | "overallScore"
+  | "componentCoverage"
+  | "tokenCoverage"
+  | "styleCoverage";
+
+// Minimum score per metric; metrics without a threshold aren't gated.
+export type CoverageThresholds = Partial<Record<GateMetric, number>>;
+
+export interface GateFailure {
+  metric: GateMetric;
+  label: string;
+  score: number;
+  threshold: number;
+}
+
+export interface QualityGateVerdict {
+  passed: boolean;
+  failures: GateFailure[];
+}
+
+// Sent after a live update; layers are patched by id and the summary and
+// breakdowns replace the previous ones.
+export interface CoverageDelta {
+  summary: CoverageSummary;
+  scoring: ScoreFormula;
+  details: Omit<CoverageDetails, "nonCompliantLayers">;
+  changedLayers: NonCompliantLayer[];
+  removedLayerIds: string[];
+}
+
+export interface AnalysisDelta extends CoverageDelta {
+  frames?: Record<string, CoverageDelta>;
+  removedFrameIds?: string[];
 }
 
 export interface CoverageDetails {
   byType: TypeBreakdown;
+  byCategory: CategoryBreakdown;
+  byProperty: PropertyBreakdown;
   nonCompliantLayers: NonCompliantLayer[];
+  exemptLayers: ExemptLayer[];
   suggestions?: {
     autoLayout?: AutoLayoutSuggestion[];
   };
 }
 
+export type ExemptionSource = "annotation" | "name" | "component";
+
+export interface ExemptLayer {
+  id: string;
+  name: string;
+  type: string;
+  path: string;
+  source: ExemptionSource;
+  reason: string;
+  layerCount: number;
+}
+
 export interface TypeBreakdown {
   [key: string]: {
     total: number;
@@ -30,14 +103,91 @@ export interface TypeBreakdown {
   };
 }
 
+export interface CoverageCount {
+  total: number;
+  compliant: number;
+  percentage: number;
+}
+
+export type CoverageCategory = "component" | "token" | "style";
+
+export interface CategoryCoverage {
+  layers: CoverageCount;
+  properties: CoverageCount;
+}
+
+export type CategoryBreakdown = Record<CoverageCategory, CategoryCoverage>;
+
+export type CoverageProperty =
+  | "fill"
+  | "stroke"
+  | "text"
+  | "radius"
+  | "padding"
+  | "gap"
+  | "effect"
+  | "strokeWeight"
+  | "opacity"
+  | "grid";
+
+export type PropertyBreakdown = Partial<
+  Record<CoverageProperty, CoverageCount>
+>;
+
 export interface NonCompliantLayer {
   id: string;
   name: string;
   type: string;
-  issues: string[];
+  issues: CoverageIssue[];
   path: string;
 }
 
+export type IssueCategory = "component" | "token" | "style" | "layout";
+
+export type IssueSeverity = "critical" | "warning" | "suggestion" | "pass";
+
+export type IssueRuleId =
+  | "library-component"
+  | "reusable-element"
+  | "detached-instance"
+  | "overridden-instance"
+  | "fill-token"
+  | "stroke-token"
+  | "text-token"
+  | "gap-token"
+  | "approved-variable"
+  | "semantic-color-token"
+  | "variable-scope"
+  | "fill-style"
+  | "stroke-style"
+  | "gradient-token"
+  | "gradient-style"
+  | "image-asset"
+  | "text-style"
+  | "typography-match"
+  | "effect-style"
+  | "corner-radius-token"
+  | "padding-token"
+  | "stroke-weight-token"
+  | "opacity-token"
+  | "layout-grid-style"
+  | "auto-layout";
+
+export interface CoverageIssue {
+  ruleId: IssueRuleId;
+  category: IssueCategory;
+  severity: IssueSeverity;
+  property?: string;
+  value?: string | number;
+  expected?: string | number;
+  count?: number;
+  source?: "variable" | "style";
+  suggestedFix?: string;
+  message: string;
+  // Violation accepted in the frame's baseline
+  inBaseline?: boolean;
+}
+
 export interface AutoLayoutSuggestion {
   id: string;
   name: string;
@@ -51,6 +201,91 @@ export interface AnalysisSettings {
   checkStyles: boolean;
   allowLocalStyles: boolean;
   ignoredTypes: string[];
+  rules: RuleSettings;
+  scoring: ScoringSettings;
+  approvedCollectionKeys: string[];
+  liveUpdates: boolean;
+  recordHistory: boolean;
+  thresholds: CoverageThresholds;
+  instanceInternals: InstanceInternalsPolicy;
+  exemptNamePrefixes: string[];
+  exemptComponentKeys: string[];
+}
+
+export type InstanceInternalsPolicy = "descend" | "opaque" | "overrides";
+
+// Settings changes are saved for everyone in the document or only for the
+// current user, on top of the document's settings.
+export type SettingsTarget = "document" | "personal";
+
+export interface SettingsScope {
+  hasSharedSettings: boolean;
+  // Overridden setting names, with rules as "rules.<id>"
+  personalOverrides: string[];
+  // Named rule profiles stored in the document; the active one is the team
+  // settings
+  activeProfile: string;
+  profiles: string[];
+}
+
+// The scores of one analysis run of a frame, stored in the document.
+// settingsHash tells runs with different settings apart.
+export interface CoverageSnapshot {
+  timestamp: number;
+  frameId: string;
+  frameName: string;
+  settingsHash: string;
+  overallScore: number;
+  componentCoverage: number;
+  tokenCoverage: number;
+  styleCoverage: number;
+  totalLayers: number;
+  compliantLayers: number;
+}
+
+export interface VariableCollectionSummary {
+  key: string;
+  name: string;
+  libraryName?: string;
+}
+
+export type ScoreCategory = "component" | "token" | "style";
+
+export type SizeWeighting = "none" | "area" | "depth";
+
+export interface ScoringSettings {
+  categoryWeights: Record<ScoreCategory, number>;
+  nodeTypeWeights: Record<string, number>;
+  sizeWeighting: SizeWeighting;
+  excludeHidden: boolean;
+}
+
+export interface ScoreFormula {
+  formula: string;
+  settings: ScoringSettings;
+  totalWeight: number;
+  weightedCompliance: number;
+}
+
+export type RuleSeverity = Exclude<IssueSeverity, "pass">;
+
+export interface RuleConfig {
+  enabled?: boolean;
+  severity?: RuleSeverity;
+  nodeTypes?: string[];
+  options?: Record<string, unknown>;
+}
+
+export type RuleSettings = Partial<Record<IssueRuleId, RuleConfig>>;
+
+export interface RuleDescriptor {
+  id: IssueRuleId;
+  name: string;
+  description: string;
+  category: IssueCategory;
+  severity: RuleSeverity;
+  nodeTypes: string[] | null;
+  defaultOptions: Record<string, unknown>;
 }
 
 export type NamingConventionOption =
@@ -172,10 +407,30 @@ export interface LinearIssue {
 
 export type PluginMessage =
   | { type: "analysis-started" }
-  | { type: "analysis-progress"; progress: number }
+  | {
+      type: "analysis-progress";
+      progress: number;
+      total?: number;
+      percent?: number;
+    }
+  | { type: "analysis-cancelled" }
   | { type: "analysis-complete"; data: CoverageAnalysis }
+  | { type: "analysis-delta"; delta: AnalysisDelta }
   | { type: "error"; message: string }
-  | { type: "settings-updated"; settings: AnalysisSettings }
+  | {
+      type: "settings-updated";
+      settings: AnalysisSettings;
+      rules: RuleDescriptor[];
+      settingsScope?: SettingsScope;
+    }
+  | {
+      type: "coverage-history";
+      histories: Record<string, CoverageSnapshot[]>;
+    }
+  | {
+      type: "variable-collections";
+      collections: VariableCollectionSummary[];
+    }
   | { type: "linear-config-updated"; config: LinearConfig }
   | { type: "linear-config-loaded"; config: LinearConfig | null }
   | { type: "linear-issue-created"; issue: LinearIssue }
@@ -241,15 +496,44 @@ export interface RGBA {
   a: number;
 }
 
+// An existing variable close to a hard-coded value. distance is ΔE (OKLab)
+// for colors and px for spacing.
+export interface TokenMatch {
+  variableId: string;
+  name: string;
+  collectionName: string;
+  libraryName?: string;
+  distance: number;
+}
+
+// Collection the fix wizard creates variables in. Leave both empty to use the
+// first local collection.
+export interface VariableTarget {
+  collectionId?: string;
+  collectionName?: string;
+}
+
+export interface VariableTargetCollection {
+  id: string;
+  name: string;
+  modes: Array<{ modeId: string; name: string }>;
+  variables: Array<{ name: string; resolvedType: string }>;
+}
+
 export interface ColorData {
   type: "fill" | "stroke";
   color: RGB;
   index: number;
+  matches?: TokenMatch[];
 }
 
 export interface VariableBinding {
   variableName: string;
+  // Set when binding an existing token instead of creating a variable
+  variableId?: string;
   color: RGB;
+  // Values for other modes of the target collection, keyed by modeId
+  modeValues?: Record<string, RGB>;
   type: "fill" | "stroke";
   index: number;
 }
@@ -263,15 +547,26 @@ export interface SpacingData {
     | "paddingLeft"
     | "paddingHorizontal"
     | "paddingVertical"
-    | "itemSpacing";
+    | "itemSpacing"
+    | "strokeWeight"
+    | "strokeTopWeight"
+    | "strokeRightWeight"
+    | "strokeBottomWeight"
+    | "strokeLeftWeight"
+    | "opacity";
   value: number;
   property: string;
   properties?: string[]; // For grouped properties like paddingHorizontal -> ["paddingLeft", "paddingRight"]
+  matches?: TokenMatch[];
 }
 
 export interface SpacingVariableBinding {
   variableName: string;
+  // Set when binding an existing token instead of creating a variable
+  variableId?: string;
   value: number;
+  // Values for other modes of the target collection, keyed by modeId
+  modeValues?: Record<string, number>;
   type:
     | "cornerRadius"
     | "paddingTop"
@@ -280,11 +575,82 @@ export interface SpacingVariableBinding {
     | "paddingLeft"
     | "paddingHorizontal"
     | "paddingVertical"
-    | "itemSpacing";
+    | "itemSpacing"
+    | "strokeWeight"
+    | "strokeTopWeight"
+    | "strokeRightWeight"
+    | "strokeBottomWeight"
+    | "strokeLeftWeight"
+    | "opacity";
   property: string;
   properties?: string[]; // For grouped properties like paddingHorizontal -> ["paddingLeft", "paddingRight"]
 }
 
+// Closest text style for an un-styled text range; distance 0 is exact.
+export interface TextStyleMatch {
+  styleId: string;
+  name: string;
+  remote: boolean;
+  distance: number;
+}
+
+// Un-styled text range; ranges sharing a key (family, weight, size and line
+// height) are fixed with the same text style.
+export interface TypographyData {
+  key: string;
+  start: number;
+  end: number;
+  characters: string;
+  fontName: { family: string; style: string };
+  fontSize: number;
+  lineHeight: number | "auto";
+  value: string;
+  matches: TextStyleMatch[];
+}
+
+// styleId applies an existing style; without it a new style named styleName
+// is created.
+export interface BulkTextStyleAssignment {
+  key: string;
+  styleId?: string;
+  styleName: string;
+}
+
+// A layer's local layout grids; layers sharing a key get the same grid style.
+export interface GridData {
+  key: string;
+  description: string;
+  count: number;
+}
+
+export interface BulkGridStyleAssignment {
+  key: string;
+  styleName: string;
+}
+
+// A gradient paint style offered for a layer's gradient; exact styles have
+// the same paints.
+export interface PaintStyleOption {
+  styleId: string;
+  name: string;
+  remote: boolean;
+  exact: boolean;
+}
+
+// Un-styled gradient fills or strokes; layers sharing a key get the same
+// paint style.
+export interface GradientData {
+  key: string;
+  property: "fills" | "strokes";
+  description: string;
+  matches: PaintStyleOption[];
+}
+
+export interface BulkPaintStyleAssignment {
+  key: string;
+  styleId: string;
+}
+
 export interface EffectData {
   key: string;
   index: number;
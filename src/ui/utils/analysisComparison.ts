@@ -0,0 +1,195 @@
+import {
+  CoverageAnalysis,
+  CoverageIssue,
+  CoverageSummary,
+  NonCompliantLayer,
+} from "../types";
+import { isViolation } from "./issues";
+
+// The analysis a report is compared against: a snapshot saved in this session
+// or a previously exported JSON report.
+export interface ComparisonBase {
+  label: string;
+  analysis: CoverageAnalysis;
+}
+
+export type ScoreMetric =
+  | "overallScore"
+  | "componentCoverage"
+  | "tokenCoverage"
+  | "styleCoverage";
+
+export interface LayerComparison {
+  id: string;
+  name: string;
+  type: string;
+  path: string;
+  // Violations found now but not in the base, and the other way round
+  addedIssues: CoverageIssue[];
+  resolvedIssues: CoverageIssue[];
+}
+
+export interface AnalysisComparison {
+  scoreDelta: Record<ScoreMetric, number>;
+  // Layers with violations in the base and none now
+  fixedLayers: LayerComparison[];
+  // Layers with violations in the base that were deleted since
+  removedLayers: LayerComparison[];
+  // Layers without violations in the base that have some now
+  regressedLayers: LayerComparison[];
+  // Layers with violations in both whose violations changed
+  changedLayers: LayerComparison[];
+}
+
+const SCORE_METRICS: ScoreMetric[] = [
+  "overallScore",
+  "componentCoverage",
+  "tokenCoverage",
+  "styleCoverage",
+];
+
+// Rule and property tell violations of one layer apart; a changed severity
+// counts as a changed issue.
+function getIssueKey(issue: CoverageIssue): string {
+  return `${issue.ruleId}:${issue.property ?? ""}:${issue.severity}`;
+}
+
+function getLayerPathKey(layer: NonCompliantLayer): string {
+  return `${layer.type}:${layer.path}`;
+}
+
+function getViolatingLayers(analysis: CoverageAnalysis): NonCompliantLayer[] {
+  return analysis.details.nonCompliantLayers.filter((layer) =>
+    layer.issues.some(isViolation)
+  );
+}
+
+function compareIssues(
+  layer: NonCompliantLayer,
+  issues: CoverageIssue[],
+  baseIssues: CoverageIssue[]
+): LayerComparison {
+  const keys = new Set(issues.map(getIssueKey));
+  const baseKeys = new Set(baseIssues.map(getIssueKey));
+  return {
+    id: layer.id,
+    name: layer.name,
+    type: layer.type,
+    path: layer.path,
+    addedIssues: issues.filter((issue) => !baseKeys.has(getIssueKey(issue))),
+    resolvedIssues: baseIssues.filter(
+      (issue) => !keys.has(getIssueKey(issue))
+    ),
+  };
+}
+
+// The part of the base that corresponds to the report: the same frame when a
+// single frame of a multi-frame analysis is shown, otherwise the whole base.
+export function getComparableBase(
+  base: CoverageAnalysis,
+  analysis: CoverageAnalysis
+): CoverageAnalysis {
+  const frameId = analysis.summary.analyzedFrameId;
+  if (!frameId || analysis.frames) return base;
+  const frames = base.frames ?? [base];
+  return (
+    frames.find((frame) => frame.summary.analyzedFrameId === frameId) ?? base
+  );
+}
+
+// Layers are matched by id, falling back to type and path so reports of a
+// duplicated frame or another copy of the file can still be compared. Base
+// layers without a match only count as fixed when they weren't removed.
+export function compareAnalyses(
+  base: CoverageAnalysis,
+  analysis: CoverageAnalysis,
+  removedLayerIds: ReadonlySet<string> = new Set()
+): AnalysisComparison {
+  const baseLayers = getViolatingLayers(base);
+  const layers = getViolatingLayers(analysis);
+  const baseById = new Map(baseLayers.map((layer) => [layer.id, layer]));
+  const baseByPath = new Map(
+    baseLayers.map((layer) => [getLayerPathKey(layer), layer])
+  );
+  const matchedBaseLayers = new Set<NonCompliantLayer>();
+
+  const regressedLayers: LayerComparison[] = [];
+  const changedLayers: LayerComparison[] = [];
+  layers.forEach((layer) => {
+    const issues = layer.issues.filter(isViolation);
+    const baseLayer =
+      baseById.get(layer.id) ?? baseByPath.get(getLayerPathKey(layer));
+    if (!baseLayer || matchedBaseLayers.has(baseLayer)) {
+      regressedLayers.push(compareIssues(layer, issues, []));
+      return;
+    }
+    matchedBaseLayers.add(baseLayer);
+    const comparison = compareIssues(
+      layer,
+      issues,
+      baseLayer.issues.filter(isViolation)
+    );
+    if (comparison.addedIssues.length || comparison.resolvedIssues.length) {
+      changedLayers.push(comparison);
+    }
+  });
+
+  const fixedLayers: LayerComparison[] = [];
+  const removedLayers: LayerComparison[] = [];
+  baseLayers
+    .filter((layer) => !matchedBaseLayers.has(layer))
+    .forEach((layer) => {
+      const comparison = compareIssues(
+        layer,
+        [],
+        layer.issues.filter(isViolation)
+      );
+      if (removedLayerIds.has(layer.id)) {
+        removedLayers.push(comparison);
+      } else {
+        fixedLayers.push(comparison);
+      }
+    });
+
+  const scoreDelta = {} as Record<ScoreMetric, number>;
+  SCORE_METRICS.forEach((metric) => {
+    scoreDelta[metric] = analysis.summary[metric] - base.summary[metric];
+  });
+
+  return {
+    scoreDelta,
+    fixedLayers,
+    removedLayers,
+    regressedLayers,
+    changedLayers,
+  };
+}
+
+function isSummary(value: unknown): value is CoverageSummary {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    SCORE_METRICS.every(
+      (metric) =>
+        typeof (value as Record<string, unknown>)[metric] === "number"
+    )
+  );
+}
+
+// Reads a report saved with "Export JSON". Throws when the file isn't one.
+export function parseAnalysisFile(contents: string): CoverageAnalysis {
+  let parsed: Partial<CoverageAnalysis>;
+  try {
+    parsed = JSON.parse(contents);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  if (
+    !parsed ||
+    !isSummary(parsed.summary) ||
+    !Array.isArray(parsed.details?.nonCompliantLayers)
+  ) {
+    throw new Error("The file is not an exported coverage report");
+  }
+  return parsed as CoverageAnalysis;
+}
@@ -0,0 +1,67 @@
+import {
+  AnalysisDelta,
+  CoverageAnalysis,
+  CoverageDelta,
+  NonCompliantLayer,
+} from "../types";
+
+// Patches the layer list in place: changed layers keep their position, new
+// ones are appended and compliant or removed ones are dropped.
+function patchLayers(
+  layers: NonCompliantLayer[],
+  delta: CoverageDelta
+): NonCompliantLayer[] {
+  const changed = new Map(delta.changedLayers.map((layer) => [layer.id, layer]));
+  const removed = new Set(delta.removedLayerIds);
+
+  const patched = layers
+    .filter((layer) => !removed.has(layer.id))
+    .map((layer) => {
+      const update = changed.get(layer.id);
+      changed.delete(layer.id);
+      return update ?? layer;
+    });
+  return [...patched, ...changed.values()];
+}
+
+function applyCoverageDelta(
+  analysis: CoverageAnalysis,
+  delta: CoverageDelta
+): CoverageAnalysis {
+  return {
+    ...analysis,
+    summary: delta.summary,
+    scoring: delta.scoring,
+    details: {
+      ...delta.details,
+      nonCompliantLayers: patchLayers(
+        analysis.details.nonCompliantLayers,
+        delta
+      ),
+    },
+  };
+}
+
+export function applyAnalysisDelta(
+  analysis: CoverageAnalysis,
+  delta: AnalysisDelta
+): CoverageAnalysis {
+  const updated = applyCoverageDelta(analysis, delta);
+  if (!analysis.frames) return updated;
+
+  const removedFrameIds = delta.removedFrameIds ?? [];
+  return {
+    ...updated,
+    frames: analysis.frames
+      .filter(
+        (frame) =>
+          removedFrameIds.indexOf(frame.summary.analyzedFrameId ?? "") === -1
+      )
+      .map((frame) => {
+        const frameDelta =
+          frame.summary.analyzedFrameId &&
+          delta.frames?.[frame.summary.analyzedFrameId];
+        return frameDelta ? applyCoverageDelta(frame, frameDelta) : frame;
+      }),
+  };
+}
@@ -0,0 +1,55 @@
+import { CoverageIssue, IssueRuleId, IssueSeverity } from "../types";
+
+export type IssueFixType =
+  | "color"
+  | "spacing"
+  | "text"
+  | "effect"
+  | "grid"
+  | "paint"
+  | "layout";
+
+const SEVERITY_ICONS: Record<IssueSeverity, string> = {
+  critical: "🔴",
+  warning: "⚠️",
+  suggestion: "💡",
+  pass: "✅",
+};
+
+// Rules the fix wizard knows how to resolve, keyed to the wizard step.
+const FIX_TYPES: Partial<Record<IssueRuleId, IssueFixType>> = {
+  "fill-token": "color",
+  "stroke-token": "color",
+  "fill-style": "color",
+  "stroke-style": "color",
+  "gap-token": "spacing",
+  "corner-radius-token": "spacing",
+  "padding-token": "spacing",
+  "stroke-weight-token": "spacing",
+  "opacity-token": "spacing",
+  "layout-grid-style": "grid",
+  "gradient-token": "paint",
+  "gradient-style": "paint",
+  "text-token": "text",
+  "text-style": "text",
+  "typography-match": "text",
+  "effect-style": "effect",
+  "auto-layout": "layout",
+};
+
+export function formatIssue(issue: CoverageIssue): string {
+  return `${SEVERITY_ICONS[issue.severity]} ${issue.message}`;
+}
+
+export function isViolation(issue: CoverageIssue): boolean {
+  return issue.severity === "critical" || issue.severity === "warning";
+}
+
+export function getIssueFixType(issue: CoverageIssue): IssueFixType | null {
+  if (issue.severity === "pass") return null;
+  return FIX_TYPES[issue.ruleId] ?? null;
+}
+
+export function getIssueClassName(issue: CoverageIssue): string {
+  return issue.severity === "pass" ? "success" : issue.severity;
+}
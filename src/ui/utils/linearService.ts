@@ -6,6 +6,7 @@ import type {
   LinearIssue,
   CoverageAnalysis,
 } from "../types";
+import { formatIssue } from "./issues";
 
 class LinearService {
   private config: LinearConfig | null = null;
@@ -253,6 +254,21 @@ class LinearService {
     lines.push(`**Overall Score:** ${summary.overallScore}%`);
     lines.push(`**Total Layers:** ${summary.totalLayers}`);
     lines.push(`**Compliant Layers:** ${summary.compliantLayers}`);
+    if (analysis.scoring) {
+      lines.push(`**Score Formula:** \`${analysis.scoring.formula}\``);
+    }
+    if (summary.verdict) {
+      lines.push(
+        `**Quality Gate:** ${
+          summary.verdict.passed ? "✅ Passed" : "❌ Failed"
+        }`
+      );
+      summary.verdict.failures.forEach((failure) => {
+        lines.push(
+          `- ${failure.label} ${failure.score}% is below ${failure.threshold}%`
+        );
+      });
+    }
     lines.push("");
 
     // Breakdown
@@ -260,8 +276,25 @@ class LinearService {
     lines.push(`- **Component Coverage:** ${summary.componentCoverage}%`);
     lines.push(`- **Token Coverage:** ${summary.tokenCoverage}%`);
     lines.push(`- **Style Coverage:** ${summary.styleCoverage}%`);
+    lines.push(
+      `- **Attached Instances:** ${summary.attachedInstanceCoverage}% (${summary.detachedInstances} detached)`
+    );
+    lines.push(
+      `- **Unmodified Instances:** ${summary.unmodifiedInstanceCoverage}% (${summary.overriddenInstances} overridden)`
+    );
     lines.push("");
 
+    // Property breakdown
+    if (Object.keys(details.byProperty).length > 0) {
+      lines.push("### By Property\n");
+      Object.entries(details.byProperty).forEach(([property, data]) => {
+        lines.push(
+          `- **${property}:** ${data.compliant}/${data.total} (${data.percentage}%)`
+        );
+      });
+      lines.push("");
+    }
+
     // Type breakdown
     if (Object.keys(details.byType).length > 0) {
       lines.push("### By Layer Type\n");
@@ -291,7 +324,7 @@ class LinearService {
         layers.slice(0, 10).forEach((layer) => {
           lines.push(`- \`${layer.name}\``);
           layer.issues.forEach((issue) => {
-            lines.push(`  - ${issue}`);
+            lines.push(`  - ${formatIssue(issue)} \`${issue.ruleId}\``);
           });
         });
         if (layers.length > 10) {